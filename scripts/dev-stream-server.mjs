@@ -0,0 +1,148 @@
+// scripts/dev-stream-server.mjs
+// Local stand-in for the realtime backend. Serves:
+//   GET /stream    server-sent events
+//   GET /ws        WebSocket (text frames only)
+//   GET /getAlert  the REST shape, so the API base URL can point here too
+// Usage: npm run dev:stream  (PORT and INTERVAL_MS env vars are optional)
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const INTERVAL_MS = Number(process.env.INTERVAL_MS ?? 2000);
+
+const devices = Array.from({ length: 8 }, (_, index) => ({
+  _id: `dev-stream-${index + 1}`,
+  deviceId: `STREAM-${String(index + 1).padStart(2, '0')}`,
+  latitude: Number((29.5 + Math.random() * 1.3).toFixed(5)),
+  longitude: Number((78.0 + Math.random() * 2.0).toFixed(5)),
+  humidity: 50,
+  temp: 26,
+  smoke: 12,
+  isfire: false,
+  lastUpdate: new Date().toISOString(),
+}));
+
+const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+const walk = (value, amount) => value + (Math.random() * 2 - 1) * amount;
+
+// Every tick a few devices drift; now and then one catches fire or burns out
+const tick = () => {
+  const changed = devices.filter(() => Math.random() < 0.5);
+  if (Math.random() < 0.05) {
+    const device = devices[Math.floor(Math.random() * devices.length)];
+    device.isfire = !device.isfire;
+    if (!changed.includes(device)) changed.push(device);
+  }
+
+  for (const device of changed) {
+    const target = device.isfire ? { temp: 70, smoke: 400, humidity: 15 } : { temp: 26, smoke: 12, humidity: 50 };
+    device.temp = Number(clamp(walk(device.temp + (target.temp - device.temp) * 0.2, 0.6), -10, 120).toFixed(1));
+    device.smoke = Number(clamp(walk(device.smoke + (target.smoke - device.smoke) * 0.2, 2), 0, 1000).toFixed(1));
+    device.humidity = Number(clamp(walk(device.humidity + (target.humidity - device.humidity) * 0.2, 1), 0, 100).toFixed(1));
+    device.lastUpdate = new Date().toISOString();
+  }
+  return changed;
+};
+
+const sseClients = new Set();
+const wsClients = new Set();
+
+const wsFrame = text => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x81, length])
+    : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), (() => {
+          const size = Buffer.alloc(8);
+          size.writeBigUInt64BE(BigInt(length));
+          return size;
+        })()]);
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = message => {
+  const text = JSON.stringify(message);
+  for (const response of sseClients) response.write(`data: ${text}\n\n`);
+  for (const socket of wsClients) socket.write(wsFrame(text));
+};
+
+const snapshot = () => ({ type: 'snapshot', alerts: devices });
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const server = http.createServer((request, response) => {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`);
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, corsHeaders);
+    response.end();
+    return;
+  }
+
+  if (pathname === '/stream') {
+    response.writeHead(200, {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    response.write(`data: ${JSON.stringify(snapshot())}\n\n`);
+    sseClients.add(response);
+    request.on('close', () => sseClients.delete(response));
+    return;
+  }
+
+  if (pathname.endsWith('/getAlert')) {
+    response.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ success: true, devices }));
+    return;
+  }
+
+  response.writeHead(404, corsHeaders);
+  response.end('Not found');
+});
+
+server.on('upgrade', (request, socket) => {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`);
+  const key = request.headers['sec-websocket-key'];
+  if (pathname !== '/ws' || !key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto
+    .createHash('sha1')
+    .update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.write(wsFrame(JSON.stringify(snapshot())));
+  wsClients.add(socket);
+
+  // Client messages are ignored apart from the close opcode
+  socket.on('data', data => {
+    if ((data[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0]));
+  });
+  socket.on('close', () => wsClients.delete(socket));
+  socket.on('error', () => wsClients.delete(socket));
+});
+
+setInterval(() => {
+  const changed = tick();
+  if (changed.length > 0) broadcast({ type: 'update', alerts: changed });
+}, INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Sensor stream server on http://localhost:${PORT}`);
+  console.log(`  SSE:       http://localhost:${PORT}/stream`);
+  console.log(`  WebSocket: ws://localhost:${PORT}/ws`);
+  console.log(`  REST:      http://localhost:${PORT}/getAlert`);
+});
@@ -5,22 +5,44 @@ import { SidebarProvider } from "@/components/ui/sidebar";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AppSidebar } from "@/components/AppSidebar";
+import AlertCenter from "@/components/AlertCenter";
+import { useSensorStream } from "@/hooks/use-fire-alerts";
+import { useHistoryRecorder } from "@/hooks/use-reading-history";
+import { useSessionEngine } from "@/hooks/use-sessions";
+import { useAlertEngine } from "@/hooks/use-alerts";
 import Dashboard from "./pages/Dashboard";
 import SensorStatus from "./pages/SensorStatus";
 import LiveMonitoring from "./pages/LiveMonitoring";
 import Reports from "./pages/Reports";
+import AlertInbox from "./pages/AlertInbox";
+import Zones from "./pages/Zones";
+import SensorRegistry from "./pages/SensorRegistry";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
+// App-wide background work that must keep running on every route:
+// the realtime stream feeds the query cache, the recorder persists it to history
+// the session engine turns it into fire alert sessions and the alert engine
+// raises and escalates an alert for each session
+const BackgroundSync = () => {
+  useSensorStream();
+  useHistoryRecorder();
+  useSessionEngine();
+  useAlertEngine();
+  return null;
+};
+
 const App = () => {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <BackgroundSync />
         <BrowserRouter>
+          <AlertCenter />
           <SidebarProvider>
             <div className="min-h-screen flex w-full">
               <AppSidebar />
@@ -28,9 +50,15 @@ const App = () => {
                 <Routes>
                   <Route path="/" element={<Dashboard />} />
                   <Route path="/sensors" element={<SensorStatus />} />
+                  <Route path="/registry" element={<SensorRegistry />} />
                   <Route path="/monitoring" element={<LiveMonitoring />} />
                   <Route path="/monitoring/:sensorId" element={<LiveMonitoring />} />
+                  <Route path="/alerts" element={<AlertInbox />} />
+                  <Route path="/zones" element={<Zones />} />
+                  <Route path="/zones/:zoneId" element={<Zones />} />
                   <Route path="/reports" element={<Reports />} />
+                  <Route path="/reports/:sessionId" element={<Reports />} />
+                  <Route path="/reports/:sessionId/:tab" element={<Reports />} />
                   <Route path="/settings" element={<Settings />} />
                   {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
                   <Route path="*" element={<NotFound />} />
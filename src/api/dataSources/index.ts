@@ -0,0 +1,54 @@
+// src/api/dataSources/index.ts
+import { getSettings } from '@/hooks/use-settings';
+import { createRestDataSource } from './restDataSource';
+import { createSimulatorDataSource } from './simulatorDataSource';
+import { createReplayDataSource } from './replayDataSource';
+import { DataSourceKind, SensorDataSource } from './types';
+
+export type { CreateAlertInput, DataSourceKind, SensorDataSource } from './types';
+export { parseReplayFile, replayRecordingStore } from './replayDataSource';
+export { simulatorScenarioStore } from './simulatorDataSource';
+
+export const DATA_SOURCE_KINDS: DataSourceKind[] = ['rest', 'simulator', 'replay'];
+
+const isDataSourceKind = (value: unknown): value is DataSourceKind =>
+  DATA_SOURCE_KINDS.includes(value as DataSourceKind);
+
+// VITE_DATA_SOURCE picks the source when Settings is left on "default"
+export const getEnvDataSourceKind = (): DataSourceKind => {
+  const fromEnv = import.meta.env.VITE_DATA_SOURCE;
+  return isDataSourceKind(fromEnv) ? fromEnv : 'rest';
+};
+
+export const resolveDataSourceKind = (): DataSourceKind => {
+  const { kind } = getSettings().dataSource;
+  return kind === 'default' ? getEnvDataSourceKind() : kind;
+};
+
+const factories: Record<DataSourceKind, () => SensorDataSource> = {
+  rest: () => createRestDataSource(() => getSettings().api.baseUrl.replace(/\/+$/, '')),
+  simulator: () => createSimulatorDataSource(() => getSettings().simulator),
+  replay: () =>
+    createReplayDataSource(() => ({
+      speed: getSettings().dataSource.replaySpeed,
+      loop: getSettings().dataSource.replayLoop,
+    })),
+};
+
+// Sources are created lazily and kept so simulator and replay state survive polls
+const instances = new Map<DataSourceKind, SensorDataSource>();
+
+export const getDataSource = (): SensorDataSource => {
+  const kind = resolveDataSourceKind();
+  let source = instances.get(kind);
+  if (!source) {
+    source = factories[kind]();
+    instances.set(kind, source);
+  }
+  return source;
+};
+
+// Drop a cached source so it restarts, e.g. after loading a new replay file
+export const resetDataSource = (kind: DataSourceKind) => {
+  instances.delete(kind);
+};
@@ -0,0 +1,149 @@
+// src/api/dataSources/replayDataSource.ts
+import { z } from 'zod';
+import { AlertData } from '@/types/sensor';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { toAlertData } from './restDataSource';
+import { SensorDataSource } from './types';
+
+export interface ReplayRecord {
+  // Milliseconds since the first record in the recording
+  offsetMs: number;
+  alert: AlertData;
+}
+
+export interface ReplayRecording {
+  name: string;
+  durationMs: number;
+  records: ReplayRecord[];
+}
+
+const deviceSchema = z.record(z.unknown());
+
+const frameSchema = z.object({
+  timestamp: z.string().optional(),
+  devices: z.array(deviceSchema),
+});
+
+// Accepts { frames: [...] }, a bare array of frames, or a flat list of device records
+const recordingFileSchema = z.union([
+  z.object({ name: z.string().optional(), frames: z.array(frameSchema).min(1) }),
+  z.array(frameSchema).min(1),
+  z.array(deviceSchema).min(1),
+]);
+
+// Stored records go through the same mapping as every other source
+const recordingSchema = z
+  .object({
+    name: z.string(),
+    durationMs: z.number().min(0),
+    records: z.array(z.object({ offsetMs: z.number(), alert: z.unknown().transform(toAlertData) })),
+  })
+  .transform(
+    (recording): ReplayRecording => ({
+      name: recording.name,
+      durationMs: recording.durationMs,
+      records: recording.records.map(record => ({ offsetMs: record.offsetMs, alert: record.alert })),
+    })
+  );
+
+const timeOf = (value: unknown) => (typeof value === 'string' ? Date.parse(value) : NaN);
+
+// Turn an uploaded JSON document into a time-ordered recording
+export const parseReplayFile = (json: string, fileName = 'recording'): ReplayRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const parsed = recordingFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error('Expected { frames: [{ timestamp, devices: [...] }] } or an array of device readings');
+  }
+
+  const data = parsed.data;
+  const frames = Array.isArray(data) ? data : data.frames;
+  const isFrameList = frames.every(frame => frameSchema.safeParse(frame).success);
+
+  const timed: { time: number; alert: AlertData }[] = [];
+  if (isFrameList) {
+    (frames as z.infer<typeof frameSchema>[]).forEach((frame, index) => {
+      frame.devices.forEach(device => {
+        const alert = toAlertData(device);
+        const time = timeOf(frame.timestamp) || timeOf(alert.timestamp) || index * 10000;
+        timed.push({ time, alert });
+      });
+    });
+  } else {
+    (frames as Record<string, unknown>[]).forEach((device, index) => {
+      const alert = toAlertData(device);
+      timed.push({ time: timeOf(alert.timestamp) || index * 10000, alert });
+    });
+  }
+
+  const valid = timed.filter(entry => typeof entry.alert.deviceId === 'string' && entry.alert.deviceId);
+  if (valid.length === 0) {
+    throw new Error('The recording does not contain any readings with a deviceId');
+  }
+
+  valid.sort((a, b) => a.time - b.time);
+  const start = valid[0].time;
+
+  return {
+    name: !Array.isArray(data) && data.name ? data.name : fileName,
+    durationMs: valid[valid.length - 1].time - start,
+    records: valid.map(entry => ({ offsetMs: entry.time - start, alert: entry.alert })),
+  };
+};
+
+export const replayRecordingStore = createPersistedStore<ReplayRecording | null>(
+  'replayRecording',
+  (raw): ReplayRecording | null => (raw === null ? null : recordingSchema.parse(raw)),
+  () => null
+);
+
+export interface ReplayOptions {
+  speed: number;
+  loop: boolean;
+}
+
+export const createReplayDataSource = (getOptions: () => ReplayOptions): SensorDataSource => {
+  const startedAt = Date.now();
+
+  // Latest reading per device at the current playback position, re-stamped to wall-clock time
+  const snapshot = (): AlertData[] => {
+    const recording = replayRecordingStore.getState();
+    if (!recording || recording.records.length === 0) return [];
+
+    const { speed, loop } = getOptions();
+    const now = Date.now();
+    let position = (now - startedAt) * speed;
+    if (loop && recording.durationMs > 0) {
+      position %= recording.durationMs + 1;
+    }
+
+    const latest = new Map<string, ReplayRecord>();
+    for (const record of recording.records) {
+      if (record.offsetMs > position) break;
+      latest.set(record.alert.deviceId, record);
+    }
+
+    return Array.from(latest.values()).map(record => ({
+      ...record.alert,
+      id: record.alert.id ?? `replay-${record.alert.deviceId}`,
+      timestamp: new Date(now - (position - record.offsetMs) / speed).toISOString(),
+    }));
+  };
+
+  return {
+    kind: 'replay',
+    label: 'Replay from file',
+    getFireAlerts: async () => snapshot(),
+    getFireAlertByDeviceId: async (deviceId: string) =>
+      snapshot().find(alert => alert.deviceId === deviceId) ?? null,
+    createFireAlert: async () => {
+      throw new Error('The replay data source is read-only');
+    },
+  };
+};
@@ -0,0 +1,115 @@
+// src/api/dataSources/restDataSource.ts
+import { RawRecord, rawRecordSchema } from '@/api/sensorNormalization';
+import { AlertData } from '@/types/sensor';
+import { CreateAlertInput, SensorDataSource } from './types';
+
+// Map a device document from the REST API (or a recording of it) to AlertData.
+// Field values pass through unchecked; normalizeSensor validates them.
+export const toAlertData = (alert: unknown): AlertData => {
+  const parsed = rawRecordSchema.safeParse(alert);
+  const record: RawRecord = parsed.success ? parsed.data : {};
+  return {
+    id: (record._id ?? record.id) as string,
+    deviceId: record.deviceId as string,
+    latitude: record.latitude as number,
+    longitude: record.longitude as number,
+    humidity: record.humidity as number,
+    temp: record.temp as number,
+    smoke: record.smoke as number,
+    isFire: (record.isfire ?? record.isFire) as boolean,
+    timestamp: (record.lastUpdate ?? record.timestamp) as string,
+  };
+};
+
+export const createRestDataSource = (getBaseUrl: () => string): SensorDataSource => {
+  // ✅ Fetch all alerts (GET)
+  const getFireAlerts = async (): Promise<AlertData[]> => {
+    try {
+      const response = await fetch(`${getBaseUrl()}/getAlert`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        mode: 'cors',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch alerts: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      if (data.success && Array.isArray(data.devices)) {
+        return data.devices.map(toAlertData);
+      }
+
+      console.warn('Unexpected API response format:', data);
+      return [];
+    } catch (error) {
+      console.error('Error fetching fire alerts:', error);
+      throw error;
+    }
+  };
+
+  // ✅ Fetch alert by device ID (GET) - with fallback to getAll if specific endpoint fails
+  const getFireAlertByDeviceId = async (deviceId: string): Promise<AlertData | null> => {
+    try {
+      // First try the specific device endpoint
+      const response = await fetch(`${getBaseUrl()}/getAlert`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        mode: 'cors',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+
+        if (data.success && data.device) {
+          return toAlertData(data.device);
+        }
+      }
+
+      // Fallback: Get all alerts and filter by deviceId
+      console.warn(`Specific device endpoint failed, trying fallback for device: ${deviceId}`);
+      const allAlerts = await getFireAlerts();
+      const deviceAlert = allAlerts.find(alert => alert.deviceId === deviceId);
+      return deviceAlert || null;
+    } catch (error) {
+      console.error(`Error fetching fire alert for device ${deviceId}:`, error);
+      throw error;
+    }
+  };
+
+  // ✅ Create / update device alert (POST)
+  const createFireAlert = async (alertData: CreateAlertInput) => {
+    try {
+      const response = await fetch(`${getBaseUrl()}/createAlert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(alertData),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to create alert: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data;
+    } catch (error) {
+      console.error('Error creating fire alert:', error);
+      throw error;
+    }
+  };
+
+  return {
+    kind: 'rest',
+    label: 'REST API',
+    getFireAlerts,
+    getFireAlertByDeviceId,
+    createFireAlert,
+  };
+};
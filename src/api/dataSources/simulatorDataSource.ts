@@ -0,0 +1,104 @@
+// src/api/dataSources/simulatorDataSource.ts
+import { AlertData } from '@/types/sensor';
+import { createPersistedStore } from '@/lib/persistedStore';
+import { createSensorNetworkSimulator, SensorNetworkSimulator, SimulatedReading } from '@/lib/simulator/engine';
+import { BUILT_IN_SCENARIOS, fireEventSchema, parseScenario, Scenario } from '@/lib/simulator/scenario';
+import { CreateAlertInput, SensorDataSource } from './types';
+
+// Scenario uploaded from Settings, used when the scenario id is 'custom'
+export const simulatorScenarioStore = createPersistedStore<Scenario | null>(
+  'simulatorScenario',
+  raw => (raw === null ? null : parseScenario(raw)),
+  () => null
+);
+
+export interface SimulatorSourceOptions {
+  scenarioId: string;
+  seed: number;
+  sensorCount: number;
+  speed: number;
+}
+
+const findScenario = (scenarioId: string): Scenario => {
+  if (scenarioId === 'custom') {
+    const custom = simulatorScenarioStore.getState();
+    if (custom) return custom;
+  }
+  return BUILT_IN_SCENARIOS.find(scenario => scenario.id === scenarioId) ?? BUILT_IN_SCENARIOS[0];
+};
+
+export const createSimulatorDataSource = (getOptions: () => SimulatorSourceOptions): SensorDataSource => {
+  let run: { key: string; simulator: SensorNetworkSimulator; startedAt: number; speed: number } | null = null;
+
+  // Changing any option (or the uploaded scenario) restarts the scenario from minute 0
+  const current = () => {
+    const options = getOptions();
+    const scenario = findScenario(options.scenarioId);
+    const key = JSON.stringify([options, scenario]);
+    if (!run || run.key !== key) {
+      run = {
+        key,
+        simulator: createSensorNetworkSimulator(scenario, { seed: options.seed, sensorCount: options.sensorCount }),
+        startedAt: Date.now(),
+        speed: options.speed,
+      };
+    }
+    return run;
+  };
+
+  const elapsedSeconds = () => {
+    const { startedAt, speed } = current();
+    return ((Date.now() - startedAt) / 1000) * speed;
+  };
+
+  const toAlert = (reading: SimulatedReading): AlertData => {
+    const { startedAt, speed } = current();
+    return {
+      id: `sim-${reading.sensor.deviceId}`,
+      deviceId: reading.sensor.deviceId,
+      latitude: reading.sensor.latitude,
+      longitude: reading.sensor.longitude,
+      humidity: reading.humidity,
+      temp: reading.temp,
+      smoke: reading.smoke,
+      isFire: reading.isFire,
+      timestamp: new Date(startedAt + (reading.reportedAt * 1000) / speed).toISOString(),
+    };
+  };
+
+  const getFireAlerts = async (): Promise<AlertData[]> =>
+    current().simulator.readAll(elapsedSeconds()).map(toAlert);
+
+  const getFireAlertByDeviceId = async (deviceId: string): Promise<AlertData | null> => {
+    const reading = current().simulator.readAll(elapsedSeconds()).find(r => r.sensor.deviceId === deviceId);
+    return reading ? toAlert(reading) : null;
+  };
+
+  // Posting isFire for a simulated device ignites a fire there from now on
+  const createFireAlert = async (alertData: CreateAlertInput) => {
+    const { simulator } = current();
+    const sensor = simulator.sensors.find(s => s.deviceId === alertData.deviceId);
+    if (!sensor) {
+      throw new Error(`Unknown simulated device ${alertData.deviceId}`);
+    }
+
+    if (alertData.isfire ?? alertData.isFire) {
+      simulator.addFire(
+        fireEventSchema.parse({
+          at: { lat: alertData.latitude ?? sensor.latitude, lng: alertData.longitude ?? sensor.longitude },
+          startMinute: elapsedSeconds() / 60,
+        })
+      );
+    }
+
+    return { success: true, deviceId: sensor.deviceId };
+  };
+
+  return {
+    kind: 'simulator',
+    label: 'In-browser simulator',
+    getFireAlerts,
+    getFireAlertByDeviceId,
+    createFireAlert,
+  };
+};
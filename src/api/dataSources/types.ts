@@ -0,0 +1,25 @@
+// src/api/dataSources/types.ts
+import { AlertData } from '@/types/sensor';
+
+export type DataSourceKind = 'rest' | 'simulator' | 'replay';
+
+// Payload accepted by createFireAlert; mirrors the REST createAlert body
+export interface CreateAlertInput {
+  deviceId: string;
+  latitude?: number;
+  longitude?: number;
+  humidity?: number;
+  temp?: number;
+  smoke?: number;
+  isfire?: boolean;
+  isFire?: boolean;
+}
+
+// Every backend the dashboard can read sensors from implements this
+export interface SensorDataSource {
+  readonly kind: DataSourceKind;
+  readonly label: string;
+  getFireAlerts(): Promise<AlertData[]>;
+  getFireAlertByDeviceId(deviceId: string): Promise<AlertData | null>;
+  createFireAlert(alertData: CreateAlertInput): Promise<unknown>;
+}
@@ -0,0 +1,12 @@
+// src/api/queryKeys.ts
+
+// Every page shares these keys so polling, streaming and invalidation all hit one cache entry
+export const fireAlertKeys = {
+  all: ['fireAlerts'] as const,
+  device: (deviceId: string) => ['fireAlerts', 'device', deviceId] as const,
+};
+
+export const historyKeys = {
+  all: ['history'] as const,
+  device: (deviceId: string) => ['history', deviceId] as const,
+};
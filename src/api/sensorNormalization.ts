@@ -0,0 +1,148 @@
+// src/api/sensorNormalization.ts
+import { z } from 'zod';
+import { SensorData } from '@/types/sensor';
+import { ThresholdProfile } from '@/types/thresholds';
+import { BUILT_IN_PROFILES, getStatusLevel, hasFieldIssue } from '@/lib/thresholds';
+
+export type ProfileResolver = (deviceId: string) => ThresholdProfile;
+
+const defaultResolver: ProfileResolver = () => BUILT_IN_PROFILES[0];
+
+// Accepts numbers and numeric strings, rejects everything else
+const numeric = z.preprocess(
+  value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number().finite()
+);
+
+const fieldSchemas = {
+  deviceId: z.string().min(1),
+  latitude: numeric.pipe(z.number().min(-90).max(90)),
+  longitude: numeric.pipe(z.number().min(-180).max(180)),
+  humidity: numeric,
+  temp: numeric,
+  smoke: numeric,
+  isFire: z.boolean(),
+  timestamp: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date'),
+  name: z.string().min(1),
+};
+
+// Raw records come either straight from the API (_id, isfire, lastUpdate)
+// or already mapped to AlertData (id, isFire, timestamp)
+export const rawRecordSchema = z
+  .object({
+    _id: z.unknown().optional(),
+    id: z.unknown().optional(),
+    deviceId: z.unknown().optional(),
+    latitude: z.unknown().optional(),
+    longitude: z.unknown().optional(),
+    humidity: z.unknown().optional(),
+    temp: z.unknown().optional(),
+    temperature: z.unknown().optional(),
+    smoke: z.unknown().optional(),
+    isFire: z.unknown().optional(),
+    isfire: z.unknown().optional(),
+    timestamp: z.unknown().optional(),
+    lastUpdate: z.unknown().optional(),
+    name: z.unknown().optional(),
+  })
+  .passthrough();
+
+export type RawRecord = z.infer<typeof rawRecordSchema>;
+
+const pick = (...values: unknown[]) => values.find(value => value !== undefined && value !== null);
+
+const readField = <K extends keyof typeof fieldSchemas>(
+  field: K,
+  value: unknown,
+  fallback: z.infer<(typeof fieldSchemas)[K]>,
+  issues: string[]
+): z.infer<(typeof fieldSchemas)[K]> => {
+  if (value === undefined || value === null) {
+    issues.push(`${field}: missing`);
+    return fallback;
+  }
+
+  const result = fieldSchemas[field].safeParse(value);
+  if (!result.success) {
+    issues.push(`${field}: ${result.error.issues[0]?.message ?? 'invalid value'}`);
+    return fallback;
+  }
+
+  return result.data as z.infer<(typeof fieldSchemas)[K]>;
+};
+
+// Single status classification shared by every page; fields with validation issues are skipped
+export const classifySensorStatus = (
+  reading: Pick<SensorData, 'isFire' | 'temp' | 'smoke' | 'humidity' | 'validationIssues'>,
+  profile: ThresholdProfile
+): SensorData['status'] => (getStatusLevel(reading, profile) === 'normal' ? 'active' : 'warning');
+
+// Whether the reading can feed sessions and danger scores: every measured value is real
+export const hasCompleteReading = (sensor: Pick<SensorData, 'validationIssues'>) =>
+  !(['temp', 'smoke', 'humidity', 'isFire', 'timestamp'] as const).some(field => hasFieldIssue(sensor, field));
+
+// Whether the sensor can be placed on a map
+export const hasValidLocation = (sensor: Pick<SensorData, 'latitude' | 'longitude' | 'validationIssues'>) =>
+  !hasFieldIssue(sensor, 'latitude') &&
+  !hasFieldIssue(sensor, 'longitude') &&
+  Number.isFinite(sensor.latitude) &&
+  Number.isFinite(sensor.longitude);
+
+// Normalize a single API record into SensorData, collecting validation problems
+export const normalizeSensor = (raw: unknown, resolveProfile: ProfileResolver = defaultResolver): SensorData => {
+  const parsed = rawRecordSchema.safeParse(raw);
+  const record: RawRecord = parsed.success ? parsed.data : {};
+  const issues: string[] = parsed.success ? [] : ['record: not an object'];
+
+  const rawId = pick(record._id, record.id);
+  const dbId = typeof rawId === 'string' && rawId.length > 0 ? rawId : undefined;
+
+  const deviceId = readField(
+    'deviceId',
+    record.deviceId,
+    dbId ? `DEV-${dbId.slice(-4)}` : 'DEV-unknown',
+    issues
+  );
+
+  const latitude = readField('latitude', record.latitude, 0, issues);
+  const longitude = readField('longitude', record.longitude, 0, issues);
+  const humidity = readField('humidity', record.humidity, 0, issues);
+  const temp = readField('temp', pick(record.temp, record.temperature), 0, issues);
+  const smoke = readField('smoke', record.smoke, 0, issues);
+  const isFire = readField('isFire', pick(record.isfire, record.isFire), false, issues);
+  const timestamp = readField(
+    'timestamp',
+    pick(record.lastUpdate, record.timestamp),
+    new Date().toISOString(),
+    issues
+  );
+
+  // Stable id: database id first, then the device id, never a random value
+  const id = dbId ?? (deviceId !== 'DEV-unknown' ? deviceId : `DEV-unknown-${latitude}-${longitude}`);
+
+  const name =
+    record.name !== undefined && fieldSchemas.name.safeParse(record.name).success
+      ? (record.name as string)
+      : `Sensor ${deviceId}`;
+
+  return {
+    id,
+    deviceId,
+    latitude,
+    longitude,
+    humidity,
+    temp,
+    smoke,
+    isFire,
+    timestamp,
+    name,
+    status: classifySensorStatus({ isFire, temp, smoke, humidity, validationIssues: issues }, resolveProfile(deviceId)),
+    validationIssues: issues,
+  };
+};
+
+// Normalize a list of API records, dropping nothing so problems stay visible
+export const normalizeSensors = (raw: unknown, resolveProfile: ProfileResolver = defaultResolver): SensorData[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(record => normalizeSensor(record, resolveProfile));
+};
@@ -0,0 +1,148 @@
+// src/api/sensorStream.ts
+import { AlertData } from '@/types/sensor';
+import { createStore } from '@/lib/store';
+import { toAlertData } from './dataSources/restDataSource';
+
+export type StreamTransport = 'sse' | 'websocket';
+
+// 'polling' means the stream gave up for now and pages fall back to refetching
+export type StreamStatus = 'off' | 'connecting' | 'live' | 'reconnecting' | 'polling';
+
+export interface StreamState {
+  status: StreamStatus;
+  transport: StreamTransport | null;
+  lastMessageAt: number | null;
+  attempts: number;
+}
+
+export const streamStateStore = createStore<StreamState>({
+  status: 'off',
+  transport: null,
+  lastMessageAt: null,
+  attempts: 0,
+});
+
+export interface StreamMessage {
+  alerts: AlertData[];
+  // A snapshot replaces the whole sensor list, otherwise alerts are upserts
+  snapshot: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts an array (snapshot), { type, alerts | alert | devices }, or a single device document
+export const parseStreamMessage = (data: string): StreamMessage | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    console.warn('Ignoring non-JSON stream message:', data);
+    return null;
+  }
+
+  if (Array.isArray(payload)) {
+    return { alerts: payload.map(toAlertData), snapshot: true };
+  }
+  if (!isRecord(payload)) return null;
+
+  const list = payload.alerts ?? payload.devices;
+  if (Array.isArray(list)) {
+    return { alerts: list.map(toAlertData), snapshot: payload.type === 'snapshot' };
+  }
+  if (isRecord(payload.alert)) {
+    return { alerts: [toAlertData(payload.alert)], snapshot: false };
+  }
+  if (typeof payload.deviceId === 'string') {
+    return { alerts: [toAlertData(payload)], snapshot: false };
+  }
+  return null;
+};
+
+export interface SensorStreamOptions {
+  url: string;
+  transport: StreamTransport;
+  onMessage: (message: StreamMessage) => void;
+}
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// Consecutive failures before the indicator reports a fallback to polling
+const ATTEMPTS_BEFORE_POLLING = 3;
+
+// Exponential backoff with jitter so many tabs don't reconnect in lockstep
+const backoffDelay = (attempt: number) => {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Opens the stream and keeps it open until the returned function is called
+export const connectSensorStream = ({ url, transport, onMessage }: SensorStreamOptions) => {
+  let closed = false;
+  let attempts = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let close: (() => void) | undefined;
+
+  const setStatus = (status: StreamStatus) => {
+    streamStateStore.setState(state => ({ ...state, status, transport, attempts }));
+  };
+
+  const handleData = (data: string) => {
+    const message = parseStreamMessage(data);
+    streamStateStore.setState(state => ({ ...state, lastMessageAt: Date.now() }));
+    if (message) onMessage(message);
+  };
+
+  const handleOpen = () => {
+    attempts = 0;
+    setStatus('live');
+  };
+
+  const handleFailure = () => {
+    if (closed) return;
+    close?.();
+    close = undefined;
+    attempts += 1;
+    setStatus(attempts >= ATTEMPTS_BEFORE_POLLING ? 'polling' : 'reconnecting');
+    retryTimer = setTimeout(open, backoffDelay(attempts));
+  };
+
+  function open() {
+    if (closed) return;
+    setStatus(attempts === 0 ? 'connecting' : streamStateStore.getState().status);
+
+    try {
+      if (transport === 'sse') {
+        const source = new EventSource(url);
+        source.onopen = handleOpen;
+        source.onmessage = event => handleData(event.data);
+        // EventSource retries on its own, but we want our backoff and status reporting
+        source.onerror = handleFailure;
+        close = () => source.close();
+      } else {
+        const socket = new WebSocket(url);
+        socket.onopen = handleOpen;
+        socket.onmessage = event => {
+          if (typeof event.data === 'string') handleData(event.data);
+        };
+        socket.onclose = handleFailure;
+        close = () => {
+          socket.onclose = null;
+          socket.close();
+        };
+      }
+    } catch (error) {
+      console.error('Could not open sensor stream:', error);
+      handleFailure();
+    }
+  }
+
+  open();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    close?.();
+    streamStateStore.setState({ status: 'off', transport: null, lastMessageAt: null, attempts: 0 });
+  };
+};
@@ -0,0 +1,70 @@
+// src/components/AlertCenter.tsx
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import FireAlertPopup from '@/components/FireAlertPopup';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useAlertNotifications } from '@/hooks/use-alert-notifications';
+import { useFireAlerts } from '@/hooks/use-fire-alerts';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { useSessions } from '@/hooks/use-sessions';
+import { useSettings } from '@/hooks/use-settings';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { normalizeSensors } from '@/api/sensorNormalization';
+
+// Mounted once inside the router so fire alerts reach the operator on every route:
+// the popup, the siren, browser notifications and the flashing tab
+const AlertCenter: React.FC = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const { getProfile } = useThresholds();
+  const { withMetadata } = useSensorRegistry();
+  const { unacknowledgedAlerts } = useAlerts();
+  const { activeSessions } = useSessions();
+  // lastRaisedAt of each alert when the popup was closed; an escalation raises it again
+  const [dismissedAlerts, setDismissedAlerts] = useState<Record<string, string>>({});
+
+  // Keeps readings flowing into the session engine whichever page is open
+  const { data: apiResponse } = useFireAlerts(settings.polling.dashboard);
+  const sensors = withMetadata(normalizeSensors(apiResponse, getProfile));
+
+  const pendingAlerts = unacknowledgedAlerts.filter(alert => dismissedAlerts[alert.id] !== alert.lastRaisedAt);
+
+  useAlertNotifications({
+    pendingAlerts,
+    unacknowledgedAlerts,
+    activeFireCount: activeSessions.length,
+    onNotificationClick: () => navigate('/alerts'),
+  });
+
+  // Closing the popup silences the siren until the next escalation; it does not acknowledge
+  const handleClose = () => {
+    setDismissedAlerts(current => ({
+      ...current,
+      ...Object.fromEntries(pendingAlerts.map(alert => [alert.id, alert.lastRaisedAt])),
+    }));
+  };
+
+  const handleViewInMap = (deviceId: string) => {
+    handleClose();
+    navigate(`/?sensor=${deviceId}`);
+  };
+
+  const handleLiveMonitoring = (deviceId: string) => {
+    handleClose();
+    navigate(`/monitoring/${deviceId}`);
+  };
+
+  if (pendingAlerts.length === 0) return null;
+
+  return (
+    <FireAlertPopup
+      alerts={pendingAlerts}
+      sensors={sensors}
+      onViewInMap={handleViewInMap}
+      onLiveMonitoring={handleLiveMonitoring}
+      onClose={handleClose}
+    />
+  );
+};
+
+export default AlertCenter;
@@ -10,15 +10,21 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
+  SidebarFooter,
   useSidebar,
 } from '@/components/ui/sidebar';
+import ConnectionStatus from '@/components/ConnectionStatus';
+import { useAlerts } from '@/hooks/use-alerts';
 import { 
   Home, 
   Radar, 
   TreePine, 
   FileText, 
   Settings,
-  Shield
+  Shield,
+  Bell,
+  Map as MapIcon,
+  ClipboardList
 } from 'lucide-react';
 
 const menuItems = [
@@ -32,11 +38,26 @@ const menuItems = [
     url: '/sensors',
     icon: Radar,
   },
+  {
+    title: 'Sensor Registry',
+    url: '/registry',
+    icon: ClipboardList,
+  },
   {
     title: 'Live Monitoring',
     url: '/monitoring',
     icon: TreePine,
   },
+  {
+    title: 'Alert Inbox',
+    url: '/alerts',
+    icon: Bell,
+  },
+  {
+    title: 'Forest Zones',
+    url: '/zones',
+    icon: MapIcon,
+  },
   {
     title: 'Reports',
     url: '/reports',
@@ -54,6 +75,7 @@ export function AppSidebar() {
   const location = useLocation();
   const currentPath = location.pathname;
   const collapsed = state === 'collapsed';
+  const { unacknowledgedAlerts } = useAlerts();
 
   const isActive = (path: string) => currentPath === path;
   const getNavCls = ({ isActive }: { isActive: boolean }) =>
@@ -107,6 +129,11 @@ export function AppSidebar() {
                     <NavLink to={item.url} end className={getNavCls}>
                       <item.icon className="w-5 h-5" />
                       {!collapsed && <span className="ml-3">{item.title}</span>}
+                      {!collapsed && item.url === '/alerts' && unacknowledgedAlerts.length > 0 && (
+                        <span className="ml-auto rounded-full bg-forest-danger px-2 text-xs font-medium text-white">
+                          {unacknowledgedAlerts.length}
+                        </span>
+                      )}
                     </NavLink>
                   </SidebarMenuButton>
                 </SidebarMenuItem>
@@ -115,6 +142,10 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+
+      <SidebarFooter className={`border-t border-forest-accent/30 ${collapsed ? 'items-center' : 'px-4'}`}>
+        <ConnectionStatus compact={collapsed} />
+      </SidebarFooter>
     </Sidebar>
   );
 }
@@ -0,0 +1,75 @@
+// src/components/ConnectionStatus.tsx
+import React from 'react';
+import { Radio, RefreshCw, WifiOff, Loader2 } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useStreamState } from '@/hooks/use-fire-alerts';
+import { useFormatters } from '@/hooks/use-settings';
+import { StreamStatus } from '@/api/sensorStream';
+
+const STATUS_DISPLAY: Record<StreamStatus, { label: string; detail: string; className: string; icon: typeof Radio }> = {
+  off: {
+    label: 'Polling',
+    detail: 'Realtime stream is off; pages refresh on their polling intervals.',
+    className: 'text-muted-foreground',
+    icon: RefreshCw,
+  },
+  connecting: {
+    label: 'Connecting',
+    detail: 'Opening the realtime stream.',
+    className: 'text-forest-warning',
+    icon: Loader2,
+  },
+  live: {
+    label: 'Live',
+    detail: 'Receiving pushed sensor updates.',
+    className: 'text-forest-success',
+    icon: Radio,
+  },
+  reconnecting: {
+    label: 'Reconnecting',
+    detail: 'Stream dropped; retrying with backoff while pages poll.',
+    className: 'text-forest-warning',
+    icon: Loader2,
+  },
+  polling: {
+    label: 'Stream down',
+    detail: 'Stream unreachable; falling back to polling and retrying in the background.',
+    className: 'text-forest-danger',
+    icon: WifiOff,
+  },
+};
+
+interface ConnectionStatusProps {
+  compact?: boolean;
+}
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ compact = false }) => {
+  const { status, transport, lastMessageAt, attempts } = useStreamState();
+  const format = useFormatters();
+  const display = STATUS_DISPLAY[status];
+  const Icon = display.icon;
+  const spinning = status === 'connecting' || status === 'reconnecting';
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className={`flex items-center gap-2 text-xs ${display.className}`} role="status">
+          <Icon className={`w-4 h-4 ${spinning ? 'animate-spin' : ''} ${status === 'live' ? 'animate-pulse' : ''}`} />
+          {!compact && (
+            <span>
+              {display.label}
+              {transport && status === 'live' && ` (${transport === 'sse' ? 'SSE' : 'WebSocket'})`}
+            </span>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="right">
+        <p>{display.detail}</p>
+        {attempts > 0 && <p>Failed attempts: {attempts}</p>}
+        {lastMessageAt && <p>Last message: {format.time(new Date(lastMessageAt), { seconds: true })}</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default ConnectionStatus;
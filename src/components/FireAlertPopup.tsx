@@ -1,5 +1,5 @@
 // src/components/FireAlertPopup.tsx
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -7,24 +7,43 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { SensorData } from '@/types/sensor';
-import { MapPin, Activity, X } from 'lucide-react';
+import { FireAlert } from '@/types/alert';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { useAlerts } from '@/hooks/use-alerts';
+import { MapPin, Activity, X, CheckCircle2 } from 'lucide-react';
 
 interface FireAlertPopupProps {
-  alerts: SensorData[];
-  onViewInMap: (sensorId: string) => void;
-  onLiveMonitoring: (sensorId: string) => void; // Add this back
+  alerts: FireAlert[];
+  // Latest readings, matched to alerts by device id
+  sensors: SensorData[];
+  onViewInMap: (deviceId: string) => void;
+  onLiveMonitoring: (deviceId: string) => void;
   onClose: () => void;
 }
 
 const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
   alerts,
+  sensors,
   onViewInMap,
-  onLiveMonitoring, // Add this back
+  onLiveMonitoring,
   onClose
 }) => {
+  const format = useFormatters();
+  const { settings } = useSettings();
+  const { acknowledgeAlert } = useAlerts();
+  const [operator, setOperator] = useState(settings.alerts.operatorName);
+
+  useEffect(() => {
+    setOperator(current => current || settings.alerts.operatorName);
+  }, [settings.alerts.operatorName]);
+
   if (!alerts || alerts.length === 0) return null;
 
+  const operatorName = operator.trim();
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="glass-card border-forest-danger max-w-md">
@@ -44,55 +63,92 @@ const FireAlertPopup: React.FC<FireAlertPopupProps> = ({
             </Button>
           </div>
         </DialogHeader>
-        
+
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
-            {alerts.length} sensor{alerts.length > 1 ? 's' : ''} detected potential fire conditions.
+            {alerts.length} unacknowledged alert{alerts.length > 1 ? 's' : ''}. Closing this window does not
+            acknowledge {alerts.length > 1 ? 'them' : 'it'}.
           </p>
-          
-          {alerts.map((alert) => (
-            <div key={alert.id} className="p-3 bg-forest-danger/10 rounded-lg">
-              <h4 className="font-medium text-forest-primary">
-                {alert.name || `Sensor ${alert.deviceId}`}
-              </h4>
-              <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Temp:</span>
-                  <span className="ml-1 font-medium">{alert.temp}°C</span>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Smoke:</span>
-                  <span className="ml-1 font-medium">{alert.smoke} ppm</span>
-                </div>
-                <div>
-                  <span className="text-muted-foreground">Location:</span>
-                  <span className="ml-1 font-medium">
-                    {alert.latitude.toFixed(4)}, {alert.longitude.toFixed(4)}
-                  </span>
+
+          <div className="space-y-1">
+            <Label htmlFor="alert-operator">Acknowledging as</Label>
+            <Input
+              id="alert-operator"
+              value={operator}
+              onChange={event => setOperator(event.target.value)}
+              placeholder="Your name"
+            />
+          </div>
+
+          <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {alerts.map((alert) => {
+              const sensor = sensors.find(s => s.deviceId === alert.deviceId);
+              return (
+                <div key={alert.id} className="p-3 bg-forest-danger/10 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium text-forest-primary">
+                      {sensor?.name || `Sensor ${alert.deviceId}`}
+                    </h4>
+                    {alert.escalations > 0 && (
+                      <span className="text-xs font-medium text-forest-danger">
+                        Escalated ×{alert.escalations}
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Temp:</span>
+                      <span className="ml-1 font-medium">{sensor ? format.temperature(sensor.temp) : '--'}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Smoke:</span>
+                      <span className="ml-1 font-medium">{sensor ? format.smoke(sensor.smoke) : '--'}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Location:</span>
+                      <span className="ml-1 font-medium">
+                        {alert.latitude.toFixed(4)}, {alert.longitude.toFixed(4)}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Raised:</span>
+                      <span className="ml-1 font-medium">{format.time(alert.raisedAt)}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      onClick={() => onViewInMap(alert.deviceId)}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white text-xs"
+                    >
+                      <MapPin className="w-3 h-3 mr-1" />
+                      View in Map
+                    </Button>
+                    <Button
+                      onClick={() => onLiveMonitoring(alert.deviceId)}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white text-xs"
+                    >
+                      <Activity className="w-3 h-3 mr-1" />
+                      Live Monitor
+                    </Button>
+                  </div>
+                  <Button
+                    onClick={() => acknowledgeAlert(alert.id, operatorName)}
+                    disabled={!operatorName}
+                    size="sm"
+                    className="w-full mt-2 bg-forest-primary text-white hover:bg-forest-primary/90 text-xs"
+                  >
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                    Acknowledge
+                  </Button>
                 </div>
-              </div>
-              
-              <div className="flex gap-2 mt-3">
-                <Button 
-                  onClick={() => onViewInMap(alert.id)}
-                  variant="outline"
-                  size="sm"
-                  className="flex-1 border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white text-xs"
-                >
-                  <MapPin className="w-3 h-3 mr-1" />
-                  View in Map
-                </Button>
-                <Button 
-                  onClick={() => onLiveMonitoring(alert.deviceId)} // <<-- FIX: pass deviceId (not the DB _id)
-                  size="sm"
-                  className="flex-1 bg-forest-primary text-white hover:bg-forest-primary/90 text-xs"
-                >
-                  <Activity className="w-3 h-3 mr-1" />
-                  Live Monitor
-                </Button>
-              </div>
-            </div>
-          ))}
+              );
+            })}
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,56 @@
+// src/components/FireDangerIndicator.tsx
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { useSettings } from '@/hooks/use-settings';
+import { DANGER_LABELS, DANGER_STYLES, describeFireDanger } from '@/lib/fireDanger';
+import { FireDangerComponents, FireDangerReport } from '@/types/danger';
+import { Gauge } from 'lucide-react';
+
+const COMPONENT_LABELS: Record<keyof FireDangerComponents, string> = {
+  weather: 'Weather (temperature and humidity)',
+  dryness: 'Dryness over past days',
+  smokeTrend: 'Smoke trend',
+};
+
+interface FireDangerIndicatorProps {
+  danger: FireDangerReport;
+  // Hides the per-component bars where space is short
+  compact?: boolean;
+}
+
+const FireDangerIndicator: React.FC<FireDangerIndicatorProps> = ({ danger, compact = false }) => {
+  const { settings } = useSettings();
+  const style = DANGER_STYLES[danger.level];
+
+  return (
+    <div className="space-y-2 rounded-lg border border-forest-accent/30 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+          <Gauge className={`w-4 h-4 ${style.text}`} />
+          Fire danger
+        </p>
+        <Badge className={style.badge}>
+          {DANGER_LABELS[danger.level]} · {danger.score}
+        </Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">{describeFireDanger(danger, settings)}</p>
+      {!compact &&
+        (Object.keys(COMPONENT_LABELS) as (keyof FireDangerComponents)[]).map(key => (
+          <div key={key}>
+            <div className="flex justify-between text-xs mb-1">
+              <span>{COMPONENT_LABELS[key]}</span>
+              <span className="font-medium">{Math.round(danger.components[key] * 100)}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5">
+              <div
+                className="h-1.5 rounded-full"
+                style={{ width: `${danger.components[key] * 100}%`, backgroundColor: style.hex }}
+              />
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default FireDangerIndicator;
@@ -1,12 +1,78 @@
 // src/components/LeafletMap.tsx
-import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
+import React, { useCallback, useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import L from 'leaflet';
+import 'leaflet.markercluster';
 import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import { Button } from '@/components/ui/button';
+import { Maximize2 } from 'lucide-react';
 import { SensorData } from '@/types/sensor';
+import { hasValidLocation } from '@/api/sensorNormalization';
+import { SensorStatusLevel } from '@/types/thresholds';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { getSettings, useFormatters } from '@/hooks/use-settings';
+import { explainAnomalies, hasAnomaly } from '@/lib/anomalyDetection';
+import { DANGER_LABELS, DANGER_STYLES, FIRE_DANGER_LEVELS } from '@/lib/fireDanger';
+import { getSensorLevel, STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { queryHistory } from '@/lib/readingHistory';
+import { getMetricRisk, HEAT_METRIC_LABELS, HEAT_METRICS, HeatMetric } from '@/lib/heatmap';
+import { createHeatLayer, HeatLayer } from '@/lib/leafletHeatLayer';
+import { getFireRadiusMeters, getFireSeverity } from '@/lib/spreadPrediction';
+import { SpreadPrediction } from '@/types/spread';
+import { getMetadataDetails } from '@/lib/sensorRegistry';
+import { HEALTH_LABELS, HEALTH_STYLES } from '@/lib/sensorHealth';
+import { useZones } from '@/hooks/use-zones';
+import { formatZoneName, summarizeZones, ZONE_LEVELS } from '@/lib/zones';
+import { ForestZone } from '@/types/zones';
+
+// Trend window summarised in each marker popup
+const POPUP_HISTORY_MS = 60 * 60 * 1000;
+
+// Projected perimeters, drawn furthest first so the nearer ones sit on top
+const SPREAD_STYLES: Record<number, { color: string; fillOpacity: number }> = {
+  15: { color: '#b91c1c', fillOpacity: 0.25 },
+  30: { color: '#ea580c', fillOpacity: 0.15 },
+  60: { color: '#f59e0b', fillOpacity: 0.1 },
+};
+
+// Divisions are drawn first and faintest so ranges and beats stay readable on top
+const ZONE_FILL_OPACITY = [0.04, 0.08, 0.12];
+
+// GeoJSON [lng, lat] rings to Leaflet's nested [lat, lng] arrays
+const toLatLngPolygons = (zone: ForestZone): L.LatLngExpression[][][] =>
+  zone.polygons.map(polygon => polygon.map(ring => ring.map(([lng, lat]) => [lat, lng] as L.LatLngTuple)));
+
+const LEVEL_RANK: Record<SensorStatusLevel, number> = { normal: 0, anomaly: 1, warning: 2, fire: 3 };
+
+// Marker options carry the status so clusters can colour by their worst member
+interface SensorMarkerOptions extends L.MarkerOptions {
+  statusLevel: SensorStatusLevel;
+}
+
+interface SensorMarkerEntry {
+  marker: L.Marker;
+  // Icon inputs, so the icon is only rebuilt when one of them changes
+  iconKey: string;
+}
+
+const hasValidCoordinates = (sensor: SensorData) =>
+  hasValidLocation(sensor) &&
+  sensor.latitude !== 0 &&
+  sensor.longitude !== 0;
+
+// Leaflet treats string content as HTML; names and ids from feeds and files go in as text
+const textElement = (text: string) => {
+  const element = document.createElement('span');
+  element.textContent = text;
+  return element;
+};
 
 interface LeafletMapProps {
   sensors: SensorData[];
+  // Projected fire perimeters, drawn on the 'Spread prediction' layer
+  predictions?: SpreadPrediction[];
   onSensorClick?: (sensor: SensorData) => void;
+  onZoneClick?: (zoneId: string) => void;
   selectedSensorId?: string;
   className?: string;
 }
@@ -22,21 +88,21 @@ const toBase64 = (str: string): string => {
   }
 };
 
-// Create sensor icon based on status
-const createSensorIcon = (sensor: SensorData, isSelected: boolean = false) => {
+// Create sensor icon based on status. Fire status sets the fill; device health
+// is drawn separately: faded and dashed when offline, with a corner dot when stale or faulty
+const createSensorIcon = (sensor: SensorData, level: SensorStatusLevel, isSelected: boolean = false) => {
   const size = isSelected ? 30 : 20;
-  let color = '#22c55e'; // green for normal
-  
-  if (sensor.isFire) {
-    color = '#ef4444'; // red for fire
-  } else if (sensor.status === 'warning' || sensor.temp > 35 || sensor.smoke > 50) {
-    color = '#f59e0b'; // orange for warning
-  }
+  const color = STATUS_STYLES[level].hex;
+  const health = sensor.health?.health ?? 'healthy';
+  const offline = health === 'offline';
 
   const svgString = `<svg width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-    <circle cx="12" cy="12" r="10" fill="${color}" stroke="white" stroke-width="2"/>
-    <circle cx="12" cy="12" r="6" fill="white" fill-opacity="0.3"/>
-    ${sensor.isFire ? '<path d="M12 6v6l4 2" stroke="white" stroke-width="2" stroke-linecap="round"/>' : ''}
+    <g opacity="${offline ? 0.5 : 1}">
+      <circle cx="12" cy="12" r="10" fill="${color}" stroke="${offline ? HEALTH_STYLES.offline.hex : 'white'}" stroke-width="2"${offline ? ' stroke-dasharray="3 2"' : ''}/>
+      <circle cx="12" cy="12" r="6" fill="white" fill-opacity="0.3"/>
+      ${sensor.isFire ? '<path d="M12 6v6l4 2" stroke="white" stroke-width="2" stroke-linecap="round"/>' : ''}
+    </g>
+    ${health === 'stale' || health === 'faulty' ? `<circle cx="19" cy="5" r="4.5" fill="${HEALTH_STYLES[health].hex}" stroke="white" stroke-width="1.5"/>` : ''}
   </svg>`;
 
   const dataUrl = `data:image/svg+xml;base64,${toBase64(svgString)}`;
@@ -49,26 +115,73 @@ const createSensorIcon = (sensor: SensorData, isSelected: boolean = false) => {
   });
 };
 
+const createClusterIcon = (cluster: L.MarkerCluster) => {
+  const children = cluster.getAllChildMarkers();
+  const worst = children.reduce<SensorStatusLevel>((level, marker) => {
+    const markerLevel = (marker.options as SensorMarkerOptions).statusLevel ?? 'normal';
+    return LEVEL_RANK[markerLevel] > LEVEL_RANK[level] ? markerLevel : level;
+  }, 'normal');
+  const fires = children.filter(marker => (marker.options as SensorMarkerOptions).statusLevel === 'fire').length;
+  const size = children.length < 10 ? 34 : children.length < 100 ? 40 : 48;
+  const color = STATUS_STYLES[worst].hex;
+
+  return L.divIcon({
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};border:3px solid white;
+      box-shadow:0 0 0 4px ${color}55;color:white;font-weight:700;font-size:13px;display:flex;align-items:center;justify-content:center">
+      ${children.length}${fires > 0 ? `<span style="font-size:10px;margin-left:2px">🔥${fires}</span>` : ''}</div>`,
+    className: 'sensor-cluster',
+    iconSize: [size, size],
+  });
+};
+
 export interface LeafletMapHandle {
   zoomToSensor: (sensor: SensorData) => void;
+  fitAllSensors: () => void;
 }
 
 const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({ 
   sensors, 
+  predictions,
   onSensorClick, 
+  onZoneClick,
   selectedSensorId,
   className = ""
 }, ref) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
-  const markersRef = useRef<L.Marker[]>([]);
-  const circlesRef = useRef<L.Circle[]>([]);
+  const clusterGroupRef = useRef<L.MarkerClusterGroup | null>(null);
+  const fireZonesRef = useRef<L.LayerGroup | null>(null);
+  const spreadLayerRef = useRef<L.LayerGroup | null>(null);
+  const zoneLayerRef = useRef<L.LayerGroup | null>(null);
+  const dangerLayerRef = useRef<L.LayerGroup | null>(null);
+  const heatLayersRef = useRef<Partial<Record<HeatMetric, HeatLayer>>>({});
+  // Markers and fire zones keyed by sensor id, updated in place on every refresh
+  const markersRef = useRef(new Map<string, SensorMarkerEntry>());
+  const circlesRef = useRef(new Map<string, L.Circle>());
+  // Latest reading per sensor id for popups and click handlers bound once per marker
+  const sensorsByIdRef = useRef(new Map<string, SensorData>());
+  const onSensorClickRef = useRef(onSensorClick);
+  onSensorClickRef.current = onSensorClick;
+  const onZoneClickRef = useRef(onZoneClick);
+  onZoneClickRef.current = onZoneClick;
+  const formatRef = useRef<ReturnType<typeof useFormatters> | null>(null);
+  const getProfileRef = useRef<ReturnType<typeof useThresholds>['getProfile'] | null>(null);
+  const lastSelectedRef = useRef<string | undefined>(undefined);
+  const hasFittedRef = useRef(false);
   const [mapReady, setMapReady] = useState(false);
+  const [visibleHeat, setVisibleHeat] = useState<HeatMetric[]>([]);
+  const [showDanger, setShowDanger] = useState(false);
+  const { getProfile } = useThresholds();
+  const { zones, getAssignment } = useZones();
+  const format = useFormatters();
+  formatRef.current = format;
+  getProfileRef.current = getProfile;
 
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
 
-    // Initialize map focused on Uttarakhand
+    // Initialize map on the configured default view (Uttarakhand unless changed)
+    const { map: defaultView } = getSettings();
     const mapInstance = L.map(mapRef.current, {
       preferCanvas: true,
       zoomControl: true,
@@ -76,14 +189,59 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
       scrollWheelZoom: true,
       doubleClickZoom: true,
       boxZoom: true
-    }).setView([30.0668, 79.0193], 8); // Center of Uttarakhand
+    }).setView([defaultView.centerLat, defaultView.centerLng], defaultView.zoom);
 
     // Add tile layer
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    const streets = L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
       attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
       maxZoom: 19
     }).addTo(mapInstance);
 
+    // Sensors are clustered so hundreds of markers stay usable; clusters take the worst status inside
+    const clusterGroup = L.markerClusterGroup({
+      iconCreateFunction: createClusterIcon,
+      showCoverageOnHover: false,
+      spiderfyOnMaxZoom: true,
+      maxClusterRadius: 50,
+      chunkedLoading: true,
+    }).addTo(mapInstance);
+    const zoneLayer = L.layerGroup().addTo(mapInstance);
+    const fireZones = L.layerGroup().addTo(mapInstance);
+    const spreadLayer = L.layerGroup().addTo(mapInstance);
+
+    // Heat and danger layers start hidden and are switched on from the layer control
+    const dangerLayer = L.layerGroup();
+    const heatLayers = Object.fromEntries(HEAT_METRICS.map(metric => [metric, createHeatLayer()])) as Record<HeatMetric, HeatLayer>;
+
+    L.control
+      .layers(
+        { Streets: streets },
+        {
+          Sensors: clusterGroup,
+          'Forest zones': zoneLayer,
+          'Fire alert zones': fireZones,
+          'Spread prediction': spreadLayer,
+          'Fire danger': dangerLayer,
+          ...Object.fromEntries(HEAT_METRICS.map(metric => [HEAT_METRIC_LABELS[metric], heatLayers[metric]])),
+        },
+        { position: 'topright', collapsed: true }
+      )
+      .addTo(mapInstance);
+
+    // Mirror the visible heat and danger layers into state for the legend
+    const syncVisibleHeat = () => {
+      setVisibleHeat(HEAT_METRICS.filter(metric => mapInstance.hasLayer(heatLayers[metric])));
+      setShowDanger(mapInstance.hasLayer(dangerLayer));
+    };
+    mapInstance.on('overlayadd overlayremove', syncVisibleHeat);
+
+    clusterGroupRef.current = clusterGroup;
+    fireZonesRef.current = fireZones;
+    spreadLayerRef.current = spreadLayer;
+    zoneLayerRef.current = zoneLayer;
+    dangerLayerRef.current = dangerLayer;
+    heatLayersRef.current = heatLayers;
+
     // Add zoom control to bottom right
     mapInstance.zoomControl.setPosition('bottomright');
 
@@ -95,77 +253,95 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
       mapInstance.invalidateSize();
     }, 100);
 
+    const markers = markersRef.current;
+    const circles = circlesRef.current;
     return () => {
       if (mapInstanceRef.current) {
         mapInstanceRef.current.remove();
         mapInstanceRef.current = null;
       }
+      markers.clear();
+      circles.clear();
     };
   }, []);
 
+  const fitAllSensors = useCallback(() => {
+    const map = mapInstanceRef.current;
+    const positions = [...sensorsByIdRef.current.values()].map(sensor => L.latLng(sensor.latitude, sensor.longitude));
+    if (!map || positions.length === 0) return;
+    map.fitBounds(L.latLngBounds(positions).pad(0.1), { maxZoom: 15 });
+  }, []);
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
+    fitAllSensors,
     zoomToSensor: (sensor: SensorData) => {
       if (mapInstanceRef.current) {
         // 🔥 Increased zoom from 15 → 18
         mapInstanceRef.current.setView([sensor.latitude, sensor.longitude], 18, { animate: true });
         
-        // Find and open the marker's popup
-        const marker = markersRef.current.find(m => {
-          const latLng = m.getLatLng();
-          return latLng.lat === sensor.latitude && latLng.lng === sensor.longitude;
-        });
-        
-        if (marker) {
-          setTimeout(() => marker.openPopup(), 300);
+        // Open the marker's popup once its cluster has been expanded
+        const entry = markersRef.current.get(sensor.id);
+        if (entry && clusterGroupRef.current) {
+          clusterGroupRef.current.zoomToShowLayer(entry.marker, () => entry.marker.openPopup());
         }
       }
     }
   }));
 
-  useEffect(() => {
-    const map = mapInstanceRef.current;
-    if (!map || !mapReady) return;
-
-    // Remove existing markers and circles
-    markersRef.current.forEach(marker => {
-      if (map.hasLayer(marker)) map.removeLayer(marker);
-    });
-    markersRef.current = [];
-
-    circlesRef.current.forEach(circle => {
-      if (map.hasLayer(circle)) map.removeLayer(circle);
+  // Values that change between readings; open popups are refreshed field by field
+  // so the stored-history summary and the reader's scroll position survive a poll
+  const fillPopupFields = useCallback((root: HTMLElement, sensor: SensorData) => {
+    const fmt = formatRef.current;
+    const resolveProfile = getProfileRef.current;
+    if (!fmt || !resolveProfile) return;
+    const level = getSensorLevel(sensor, resolveProfile(sensor.deviceId));
+    const values: Record<string, string> = {
+      name: sensor.name || sensor.deviceId,
+      deviceId: sensor.deviceId,
+      temperature: fmt.temperature(sensor.temp),
+      humidity: `${sensor.humidity}%`,
+      smoke: fmt.smoke(sensor.smoke),
+      status: sensor.isFire ? '🔥 Fire Detected' : STATUS_LABELS[level],
+      danger: sensor.danger ? `${DANGER_LABELS[sensor.danger.level]} (${sensor.danger.score}/100)` : '--',
+      health: sensor.health
+        ? [HEALTH_LABELS[sensor.health.health], ...sensor.health.issues].join(' · ')
+        : HEALTH_LABELS.healthy,
+      updated: fmt.dateTime(sensor.timestamp),
+      anomaly: explainAnomalies(sensor.anomaly, getSettings()).join(' · '),
+      // Registry details, without notes which are too long for a popup
+      registry: getMetadataDetails(sensor.metadata)
+        .filter(detail => detail.label !== 'Notes')
+        .map(detail => `${detail.label}: ${detail.value}`)
+        .join(' · '),
+    };
+    root.querySelectorAll<HTMLElement>('[data-field]').forEach(element => {
+      const value = values[element.dataset.field ?? ''];
+      if (value !== undefined && element.textContent !== value) element.textContent = value;
     });
-    circlesRef.current = [];
+  }, []);
 
-    // Filter sensors to only include those with valid coordinates from API
-    const validSensors = sensors.filter(sensor => 
-      sensor.latitude !== undefined && 
-      sensor.longitude !== undefined &&
-      !isNaN(sensor.latitude) && 
-      !isNaN(sensor.longitude) &&
-      sensor.latitude !== 0 && 
-      sensor.longitude !== 0
-    );
+  // Popup HTML is built when the popup opens, from the latest reading.
+  // Markers outlive renders, so everything they use is read through refs
+  const renderPopup = useCallback((sensorId: string) => {
+    const sensor = sensorsByIdRef.current.get(sensorId);
+    if (!sensor) return '';
 
-    // Only use valid API sensors
-    validSensors.forEach((sensor) => {
-      const isSelected = selectedSensorId === sensor.id;
-      const icon = createSensorIcon(sensor, isSelected);
-
-      const marker = L.marker([sensor.latitude, sensor.longitude], { icon }).addTo(map);
-      
-      const lastUpdate = new Date(sensor.timestamp).toLocaleString();
-      
-      marker.bindPopup(`
+    const root = document.createElement('div');
+    root.innerHTML = `
         <div style="padding:8px; min-width:200px">
-          <h3 style="margin:0 0 8px 0;font-weight:700;color:#166534">${sensor.name || sensor.deviceId}</h3>
-          <div><strong>Device ID:</strong> ${sensor.deviceId}</div>
-          <div><strong>Temperature:</strong> ${sensor.temp}°C</div>
-          <div><strong>Humidity:</strong> ${sensor.humidity}%</div>
-          <div><strong>Smoke:</strong> ${sensor.smoke} ppm</div>
-          <div><strong>Status:</strong> ${sensor.isFire ? '🔥 Fire Detected' : sensor.status}</div>
-          <div><strong>Last Update:</strong> ${lastUpdate}</div>
+          <h3 data-field="name" style="margin:0 0 8px 0;font-weight:700;color:#166534"></h3>
+          <div><strong>Device ID:</strong> <span data-field="deviceId"></span></div>
+          <div><strong>Temperature:</strong> <span data-field="temperature"></span></div>
+          <div><strong>Humidity:</strong> <span data-field="humidity"></span></div>
+          <div><strong>Smoke:</strong> <span data-field="smoke"></span></div>
+          <div><strong>Status:</strong> <span data-field="status"></span></div>
+          <div><strong>Health:</strong> <span data-field="health"></span></div>
+          <div><strong>Fire danger:</strong> <span data-field="danger"></span></div>
+          <div><strong>Last Update:</strong> <span data-field="updated"></span></div>
+          <div data-field="anomaly" style="margin-top:4px;font-size:12px;color:${STATUS_STYLES.anomaly.hex}"></div>
+          <div data-field="registry" style="margin-top:4px;font-size:12px;color:#166534"></div>
+          <div data-history-summary style="margin-top:6px;font-size:12px;color:#4b5563">Loading last hour...</div>
           <div style="margin-top: 8px;">
             <a href="https://www.google.com/maps/dir/?api=1&destination=${sensor.latitude},${sensor.longitude}" 
                target="_blank" 
@@ -174,66 +350,328 @@ const LeafletMap = forwardRef<LeafletMapHandle, LeafletMapProps>(({
             </a>
           </div>
         </div>
-      `);
+      `;
+    fillPopupFields(root, sensor);
+    return root;
+  }, [fillPopupFields]);
+
+  const createMarker = useCallback((sensorId: string, latLng: L.LatLngExpression, options: SensorMarkerOptions) => {
+    const marker = L.marker(latLng, options);
+    marker.bindPopup(() => renderPopup(sensorId));
+
+    // Fill in the last hour from stored history when the popup opens
+    marker.on('popupopen', event => {
+      const summary = event.popup.getElement()?.querySelector<HTMLElement>('[data-history-summary]');
+      const sensor = sensorsByIdRef.current.get(sensorId);
+      const fmt = formatRef.current;
+      if (!summary || !sensor || !fmt) return;
+      const now = Date.now();
+      queryHistory(sensor.deviceId, now - POPUP_HISTORY_MS, now)
+        .then(points => {
+          if (points.length === 0) {
+            summary.textContent = 'No stored history for the last hour';
+            return;
+          }
+          const count = points.reduce((total, point) => total + point.count, 0);
+          const minTemp = Math.min(...points.map(point => point.min.temp));
+          const maxTemp = Math.max(...points.map(point => point.max.temp));
+          const maxSmoke = Math.max(...points.map(point => point.max.smoke));
+          summary.innerHTML = `<strong>Last hour:</strong> ${fmt.temperature(minTemp)} - ${fmt.temperature(maxTemp)},
+            peak smoke ${fmt.smoke(maxSmoke)} (${count} readings)`;
+        })
+        .catch(() => {
+          summary.textContent = 'History unavailable';
+        });
+    });
 
-      // Add click event
-      marker.on('click', () => {
-        onSensorClick?.(sensor);
-      });
+    marker.on('click', () => {
+      const sensor = sensorsByIdRef.current.get(sensorId);
+      if (sensor) onSensorClickRef.current?.(sensor);
+    });
 
-      markersRef.current.push(marker);
+    return marker;
+  }, [renderPopup]);
 
-      // Add red zone circle for sensors with fire alerts
-      if (sensor.isFire) {
-        const circle = L.circle([sensor.latitude, sensor.longitude], {
-          color: 'red',
-          fillColor: '#f03',
-          fillOpacity: 0.2,
-          radius: 500 // 500 meter radius around the sensor
-        }).addTo(map);
-        
-        circlesRef.current.push(circle);
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    const clusterGroup = clusterGroupRef.current;
+    const fireZones = fireZonesRef.current;
+    if (!map || !mapReady || !clusterGroup || !fireZones) return;
+
+    // Filter sensors to only include those with valid coordinates from API
+    const validSensors = sensors.filter(hasValidCoordinates);
+    sensorsByIdRef.current = new Map(validSensors.map(sensor => [sensor.id, sensor]));
+
+    // Diff by sensor id: update markers in place, add new ones, drop the ones that went away
+    const markers = markersRef.current;
+    const added: L.Marker[] = [];
+    let iconsChanged = false;
+
+    validSensors.forEach((sensor) => {
+      const isSelected = selectedSensorId === sensor.id;
+      const level = getSensorLevel(sensor, getProfile(sensor.deviceId));
+      const iconKey = `${level}|${sensor.isFire}|${isSelected}|${sensor.health?.health ?? 'healthy'}`;
+      const latLng = L.latLng(sensor.latitude, sensor.longitude);
+      const existing = markers.get(sensor.id);
+
+      if (!existing) {
+        const marker = createMarker(sensor.id, latLng, {
+          icon: createSensorIcon(sensor, level, isSelected),
+          statusLevel: level,
+        });
+        markers.set(sensor.id, { marker, iconKey });
+        added.push(marker);
+      } else {
+        if (!existing.marker.getLatLng().equals(latLng)) {
+          existing.marker.setLatLng(latLng);
+        }
+        // Refresh an open popup in place rather than rebuilding it
+        const popupElement = existing.marker.isPopupOpen() ? existing.marker.getPopup()?.getElement() : undefined;
+        if (popupElement) fillPopupFields(popupElement, sensor);
+        if (existing.iconKey !== iconKey) {
+          (existing.marker.options as SensorMarkerOptions).statusLevel = level;
+          existing.marker.setIcon(createSensorIcon(sensor, level, isSelected));
+          existing.iconKey = iconKey;
+          iconsChanged = true;
+        }
       }
 
-      if (isSelected) {
-        // Focus on selected sensor
-        map.setView([sensor.latitude, sensor.longitude], 12, { animate: true });
-        setTimeout(() => marker.openPopup(), 300);
+      // Red zone around sensors with fire alerts, sized by how severe the readings are
+      const circle = circlesRef.current.get(sensor.id);
+      const radius = sensor.isFire ? getFireRadiusMeters(getFireSeverity(sensor, getProfile(sensor.deviceId))) : 0;
+      if (sensor.isFire && !circle) {
+        circlesRef.current.set(
+          sensor.id,
+          L.circle(latLng, {
+            color: 'red',
+            fillColor: '#f03',
+            fillOpacity: 0.2,
+            radius,
+          }).addTo(fireZones)
+        );
+      } else if (sensor.isFire && circle) {
+        circle.setLatLng(latLng);
+        if (circle.getRadius() !== radius) circle.setRadius(radius);
+      } else if (!sensor.isFire && circle) {
+        fireZones.removeLayer(circle);
+        circlesRef.current.delete(sensor.id);
       }
     });
 
-    // If we have valid sensors, adjust the map view to show them
-    if (validSensors.length > 0) {
-      const group = L.featureGroup([...markersRef.current, ...circlesRef.current]);
-      map.fitBounds(group.getBounds().pad(0.1));
+    const removed: L.Marker[] = [];
+    markers.forEach((entry, sensorId) => {
+      if (sensorsByIdRef.current.has(sensorId)) return;
+      removed.push(entry.marker);
+      markers.delete(sensorId);
+    });
+    circlesRef.current.forEach((circle, sensorId) => {
+      if (sensorsByIdRef.current.has(sensorId)) return;
+      fireZones.removeLayer(circle);
+      circlesRef.current.delete(sensorId);
+    });
+
+    if (removed.length > 0) clusterGroup.removeLayers(removed);
+    if (added.length > 0) clusterGroup.addLayers(added);
+    // Cluster colours depend on member status, so redraw them when a status changes
+    if (iconsChanged) clusterGroup.refreshClusters();
+
+    // Interpolated risk for each heat layer, against each sensor's own threshold profile
+    HEAT_METRICS.forEach(metric => {
+      heatLayersRef.current[metric]?.setSamples(
+        validSensors.map(sensor => ({
+          lat: sensor.latitude,
+          lng: sensor.longitude,
+          value: getMetricRisk(metric, sensor, getProfile(sensor.deviceId)),
+        }))
+      );
+    });
+
+    // Only a change of selection moves the map; refreshes leave the operator's view alone
+    const selectedEntry = selectedSensorId ? markers.get(selectedSensorId) : undefined;
+    if (selectedSensorId !== lastSelectedRef.current && (!selectedSensorId || selectedEntry)) {
+      lastSelectedRef.current = selectedSensorId;
+      if (selectedEntry) {
+        hasFittedRef.current = true;
+        clusterGroup.zoomToShowLayer(selectedEntry.marker, () => selectedEntry.marker.openPopup());
+      }
     }
 
-    // Ensure map is properly rendered
-    setTimeout(() => {
-      map.invalidateSize();
-    }, 50);
+    // Fit every sensor once, on the first data; after that only the Fit control does
+    if (!hasFittedRef.current && validSensors.length > 0) {
+      hasFittedRef.current = true;
+      fitAllSensors();
+      // Ensure map is properly rendered
+      setTimeout(() => {
+        map.invalidateSize();
+      }, 50);
+    }
+
+  }, [sensors, selectedSensorId, mapReady, getProfile, createMarker, fillPopupFields, fitAllSensors]);
+
+  // One disc per sensor in its danger colour, redrawn with every reading
+  useEffect(() => {
+    const dangerLayer = dangerLayerRef.current;
+    if (!dangerLayer || !mapReady) return;
+    dangerLayer.clearLayers();
+
+    sensors.filter(hasValidCoordinates).forEach(sensor => {
+      if (!sensor.danger) return;
+      const color = DANGER_STYLES[sensor.danger.level].hex;
+      L.circleMarker([sensor.latitude, sensor.longitude], {
+        radius: 14 + sensor.danger.score / 10,
+        color,
+        weight: 2,
+        fillColor: color,
+        fillOpacity: 0.35,
+      })
+        .bindTooltip(
+          textElement(`${sensor.name || sensor.deviceId}: ${DANGER_LABELS[sensor.danger.level]} fire danger (${sensor.danger.score})`)
+        )
+        .addTo(dangerLayer);
+    });
+  }, [sensors, mapReady]);
 
-  }, [sensors, selectedSensorId, mapReady, onSensorClick]);
+  // Few polygons per fire, so they are simply redrawn when the prediction changes
+  useEffect(() => {
+    const spreadLayer = spreadLayerRef.current;
+    if (!spreadLayer || !mapReady) return;
+    spreadLayer.clearLayers();
+
+    (predictions ?? []).forEach(prediction => {
+      [...prediction.horizons]
+        .sort((a, b) => b.minutes - a.minutes)
+        .forEach(horizon => {
+          const style = SPREAD_STYLES[horizon.minutes] ?? SPREAD_STYLES[60];
+          L.polygon(horizon.polygon, {
+            color: style.color,
+            weight: 1.5,
+            dashArray: '6 4',
+            fillColor: style.color,
+            fillOpacity: style.fillOpacity,
+            interactive: true,
+          })
+            .bindTooltip(textElement(`Sensor ${prediction.deviceId}: projected perimeter at +${horizon.minutes} min`), { sticky: true })
+            .addTo(spreadLayer);
+        });
+    });
+  }, [predictions, mapReady]);
+
+  // Zone outlines take the worst status among the sensors inside them
+  useEffect(() => {
+    const zoneLayer = zoneLayerRef.current;
+    if (!zoneLayer || !mapReady) return;
+    zoneLayer.clearLayers();
+    if (zones.length === 0) return;
+
+    const summaries = summarizeZones(
+      zones,
+      sensors.filter(hasValidCoordinates),
+      getAssignment,
+      sensor => getSensorLevel(sensor, getProfile(sensor.deviceId))
+    );
+
+    [...summaries]
+      .sort((a, b) => ZONE_LEVELS.indexOf(a.zone.level) - ZONE_LEVELS.indexOf(b.zone.level))
+      .forEach(summary => {
+        const color = summary.sensorCount > 0 ? STATUS_STYLES[summary.status].hex : '#64748b';
+        const parts = [`${summary.sensorCount} sensor${summary.sensorCount === 1 ? '' : 's'}`];
+        if (summary.fireCount > 0) parts.push(`${summary.fireCount} fire${summary.fireCount === 1 ? '' : 's'}`);
+        if (summary.warningCount > 0) parts.push(`${summary.warningCount} warning`);
+
+        L.polygon(toLatLngPolygons(summary.zone), {
+          color,
+          weight: summary.zone.level === 'beat' ? 1 : 2,
+          fillColor: color,
+          fillOpacity: ZONE_FILL_OPACITY[ZONE_LEVELS.indexOf(summary.zone.level)],
+        })
+          .bindTooltip(textElement(`${formatZoneName(summary.zone)}: ${parts.join(', ')}`), { sticky: true })
+          .on('click', () => onZoneClickRef.current?.(summary.zone.id))
+          .addTo(zoneLayer);
+      });
+  }, [zones, sensors, mapReady, getAssignment, getProfile]);
 
   return (
     <div className={`${className} relative`}>
       <div ref={mapRef} className="absolute inset-0 rounded-lg" />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={fitAllSensors}
+        className="absolute bottom-4 left-4 z-[1000] glass-card border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
+      >
+        <Maximize2 className="w-4 h-4 mr-1" />
+        Fit all sensors
+      </Button>
       <div className="absolute top-4 left-4 glass-card p-2">
         <h3 className="font-semibold text-forest-primary text-sm">Forest Sensor Network</h3>
         <p className="text-xs text-muted-foreground">
-          {sensors.filter(sensor => 
-            sensor.latitude !== undefined && 
-            sensor.longitude !== undefined &&
-            !isNaN(sensor.latitude) && 
-            !isNaN(sensor.longitude) &&
-            sensor.latitude !== 0 && 
-            sensor.longitude !== 0
-          ).length} sensors deployed
+          {sensors.filter(hasValidCoordinates).length} sensors deployed
         </p>
         <div className="flex items-center mt-1">
           <div className="w-3 h-3 rounded-full bg-red-500 mr-1"></div>
           <span className="text-xs">Fire Alert Zone</span>
         </div>
+        {sensors.some(hasAnomaly) && (
+          <div className="flex items-center mt-1">
+            <div className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: STATUS_STYLES.anomaly.hex }} />
+            <span className="text-xs">
+              {STATUS_LABELS.anomaly} ({sensors.filter(hasAnomaly).length})
+            </span>
+          </div>
+        )}
+        {sensors.some(sensor => sensor.health && sensor.health.health !== 'healthy') && (
+          <div className="flex items-center gap-2 mt-1">
+            {(['stale', 'faulty', 'offline'] as const).map(health => (
+              <div key={health} className="flex items-center">
+                <div className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: HEALTH_STYLES[health].hex }} />
+                <span className="text-xs">
+                  {HEALTH_LABELS[health]} ({sensors.filter(sensor => sensor.health?.health === health).length})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {predictions && predictions.length > 0 && (
+          <div className="flex items-center gap-2 mt-1">
+            {[15, 30, 60].map(minutes => (
+              <div key={minutes} className="flex items-center">
+                <div
+                  className="w-3 h-3 rounded-sm mr-1 border border-dashed"
+                  style={{ backgroundColor: `${SPREAD_STYLES[minutes].color}55`, borderColor: SPREAD_STYLES[minutes].color }}
+                />
+                <span className="text-xs">+{minutes}m</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {showDanger && (
+          <div className="mt-2">
+            <p className="text-xs font-medium">Fire danger</p>
+            <div className="flex flex-wrap items-center gap-2 mt-1 max-w-48">
+              {FIRE_DANGER_LEVELS.map(level => (
+                <div key={level} className="flex items-center">
+                  <div className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: DANGER_STYLES[level].hex }} />
+                  <span className="text-xs">{DANGER_LABELS[level]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {visibleHeat.length > 0 && (
+          <div className="mt-2">
+            <p className="text-xs font-medium">{visibleHeat.map(metric => HEAT_METRIC_LABELS[metric]).join(', ')}</p>
+            <div
+              className="h-2 w-40 rounded mt-1"
+              style={{ background: `linear-gradient(to right, ${STATUS_STYLES.normal.hex}, ${STATUS_STYLES.warning.hex}, ${STATUS_STYLES.fire.hex})` }}
+            />
+            <div className="flex justify-between w-40 text-[10px] text-muted-foreground">
+              <span>Normal</span>
+              <span>Warning</span>
+              <span>Critical</span>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,258 @@
+// src/components/SensorComparisonChart.tsx
+import React, { useMemo, useState } from 'react';
+import {
+  Brush,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { convertSmoke, convertTemperature } from '@/lib/format';
+import { STATUS_STYLES } from '@/lib/thresholds';
+import { HistoryMetrics, HistoryPoint } from '@/types/history';
+import { ThresholdProfile } from '@/types/thresholds';
+
+export interface ComparisonSeries {
+  deviceId: string;
+  name: string;
+  color: string;
+  points: HistoryPoint[];
+}
+
+// One row per time bucket; values by device id, missing where a sensor had no reading
+interface ChartRow {
+  time: number;
+  values: Record<string, number>;
+}
+
+// Enough buckets for a smooth line without thousands of SVG points per sensor
+const TARGET_BUCKETS = 240;
+
+// Averages every series into shared time buckets so the lines line up in one chart
+const mergeSeries = (series: ComparisonSeries[], metric: keyof HistoryMetrics, bucketMs: number) => {
+  const rows = new Map<number, { time: number; sums: Record<string, [number, number]> }>();
+  series.forEach(({ deviceId, points }) => {
+    points.forEach(point => {
+      const time = Math.floor(point.time / bucketMs) * bucketMs;
+      const row = rows.get(time) ?? { time, sums: {} };
+      const [sum, count] = row.sums[deviceId] ?? [0, 0];
+      row.sums[deviceId] = [sum + point[metric] * point.count, count + point.count];
+      rows.set(time, row);
+    });
+  });
+  return [...rows.values()]
+    .sort((a, b) => a.time - b.time)
+    .map<ChartRow>(({ time, sums }) => ({
+      time,
+      values: Object.fromEntries(Object.entries(sums).map(([deviceId, [sum, count]]) => [deviceId, sum / count])),
+    }));
+};
+
+// Times where a sensor's fire flag switched on or off within the window
+const getFireToggles = (series: ComparisonSeries[]) =>
+  series.flatMap(({ deviceId, color, points }) =>
+    points.slice(1).flatMap((point, index) =>
+      point.isFire !== points[index].isFire ? [{ deviceId, color, time: point.time, started: point.isFire }] : []
+    )
+  );
+
+interface ThresholdBands {
+  warning: [number | undefined, number | undefined];
+  critical: [number | undefined, number | undefined];
+  // The edge the warning line is drawn at
+  warningLine: number;
+}
+
+interface SensorComparisonChartProps {
+  series: ComparisonSeries[];
+  windowMs: number;
+  // Profile the threshold bands are drawn from, usually the primary sensor's
+  profile?: ThresholdProfile;
+}
+
+// Temperature, humidity and smoke stacked with a shared cursor: hovering one chart
+// shows the same moment in the other two. Dragging the brush under the last chart
+// zooms all three; the zoom is kept in time so it holds while new readings stream in.
+const SensorComparisonChart: React.FC<SensorComparisonChartProps> = ({ series, windowMs, profile }) => {
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const [zoom, setZoom] = useState<[number, number] | null>(null);
+  const bucketMs = Math.max(1000, Math.round(windowMs / TARGET_BUCKETS));
+
+  const charts = useMemo(() => {
+    const toTemp = (value: number) => convertTemperature(value, settings);
+    const toSmoke = (value: number) => convertSmoke(value, settings);
+    // Temperature and smoke get worse upwards, humidity downwards
+    const bands = (
+      warning: number,
+      critical: number,
+      convert: (value: number) => number,
+      rising: boolean
+    ): ThresholdBands =>
+      rising
+        ? {
+            warning: [convert(warning), convert(critical)],
+            critical: [convert(critical), undefined],
+            warningLine: convert(warning),
+          }
+        : {
+            warning: [convert(critical), convert(warning)],
+            critical: [undefined, convert(critical)],
+            warningLine: convert(warning),
+          };
+
+    return [
+      {
+        metric: 'temp' as const,
+        title: `Temperature (${format.temperatureUnit})`,
+        convert: toTemp,
+        bands: profile && bands(profile.tempWarning, profile.tempCritical, toTemp, true),
+      },
+      {
+        metric: 'humidity' as const,
+        title: 'Humidity (%)',
+        convert: (value: number) => value,
+        bands: profile && bands(profile.humidityWarning, profile.humidityCritical, value => value, false),
+      },
+      {
+        metric: 'smoke' as const,
+        title: `Smoke (${format.smokeUnit})`,
+        convert: toSmoke,
+        bands: profile && bands(profile.smokeWarning, profile.smokeCritical, toSmoke, true),
+      },
+    ].map(chart => ({ ...chart, rows: mergeSeries(series, chart.metric, bucketMs) }));
+  }, [series, bucketMs, settings, format, profile]);
+
+  const fireToggles = useMemo(() => getFireToggles(series), [series]);
+
+  if (series.every(({ points }) => points.length === 0)) {
+    return <p className="text-sm text-muted-foreground">No recorded readings in this window yet.</p>;
+  }
+
+  // Every chart buckets the same points, so they share one time axis
+  const times = charts[0].rows.map(row => row.time);
+  const lastIndex = times.length - 1;
+  const startIndex = zoom ? Math.max(0, times.findIndex(time => time >= zoom[0])) : 0;
+  const endIndex = zoom ? times.reduce((last, time, index) => (time <= zoom[1] ? index : last), startIndex) : lastIndex;
+  const domain: [number, number] | ['dataMin', 'dataMax'] = zoom ? [times[startIndex], times[endIndex]] : ['dataMin', 'dataMax'];
+
+  const handleBrushChange = ({ startIndex: start, endIndex: end }: { startIndex?: number; endIndex?: number }) => {
+    if (start === undefined || end === undefined) return;
+    setZoom(start <= 0 && end >= lastIndex ? null : [times[start], times[end]]);
+  };
+
+  return (
+    <div className="space-y-6">
+      {zoom && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Zoomed to {format.dateTime(domain[0])} – {format.time(domain[1])}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => setZoom(null)}>
+            Reset zoom
+          </Button>
+        </div>
+      )}
+      {charts.map(({ metric, title, convert, rows, bands }, chartIndex) => {
+        const hasBrush = chartIndex === charts.length - 1;
+        return (
+          <div key={metric}>
+            <p className="text-sm font-medium mb-2">{title}</p>
+            <div className={hasBrush ? 'h-64' : 'h-48'}>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows} syncId="sensor-comparison" syncMethod="value">
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={domain}
+                    allowDataOverflow
+                    tickFormatter={time => format.time(time)}
+                  />
+                  <YAxis width={48} tickFormatter={value => String(Number(value.toFixed(1)))} />
+                  <Tooltip
+                    labelFormatter={time => format.dateTime(time)}
+                    formatter={(value: number) => Number(value.toFixed(1))}
+                  />
+                  <Legend />
+                  {bands && (
+                    <>
+                      <ReferenceArea
+                        y1={bands.warning[0]}
+                        y2={bands.warning[1]}
+                        fill={STATUS_STYLES.warning.hex}
+                        fillOpacity={0.08}
+                        ifOverflow="hidden"
+                      />
+                      <ReferenceArea
+                        y1={bands.critical[0]}
+                        y2={bands.critical[1]}
+                        fill={STATUS_STYLES.fire.hex}
+                        fillOpacity={0.08}
+                        ifOverflow="hidden"
+                      />
+                      <ReferenceLine
+                        y={bands.warningLine}
+                        stroke={STATUS_STYLES.warning.hex}
+                        strokeDasharray="4 4"
+                        ifOverflow="extendDomain"
+                      />
+                    </>
+                  )}
+                  {fireToggles.map(toggle => (
+                    <ReferenceLine
+                      key={`${toggle.deviceId}-${toggle.time}`}
+                      x={toggle.time}
+                      stroke={toggle.color}
+                      strokeDasharray="2 2"
+                      ifOverflow="hidden"
+                      label={chartIndex === 0 ? { value: toggle.started ? '🔥' : '✓', position: 'top' } : undefined}
+                    />
+                  ))}
+                  {series.map(({ deviceId, name, color }) => (
+                    <Line
+                      key={deviceId}
+                      type="monotone"
+                      dataKey={(row: ChartRow) =>
+                        row.values[deviceId] === undefined ? null : convert(row.values[deviceId])
+                      }
+                      name={name}
+                      stroke={color}
+                      dot={false}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {hasBrush && rows.length > 1 && (
+                    <Brush
+                      dataKey="time"
+                      height={24}
+                      startIndex={startIndex}
+                      endIndex={endIndex}
+                      tickFormatter={time => format.time(time)}
+                      onChange={handleBrushChange}
+                    />
+                  )}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        );
+      })}
+      {fireToggles.length > 0 && (
+        <p className="text-xs text-muted-foreground">🔥 fire reported · ✓ fire cleared</p>
+      )}
+    </div>
+  );
+};
+
+export default SensorComparisonChart;
@@ -1,8 +1,16 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { SensorData } from '@/types/sensor';
-import { MapPin, Thermometer, Droplets, Flame } from 'lucide-react';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { useZones } from '@/hooks/use-zones';
+import { getSensorLevel, STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { formatZoneName, getMostSpecificZone, isInZone, ZONE_LEVELS } from '@/lib/zones';
+import { HEALTH_LABELS, HEALTH_STYLES } from '@/lib/sensorHealth';
+import { explainAnomalies } from '@/lib/anomalyDetection';
+import { MapPin, Thermometer, Droplets, Flame, AlertCircle, Map as MapIcon, HeartPulse, Activity } from 'lucide-react';
 
 interface SensorListProps {
   sensors: SensorData[];
@@ -10,31 +18,58 @@ interface SensorListProps {
 }
 
 const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
-  const getStatusColor = (sensor: SensorData) => {
-    if (sensor.isFire) return 'bg-forest-danger text-white';
-    if ((sensor.temp ?? 0) > 35 || (sensor.smoke ?? 0) > 50) {
-      return 'bg-forest-warning text-white';
-    }
-    return 'bg-forest-success text-white';
-  };
+  const { getProfile } = useThresholds();
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const { zones, getAssignment } = useZones();
+  const [zoneFilter, setZoneFilter] = useState('all');
 
-  const getStatusText = (sensor: SensorData) => {
-    if (sensor.isFire) return 'FIRE DETECTED';
-    if ((sensor.temp ?? 0) > 35 || (sensor.smoke ?? 0) > 50) return 'WARNING';
-    return 'NORMAL';
-  };
+  const getLevel = (sensor: SensorData) => getSensorLevel(sensor, getProfile(sensor.deviceId));
+
+  // Largest zones first so ranges sit under their division in the menu
+  const zoneOptions = useMemo(
+    () =>
+      [...zones].sort(
+        (a, b) => ZONE_LEVELS.indexOf(a.level) - ZONE_LEVELS.indexOf(b.level) || a.name.localeCompare(b.name)
+      ),
+    [zones]
+  );
+
+  // A zone that was removed by a new import falls back to showing everything
+  const activeZoneFilter = zones.some(zone => zone.id === zoneFilter) ? zoneFilter : 'all';
+  const visibleSensors =
+    activeZoneFilter === 'all'
+      ? sensors
+      : sensors.filter(sensor => isInZone(getAssignment(sensor), activeZoneFilter));
 
   return (
     <Card className="glass-card border-forest-accent/30">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
         <CardTitle className="text-forest-primary">Active Sensors</CardTitle>
+        {zones.length > 0 && (
+          <Select value={activeZoneFilter} onValueChange={setZoneFilter}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All zones</SelectItem>
+              {zoneOptions.map(zone => (
+                <SelectItem key={zone.id} value={zone.id}>{formatZoneName(zone)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </CardHeader>
       <CardContent>
         <div className="space-y-3 max-h-96 overflow-y-auto">
-          {sensors.length === 0 ? (
-            <p className="text-muted-foreground text-sm">No sensors available</p>
+          {visibleSensors.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              {sensors.length === 0 ? 'No sensors available' : 'No sensors in this zone'}
+            </p>
           ) : (
-            sensors.map((sensor) => (
+            visibleSensors.map((sensor) => {
+              const zone = getMostSpecificZone(getAssignment(sensor));
+              return (
               <div
                 key={sensor.id}
                 onClick={() => onSensorClick(sensor)}
@@ -47,16 +82,23 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
                   <h4 className="font-medium text-forest-primary">
                     {sensor.name || `Sensor ${sensor.deviceId}`}
                   </h4>
-                  <Badge className={getStatusColor(sensor)}>
-                    {getStatusText(sensor)}
-                  </Badge>
+                  <div className="flex items-center gap-1">
+                    {sensor.health && sensor.health.health !== 'healthy' && (
+                      <Badge className={HEALTH_STYLES[sensor.health.health].badge}>
+                        {HEALTH_LABELS[sensor.health.health]}
+                      </Badge>
+                    )}
+                    <Badge className={STATUS_STYLES[getLevel(sensor)].badge}>
+                      {STATUS_LABELS[getLevel(sensor)]}
+                    </Badge>
+                  </div>
                 </div>
 
                 {/* Sensor Data Grid */}
                 <div className="grid grid-cols-2 gap-2 text-sm text-muted-foreground">
                   <div className="flex items-center gap-1">
                     <Thermometer className="w-3 h-3" />
-                    <span>{sensor.temp ?? '--'}°C</span>
+                    <span>{format.temperature(sensor.temp)}</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <Droplets className="w-3 h-3" />
@@ -64,7 +106,7 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
                   </div>
                   <div className="flex items-center gap-1">
                     <Flame className="w-3 h-3" />
-                    <span>Smoke: {sensor.smoke ?? '--'}</span>
+                    <span>Smoke: {format.smoke(sensor.smoke)}</span>
                   </div>
                   <div className="flex items-center gap-1">
                     <MapPin className="w-3 h-3" />
@@ -77,12 +119,53 @@ const SensorList: React.FC<SensorListProps> = ({ sensors, onSensorClick }) => {
                 {/* Last update */}
                 <div className="mt-2 text-xs text-muted-foreground">
                   Last update:{' '}
-                  {sensor.timestamp
-                    ? new Date(sensor.timestamp).toLocaleString()
-                    : 'N/A'}
+                  {sensor.timestamp ? format.dateTime(sensor.timestamp) : 'N/A'}
                 </div>
+
+                {/* Why the sensor is not healthy */}
+                {sensor.health && sensor.health.issues.length > 0 && (
+                  <div
+                    className={`mt-1 flex items-center gap-1 text-xs ${HEALTH_STYLES[sensor.health.health].text}`}
+                    title={sensor.health.issues.join('\n')}
+                  >
+                    <HeartPulse className="w-3 h-3" />
+                    <span>
+                      {sensor.health.issues[0]}
+                      {sensor.health.issues.length > 1 && ` (+${sensor.health.issues.length - 1} more)`}
+                    </span>
+                  </div>
+                )}
+
+                {/* What the anomaly detector found unusual */}
+                {explainAnomalies(sensor.anomaly, settings).map(explanation => (
+                  <div key={explanation} className={`mt-1 flex items-center gap-1 text-xs ${STATUS_STYLES.anomaly.text}`}>
+                    <Activity className="w-3 h-3" />
+                    <span>{explanation}</span>
+                  </div>
+                ))}
+
+                {zone && (
+                  <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                    <MapIcon className="w-3 h-3" />
+                    <span>{formatZoneName(zone)}</span>
+                  </div>
+                )}
+
+                {/* Data quality problems reported by normalization */}
+                {sensor.validationIssues && sensor.validationIssues.length > 0 && (
+                  <div
+                    className="mt-1 flex items-center gap-1 text-xs text-forest-warning"
+                    title={sensor.validationIssues.join('\n')}
+                  >
+                    <AlertCircle className="w-3 h-3" />
+                    <span>
+                      {sensor.validationIssues.length} data issue{sensor.validationIssues.length > 1 ? 's' : ''}
+                    </span>
+                  </div>
+                )}
               </div>
-            ))
+              );
+            })
           )}
         </div>
       </CardContent>
@@ -0,0 +1,136 @@
+// src/components/SensorMetadataDialog.tsx
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Save } from 'lucide-react';
+import { sensorMetadataSchema } from '@/lib/sensorRegistry';
+import { SensorMetadata } from '@/types/registry';
+
+// Every field is edited as text; the schema converts and validates on save
+interface MetadataFormValues {
+  deviceId: string;
+  name: string;
+  installDate: string;
+  mountingHeightM: string;
+  ranger: string;
+  hardwareRevision: string;
+  notes: string;
+}
+
+const TEXT_FIELDS: { name: keyof MetadataFormValues; label: string; type?: string; placeholder?: string }[] = [
+  { name: 'name', label: 'Name', placeholder: 'e.g. Kedarnath ridge north' },
+  { name: 'installDate', label: 'Install date', type: 'date' },
+  { name: 'mountingHeightM', label: 'Mounting height (m)', type: 'number' },
+  { name: 'ranger', label: 'Responsible ranger' },
+  { name: 'hardwareRevision', label: 'Hardware revision', placeholder: 'e.g. rev C' },
+];
+
+const toFormValues = (deviceId: string, metadata?: SensorMetadata): MetadataFormValues => ({
+  deviceId,
+  name: metadata?.name ?? '',
+  installDate: metadata?.installDate ?? '',
+  mountingHeightM: metadata?.mountingHeightM !== undefined ? String(metadata.mountingHeightM) : '',
+  ranger: metadata?.ranger ?? '',
+  hardwareRevision: metadata?.hardwareRevision ?? '',
+  notes: metadata?.notes ?? '',
+});
+
+interface SensorMetadataDialogProps {
+  // null closes the dialog; an empty deviceId registers a new sensor
+  deviceId: string | null;
+  metadata?: SensorMetadata;
+  onSave: (values: MetadataFormValues) => void;
+  onClose: () => void;
+}
+
+const SensorMetadataDialog: React.FC<SensorMetadataDialogProps> = ({ deviceId, metadata, onSave, onClose }) => {
+  const isNew = deviceId === '';
+
+  const form = useForm<MetadataFormValues>({
+    resolver: zodResolver(sensorMetadataSchema),
+    defaultValues: toFormValues(deviceId ?? '', metadata),
+  });
+
+  useEffect(() => {
+    if (deviceId !== null) form.reset(toFormValues(deviceId, metadata));
+  }, [deviceId, metadata, form]);
+
+  return (
+    <Dialog open={deviceId !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="glass-card max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-forest-primary">
+            {isNew ? 'Register sensor' : `Sensor ${deviceId}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {isNew && (
+                <FormField
+                  control={form.control}
+                  name="deviceId"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Device ID</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {TEXT_FIELDS.map(({ name, label, type, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} type={type} step={type === 'number' ? 'any' : undefined} placeholder={placeholder} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={3} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SensorMetadataDialog;
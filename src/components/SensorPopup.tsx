@@ -6,7 +6,12 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import FireDangerIndicator from '@/components/FireDangerIndicator';
 import { SensorData } from '@/types/sensor';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useFormatters } from '@/hooks/use-settings';
+import { getStatusLevel, STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { getMetadataDetails } from '@/lib/sensorRegistry';
 import { MapPin, Activity } from 'lucide-react';
 
 interface SensorPopupProps {
@@ -14,7 +19,7 @@ interface SensorPopupProps {
   isOpen: boolean;
   onClose: () => void;
   onViewInMap: (sensorId: string) => void;
-  onLiveTracking: (sensorId: string) => void;
+  onLiveTracking: (deviceId: string) => void;
 }
 
 const SensorPopup: React.FC<SensorPopupProps> = ({
@@ -24,8 +29,15 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
   onViewInMap,
   onLiveTracking
 }) => {
+  const { getProfile } = useThresholds();
+  const format = useFormatters();
+
   if (!sensor) return null;
 
+  const profile = getProfile(sensor.deviceId);
+  const level = getStatusLevel(sensor, profile);
+  const details = getMetadataDetails(sensor.metadata);
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="glass-card border-forest-accent">
@@ -39,7 +51,7 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">Temperature</p>
-              <p className="text-lg font-semibold text-forest-primary">{sensor.temp}°C</p>
+              <p className="text-lg font-semibold text-forest-primary">{format.temperature(sensor.temp)}</p>
             </div>
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">Humidity</p>
@@ -47,15 +59,14 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
             </div>
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">Smoke Level</p>
-              <p className="text-lg font-semibold text-forest-primary">{sensor.smoke}</p>
+              <p className="text-lg font-semibold text-forest-primary">{format.smoke(sensor.smoke)}</p>
             </div>
             <div className="space-y-2">
               <p className="text-sm font-medium text-muted-foreground">Status</p>
-              <p className={`text-lg font-semibold ${
-                sensor.isFire ? 'text-forest-danger' : 'text-forest-success'
-              }`}>
-                {sensor.isFire ? '🔥 Fire Detected' : '✅ Normal'}
+              <p className={`text-lg font-semibold ${STATUS_STYLES[level].text}`}>
+                {level === 'fire' ? '🔥 Fire Detected' : level === 'warning' ? `⚠️ ${STATUS_LABELS.warning}` : '✅ Normal'}
               </p>
+              <p className="text-xs text-muted-foreground">Profile: {profile.name}</p>
             </div>
           </div>
           
@@ -69,9 +80,23 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
           <div className="space-y-2">
             <p className="text-sm font-medium text-muted-foreground">Last Update</p>
             <p className="text-sm text-forest-primary">
-              {new Date(sensor.timestamp).toLocaleString()}
+              {format.dateTime(sensor.timestamp)}
             </p>
           </div>
+
+          {sensor.danger && <FireDangerIndicator danger={sensor.danger} compact />}
+
+          {/* Operator-entered details from the sensor registry */}
+          {details.length > 0 && (
+            <div className="grid grid-cols-2 gap-2 rounded-lg border border-forest-accent/30 p-3 text-sm">
+              {details.map(detail => (
+                <div key={detail.label} className={detail.label === 'Notes' ? 'col-span-2' : ''}>
+                  <p className="text-xs text-muted-foreground">{detail.label}</p>
+                  <p className="text-forest-primary whitespace-pre-wrap">{detail.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
           
           <div className="flex gap-3 pt-4">
             <Button 
@@ -83,7 +108,7 @@ const SensorPopup: React.FC<SensorPopupProps> = ({
               View in Map
             </Button>
             <Button 
-              onClick={() => onLiveTracking(sensor.id)}
+              onClick={() => onLiveTracking(sensor.deviceId)}
               className="flex-1 bg-forest-primary text-white hover:bg-forest-primary/90"
             >
               <Activity className="w-4 h-4 mr-2" />
@@ -1,14 +1,22 @@
 // src/components/SensorStats.tsx
 import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { SensorStats as SensorStatsType } from '@/types/sensor';
-import { Thermometer, Droplets, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ZoneSummary } from '@/types/zones';
+import { formatZoneName } from '@/lib/zones';
+import { STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { HEALTH_LABELS, HEALTH_STYLES, SENSOR_HEALTH_STATES } from '@/lib/sensorHealth';
+import { Thermometer, Droplets, AlertTriangle, CheckCircle, Map as MapIcon, HeartPulse } from 'lucide-react';
 
 interface SensorStatsProps {
   stats: SensorStatsType;
+  // Optional breakdown by forest zone, worst first
+  zones?: ZoneSummary[];
+  onZoneClick?: (zoneId: string) => void;
 }
 
-const SensorStats: React.FC<SensorStatsProps> = ({ stats }) => {
+const SensorStats: React.FC<SensorStatsProps> = ({ stats, zones, onZoneClick }) => {
   // Ensure defaults so UI doesn't break if stats is undefined/null
   const safeStats: SensorStatsType = {
     totalSensors: stats?.totalSensors ?? 0,
@@ -48,7 +56,12 @@ const SensorStats: React.FC<SensorStatsProps> = ({ stats }) => {
     },
   ];
 
+  const zoneRows = (zones ?? [])
+    .filter(summary => summary.sensorCount > 0)
+    .sort((a, b) => b.fireCount - a.fireCount || b.warningCount - a.warningCount || a.zone.name.localeCompare(b.zone.name));
+
   return (
+    <>
     <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
       {statItems.map((item, index) => (
         <Card key={index} className="glass-card border-forest-accent/30">
@@ -66,6 +79,52 @@ const SensorStats: React.FC<SensorStatsProps> = ({ stats }) => {
         </Card>
       ))}
     </div>
+
+    {/* Device health is reported apart from fire status */}
+    {stats?.health && (
+      <div className="mb-6 flex flex-wrap items-center gap-2 text-sm">
+        <span className="flex items-center gap-1 font-medium text-muted-foreground">
+          <HeartPulse className="w-4 h-4" />
+          Sensor health
+        </span>
+        {SENSOR_HEALTH_STATES.map(state => (
+          <Badge key={state} className={stats.health[state] > 0 ? HEALTH_STYLES[state].badge : 'bg-muted text-muted-foreground'}>
+            {HEALTH_LABELS[state]}: {stats.health[state]}
+          </Badge>
+        ))}
+      </div>
+    )}
+
+    {zoneRows.length > 0 && (
+      <div className="mb-6">
+        <h3 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-1">
+          <MapIcon className="w-4 h-4" />
+          By zone
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+          {zoneRows.map(summary => (
+            <div
+              key={summary.zone.id}
+              onClick={() => onZoneClick?.(summary.zone.id)}
+              className={`flex items-center justify-between rounded-lg border border-forest-accent/30 p-2 text-sm ${
+                onZoneClick ? 'cursor-pointer hover:border-forest-accent' : ''
+              }`}
+            >
+              <div>
+                <p className="font-medium text-forest-primary">{formatZoneName(summary.zone)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {summary.sensorCount} sensor{summary.sensorCount === 1 ? '' : 's'}
+                  {summary.fireCount > 0 && ` · ${summary.fireCount} fire${summary.fireCount === 1 ? '' : 's'}`}
+                  {summary.warningCount > 0 && ` · ${summary.warningCount} warning`}
+                </p>
+              </div>
+              <Badge className={STATUS_STYLES[summary.status].badge}>{STATUS_LABELS[summary.status]}</Badge>
+            </div>
+          ))}
+        </div>
+      </div>
+    )}
+    </>
   );
 };
 
@@ -0,0 +1,392 @@
+// src/components/SessionAnalytics.tsx
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Clock, Flame, MapPin, Sun } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { convertTemperature, getZonedDateParts } from '@/lib/format';
+import {
+  AnalyticsPeriod,
+  buildCalendarHeatmap,
+  countFiresByPeriod,
+  formatCalendarDay,
+  formatPeriodKey,
+  getHourOfDayCounts,
+  getMeanDurationMs,
+  getPeakTemperatureDistribution,
+  getSessionDay,
+  getTopDevices,
+  shiftCalendarDay,
+} from '@/lib/sessionAnalytics';
+import { SESSION_TAG_LABELS, SESSION_TAGS } from '@/lib/sessionAnnotations';
+import { matchesTagFilter, SessionTagFilter } from '@/lib/sessionFilters';
+import { STATUS_STYLES } from '@/lib/thresholds';
+import { SessionTag } from '@/types/annotation';
+import { formatZoneName, isInZone } from '@/lib/zones';
+import { FireAlertSession } from '@/types/session';
+import { ForestZone, ZoneAssignment } from '@/types/zones';
+
+const PERIODS: { key: AnalyticsPeriod; label: string }[] = [
+  { key: 'day', label: 'Day' },
+  { key: 'week', label: 'Week' },
+  { key: 'month', label: 'Month' },
+];
+
+// The heatmap shows up to a year when no date range is set
+const HEATMAP_MAX_DAYS = 364;
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'];
+
+// Heatmap cell colour by share of the busiest day
+const heatmapColor = (count: number, max: number) => {
+  if (count === 0) return 'bg-muted';
+  const share = count / max;
+  if (share > 0.75) return 'bg-red-600';
+  if (share > 0.5) return 'bg-orange-500';
+  if (share > 0.25) return 'bg-amber-400';
+  return 'bg-yellow-200';
+};
+
+const formatDurationMs = (durationMs: number) => {
+  const minutes = Math.round(durationMs / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+interface SessionAnalyticsProps {
+  sessions: FireAlertSession[];
+  zones: ForestZone[];
+  getSessionZones: (sessionId: string) => ZoneAssignment;
+  getDisplayName: (deviceId: string) => string;
+  getSessionTags: (sessionId: string) => SessionTag[] | undefined;
+}
+
+// Network-wide view over every recorded fire alert session
+const SessionAnalytics: React.FC<SessionAnalyticsProps> = ({
+  sessions,
+  zones,
+  getSessionZones,
+  getDisplayName,
+  getSessionTags,
+}) => {
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [deviceFilter, setDeviceFilter] = useState('all');
+  const [zoneFilter, setZoneFilter] = useState('all');
+  const [tagFilter, setTagFilter] = useState<SessionTagFilter>('all');
+  const [period, setPeriod] = useState<AnalyticsPeriod>('day');
+
+  const deviceIds = useMemo(() => [...new Set(sessions.map(session => session.deviceId))].sort(), [sessions]);
+
+  // Date bounds are inclusive calendar days in the display time zone
+  const filteredSessions = useMemo(
+    () =>
+      sessions.filter(session => {
+        const day = getSessionDay(session, settings);
+        if (from && day < from) return false;
+        if (to && day > to) return false;
+        if (deviceFilter !== 'all' && session.deviceId !== deviceFilter) return false;
+        if (zoneFilter !== 'all' && !isInZone(getSessionZones(session.id), zoneFilter)) return false;
+        return matchesTagFilter(getSessionTags(session.id), tagFilter);
+      }),
+    [sessions, settings, from, to, deviceFilter, zoneFilter, tagFilter, getSessionZones, getSessionTags]
+  );
+
+  const analytics = useMemo(() => {
+    const today = getZonedDateParts(Date.now(), settings).day;
+    const heatmapTo = to || today;
+    const firstDay = filteredSessions.reduce<string | null>((first, session) => {
+      const day = getSessionDay(session, settings);
+      return first === null || day < first ? day : first;
+    }, null);
+    const earliest = shiftCalendarDay(heatmapTo, -HEATMAP_MAX_DAYS);
+    const heatmapFrom = from || (firstDay && firstDay > earliest ? firstDay : earliest);
+    const hours = getHourOfDayCounts(filteredSessions, settings);
+    const busiest = hours.reduce((best, entry) => (entry.count > best.count ? entry : best));
+
+    return {
+      byPeriod: countFiresByPeriod(filteredSessions, period, settings).map(entry => ({
+        ...entry,
+        label: formatPeriodKey(entry.key, period, settings),
+      })),
+      heatmap: buildCalendarHeatmap(filteredSessions, heatmapFrom, heatmapTo, settings),
+      meanDurationMs: getMeanDurationMs(filteredSessions),
+      // False alarms are stacked on the rest, so unreliable sensors stand out
+      topDevices: getTopDevices(filteredSessions, 10, session =>
+        Boolean(getSessionTags(session.id)?.includes('false_alarm'))
+      ).map(entry => ({ ...entry, otherCount: entry.count - entry.falseAlarms, name: getDisplayName(entry.deviceId) })),
+      peakTemperatures: getPeakTemperatureDistribution(filteredSessions).map(bin => ({
+        ...bin,
+        label: `${convertTemperature(bin.from, settings).toFixed(0)}–${convertTemperature(bin.to, settings).toFixed(0)}`,
+      })),
+      hours: hours.map(entry => ({ ...entry, label: String(entry.hour).padStart(2, '0') })),
+      busiestHour: busiest.count > 0 ? busiest.hour : null,
+      deviceCount: new Set(filteredSessions.map(session => session.deviceId)).size,
+    };
+  }, [filteredSessions, period, from, to, settings, getDisplayName, getSessionTags]);
+
+  const heatmapMax = Math.max(1, ...analytics.heatmap.flat().map(cell => cell.count));
+  const hasFilters = from || to || deviceFilter !== 'all' || zoneFilter !== 'all' || tagFilter !== 'all';
+
+  const clearFilters = () => {
+    setFrom('');
+    setTo('');
+    setDeviceFilter('all');
+    setZoneFilter('all');
+    setTagFilter('all');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">From</p>
+              <Input type="date" value={from} max={to || undefined} onChange={event => setFrom(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">To</p>
+              <Input type="date" value={to} min={from || undefined} onChange={event => setTo(event.target.value)} />
+            </div>
+            <div className="space-y-1 min-w-48">
+              <p className="text-sm text-muted-foreground">Device</p>
+              <Select value={deviceFilter} onValueChange={setDeviceFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All devices</SelectItem>
+                  {deviceIds.map(deviceId => (
+                    <SelectItem key={deviceId} value={deviceId}>{getDisplayName(deviceId)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {zones.length > 0 && (
+              <div className="space-y-1 min-w-48">
+                <p className="text-sm text-muted-foreground">Zone</p>
+                <Select value={zoneFilter} onValueChange={setZoneFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All zones</SelectItem>
+                    {zones.map(zone => (
+                      <SelectItem key={zone.id} value={zone.id}>{formatZoneName(zone)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1 min-w-48">
+              <p className="text-sm text-muted-foreground">Tag</p>
+              <Select value={tagFilter} onValueChange={tag => setTagFilter(tag as SessionTagFilter)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All tags</SelectItem>
+                  <SelectItem value="untagged">Untagged</SelectItem>
+                  {SESSION_TAGS.map(tag => (
+                    <SelectItem key={tag} value={tag}>{SESSION_TAG_LABELS[tag]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {hasFilters && (
+              <Button variant="outline" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <Flame className="w-4 h-4 text-red-500" />
+              Fire sessions
+            </p>
+            <p className="text-2xl font-bold">{filteredSessions.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <Clock className="w-4 h-4" />
+              Mean duration
+            </p>
+            <p className="text-2xl font-bold">
+              {analytics.meanDurationMs === null ? '—' : formatDurationMs(analytics.meanDurationMs)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <MapPin className="w-4 h-4" />
+              Devices affected
+            </p>
+            <p className="text-2xl font-bold">{analytics.deviceCount}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <Sun className="w-4 h-4 text-amber-500" />
+              Busiest hour
+            </p>
+            <p className="text-2xl font-bold">
+              {analytics.busiestHour === null ? '—' : `${String(analytics.busiestHour).padStart(2, '0')}:00`}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {filteredSessions.length === 0 ? (
+        <Card className="glass-card p-6 text-center">
+          <p className="text-muted-foreground">No fire alert sessions match these filters</p>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base">Fires per {period}</CardTitle>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={period}
+                onValueChange={value => value && setPeriod(value as AnalyticsPeriod)}
+              >
+                {PERIODS.map(option => (
+                  <ToggleGroupItem key={option.key} value={option.key}>
+                    {option.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analytics.byPeriod}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="count" fill={STATUS_STYLES.fire.hex} name="Fire sessions" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Fire calendar</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-1 overflow-x-auto pb-2">
+                <div className="grid grid-rows-7 gap-1 pr-1 text-[10px] text-muted-foreground">
+                  {WEEKDAY_LABELS.map((label, index) => (
+                    <span key={index} className="h-3 leading-3">{label}</span>
+                  ))}
+                </div>
+                {analytics.heatmap.map(week => (
+                  <div key={week[0].day} className="grid grid-rows-7 gap-1">
+                    {week.map(cell => (
+                      <div
+                        key={cell.day}
+                        className={`h-3 w-3 rounded-sm ${heatmapColor(cell.count, heatmapMax)}`}
+                        title={`${formatCalendarDay(cell.day, settings)}: ${cell.count} fire${cell.count === 1 ? '' : 's'}`}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                <span>Fewer</span>
+                {[0, 0.2, 0.4, 0.7, 1].map(share => (
+                  <div key={share} className={`h-3 w-3 rounded-sm ${heatmapColor(share, 1)}`} />
+                ))}
+                <span>More</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Top devices by incidents</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.topDevices} layout="vertical">
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="name" width={120} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="otherCount" stackId="sessions" fill="#f97316" name="Other sessions" />
+                      <Bar dataKey="falseAlarms" stackId="sessions" fill="#94a3b8" name="False alarms" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Peak temperature ({format.temperatureUnit})</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.peakTemperatures}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Bar dataKey="count" fill="#ef4444" name="Fire sessions" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Time of day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analytics.hours}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip labelFormatter={label => `${label}:00`} />
+                    <Bar dataKey="count" fill={STATUS_STYLES.warning.hex} name="Fires started" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionAnalytics;
@@ -0,0 +1,252 @@
+// src/components/SessionAnnotationsPanel.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { ImagePlus, MessageSquare, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { usePhotoUrl, useSessionAnnotations } from '@/hooks/use-session-annotations';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { toast } from '@/hooks/use-toast';
+import {
+  NOTE_MAX_LENGTH,
+  ROOT_CAUSE_MAX_LENGTH,
+  SESSION_TAG_LABELS,
+  SESSION_TAG_STYLES,
+  SESSION_TAGS,
+} from '@/lib/sessionAnnotations';
+import { SessionAnnotation, SessionAttachment } from '@/types/annotation';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} kB`;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+interface PhotoTileProps {
+  attachment: SessionAttachment;
+  onRemove?: () => void;
+}
+
+const PhotoTile: React.FC<PhotoTileProps> = ({ attachment, onRemove }) => {
+  const url = usePhotoUrl(attachment.id);
+  const format = useFormatters();
+
+  return (
+    <div className="relative rounded-lg border overflow-hidden">
+      {url ? (
+        <a href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt={attachment.name} className="h-32 w-full object-cover" />
+        </a>
+      ) : (
+        <div className="h-32 w-full bg-muted flex items-center justify-center text-xs text-muted-foreground">
+          Loading…
+        </div>
+      )}
+      <div className="p-2 text-xs">
+        <p className="font-medium truncate" title={attachment.name}>{attachment.name}</p>
+        <p className="text-muted-foreground">
+          {formatSize(attachment.size)} · {format.dateTime(attachment.addedAt)}
+        </p>
+      </div>
+      {onRemove && (
+        <Button
+          variant="secondary"
+          size="icon"
+          className="absolute top-1 right-1 h-7 w-7"
+          title="Remove photo"
+          onClick={onRemove}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface SessionAnnotationsPanelProps {
+  sessionId: string;
+  annotation: SessionAnnotation | undefined;
+  // Shared snapshots show the annotation without editing or photos
+  readOnly?: boolean;
+}
+
+// Operator context for a session: classification tags, root cause, a notes log and photos
+const SessionAnnotationsPanel: React.FC<SessionAnnotationsPanelProps> = ({ sessionId, annotation, readOnly = false }) => {
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const { toggleSessionTag, setRootCause, addSessionNote, attachPhoto, removeAttachment } = useSessionAnnotations();
+  const [rootCauseDraft, setRootCauseDraft] = useState(annotation?.rootCause ?? '');
+  const [operator, setOperator] = useState(settings.alerts.operatorName);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tags = annotation?.tags ?? [];
+  const notes = annotation?.notes ?? [];
+  const attachments = annotation?.attachments ?? [];
+  const savedRootCause = annotation?.rootCause ?? '';
+
+  // Follow the stored value when another session is opened or another tab saves
+  useEffect(() => {
+    setRootCauseDraft(savedRootCause);
+  }, [sessionId, savedRootCause]);
+
+  const handleAddNote = () => {
+    try {
+      addSessionNote(sessionId, operator, noteDraft);
+      setNoteDraft('');
+    } catch (error) {
+      toast({ title: 'Could not add note', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    for (const file of Array.from(files)) {
+      try {
+        await attachPhoto(sessionId, file);
+      } catch (error) {
+        toast({ title: 'Could not attach photo', description: errorMessage(error), variant: 'destructive' });
+      }
+    }
+    setUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleRemovePhoto = async (attachmentId: string) => {
+    try {
+      await removeAttachment(sessionId, attachmentId);
+    } catch (error) {
+      toast({ title: 'Could not remove photo', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Classification</h3>
+        <div className="flex flex-wrap gap-2">
+          {SESSION_TAGS.filter(tag => !readOnly || tags.includes(tag)).map(tag => {
+            const active = tags.includes(tag);
+            return (
+              <Badge
+                key={tag}
+                variant="outline"
+                className={`${active ? SESSION_TAG_STYLES[tag] : 'text-muted-foreground'} ${readOnly ? '' : 'cursor-pointer'}`}
+                onClick={readOnly ? undefined : () => toggleSessionTag(sessionId, tag)}
+              >
+                {SESSION_TAG_LABELS[tag]}
+              </Badge>
+            );
+          })}
+          {readOnly && tags.length === 0 && <p className="text-sm text-muted-foreground">Not classified</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="session-root-cause" className="text-lg font-semibold">Root cause</Label>
+        {readOnly ? (
+          <p className="text-sm whitespace-pre-wrap">{savedRootCause || 'Not recorded'}</p>
+        ) : (
+          <>
+            <Textarea
+              id="session-root-cause"
+              placeholder="e.g. Lightning strike on the ridge, burning of crop residue nearby, sensor inside a vehicle"
+              maxLength={ROOT_CAUSE_MAX_LENGTH}
+              value={rootCauseDraft}
+              onChange={event => setRootCauseDraft(event.target.value)}
+            />
+            <Button
+              size="sm"
+              disabled={rootCauseDraft.trim() === savedRootCause}
+              onClick={() => setRootCause(sessionId, rootCauseDraft)}
+            >
+              Save root cause
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-2">Notes</h3>
+        {notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-3">No notes yet</p>
+        ) : (
+          <div className="space-y-2 mb-3">
+            {notes.map(note => (
+              <div key={note.id} className="p-3 border rounded-lg text-sm">
+                <p className="text-xs text-muted-foreground flex items-center gap-1 mb-1">
+                  <MessageSquare className="w-3 h-3" />
+                  {note.by} · {format.dateTime(note.at)}
+                </p>
+                <p className="whitespace-pre-wrap">{note.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+        {!readOnly && (
+          <div className="space-y-2">
+            <Input
+              aria-label="Operator"
+              placeholder="Your name"
+              value={operator}
+              onChange={event => setOperator(event.target.value)}
+            />
+            <Textarea
+              placeholder="What was found on the ground, who was informed, what was done"
+              maxLength={NOTE_MAX_LENGTH}
+              value={noteDraft}
+              onChange={event => setNoteDraft(event.target.value)}
+            />
+            <Button size="sm" disabled={!noteDraft.trim()} onClick={handleAddNote}>
+              Add note
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold">Photos</h3>
+          {!readOnly && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={event => handleFiles(event.target.files)}
+              />
+              <Button size="sm" variant="outline" disabled={uploading} onClick={() => fileInputRef.current?.click()}>
+                <ImagePlus className="w-4 h-4 mr-2" />
+                {uploading ? 'Attaching…' : 'Attach photos'}
+              </Button>
+            </>
+          )}
+        </div>
+        {readOnly ? (
+          <p className="text-sm text-muted-foreground">Photos stay on the machine they were attached on.</p>
+        ) : attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No photos yet. Photos are stored in this browser only.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {attachments.map(attachment => (
+              <PhotoTile
+                key={attachment.id}
+                attachment={attachment}
+                onRemove={() => handleRemovePhoto(attachment.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionAnnotationsPanel;
@@ -0,0 +1,233 @@
+// src/components/ThresholdProfileSettings.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Gauge, Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { getFireAlerts } from '@/api/fireAlerts';
+import { fireAlertKeys } from '@/api/queryKeys';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { thresholdProfileSchema } from '@/lib/thresholds';
+import { ThresholdProfile } from '@/types/thresholds';
+
+const ACTIVE_PROFILE_VALUE = '__active__';
+
+const NUMBER_FIELDS: { name: keyof ThresholdProfile; label: string }[] = [
+  { name: 'tempWarning', label: 'Temperature warning (°C)' },
+  { name: 'tempCritical', label: 'Temperature critical (°C)' },
+  { name: 'smokeWarning', label: 'Smoke warning (ppm)' },
+  { name: 'smokeCritical', label: 'Smoke critical (ppm)' },
+  { name: 'humidityWarning', label: 'Humidity warning floor (%)' },
+  { name: 'humidityCritical', label: 'Humidity critical floor (%)' },
+];
+
+const ThresholdProfileSettings: React.FC = () => {
+  const {
+    profiles,
+    activeProfileId,
+    deviceAssignments,
+    saveProfile,
+    deleteProfile,
+    setActiveProfile,
+    assignProfile,
+    resetProfiles,
+  } = useThresholds();
+  const [editingId, setEditingId] = useState<string>(activeProfileId);
+
+  const { data: alerts = [] } = useQuery({
+    queryKey: fireAlertKeys.all,
+    queryFn: getFireAlerts,
+  });
+
+  // Devices reported by the API plus any that only exist as saved assignments
+  const deviceIds = useMemo(() => {
+    const ids = new Set<string>(Object.keys(deviceAssignments));
+    alerts.forEach(alert => alert.deviceId && ids.add(alert.deviceId));
+    return Array.from(ids).sort();
+  }, [alerts, deviceAssignments]);
+
+  const editingProfile = profiles.find(profile => profile.id === editingId) ?? profiles[0];
+
+  const form = useForm<ThresholdProfile>({
+    resolver: zodResolver(thresholdProfileSchema),
+    defaultValues: editingProfile,
+  });
+
+  useEffect(() => {
+    form.reset(editingProfile);
+  }, [editingProfile, form]);
+
+  const handleCreate = () => {
+    const profile: ThresholdProfile = {
+      ...editingProfile,
+      id: `profile-${Date.now()}`,
+      name: `${editingProfile.name} (copy)`,
+    };
+    saveProfile(profile);
+    setEditingId(profile.id);
+  };
+
+  const handleDelete = () => {
+    deleteProfile(editingProfile.id);
+    setEditingId(activeProfileId === editingProfile.id ? profiles[0].id : activeProfileId);
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="text-forest-primary flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          Alert Threshold Profiles
+        </CardTitle>
+        <CardDescription>
+          Warning and critical limits used by every status badge, map icon, chart band and report.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="text-sm font-medium">Active profile</span>
+          <Select value={activeProfileId} onValueChange={setActiveProfile}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={resetProfiles} className="ml-auto">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to defaults
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {profiles.map(profile => (
+            <Button
+              key={profile.id}
+              size="sm"
+              variant={profile.id === editingProfile.id ? 'default' : 'outline'}
+              onClick={() => setEditingId(profile.id)}
+            >
+              {profile.name}
+              {profile.id === activeProfileId && <Badge className="ml-2 bg-forest-success text-white">Active</Badge>}
+            </Button>
+          ))}
+          <Button size="sm" variant="ghost" onClick={handleCreate}>
+            <Plus className="w-4 h-4 mr-1" />
+            Duplicate
+          </Button>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(saveProfile)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {NUMBER_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          value={Number.isFinite(field.value) ? (field.value as number) : ''}
+                          onChange={event => field.onChange(event.target.valueAsNumber)}
+                          onBlur={field.onBlur}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+                <Save className="w-4 h-4 mr-2" />
+                Save profile
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleDelete}
+                disabled={profiles.length <= 1}
+                className="text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <div>
+          <h3 className="text-sm font-semibold mb-2">Per-device assignments</h3>
+          {deviceIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No devices reported yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {deviceIds.map(deviceId => (
+                <div key={deviceId} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">{deviceId}</span>
+                  <Select
+                    value={deviceAssignments[deviceId] ?? ACTIVE_PROFILE_VALUE}
+                    onValueChange={value => assignProfile(deviceId, value === ACTIVE_PROFILE_VALUE ? null : value)}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ACTIVE_PROFILE_VALUE}>Use active profile</SelectItem>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThresholdProfileSettings;
@@ -0,0 +1,62 @@
+// src/components/WindControl.tsx
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useWind } from '@/hooks/use-spread-prediction';
+import { Navigation } from 'lucide-react';
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Wind used by the spread prediction; direction is where the wind comes from
+const WindControl: React.FC = () => {
+  const [wind, setWind] = useWind();
+
+  const handleSpeedChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const speed = event.target.valueAsNumber;
+    if (Number.isFinite(speed) && speed >= 0 && speed <= 200) {
+      setWind({ ...wind, speedKmh: speed });
+    }
+  };
+
+  return (
+    <div className="flex items-end gap-3">
+      {/* The icon points north-east at rest; turn it to point downwind */}
+      <Navigation
+        className="w-5 h-5 mb-2 text-forest-primary"
+        style={{ transform: `rotate(${wind.directionDeg + 180 - 45}deg)` }}
+      />
+      <div className="space-y-1">
+        <Label className="text-xs">Wind from</Label>
+        <Select
+          value={String(wind.directionDeg % 360)}
+          onValueChange={value => setWind({ ...wind, directionDeg: Number(value) })}
+        >
+          <SelectTrigger className="w-20 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {COMPASS_POINTS.map((point, index) => (
+              <SelectItem key={point} value={String(index * 45)}>{point}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="wind-speed" className="text-xs">Speed (km/h)</Label>
+        <Input
+          id="wind-speed"
+          type="number"
+          min={0}
+          max={200}
+          step={1}
+          value={wind.speedKmh}
+          onChange={handleSpeedChange}
+          className="w-24 h-9"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default WindControl;
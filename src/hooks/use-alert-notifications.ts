@@ -0,0 +1,93 @@
+import * as React from "react";
+
+import { getSensorName } from "@/hooks/use-sensor-registry";
+import { useSettings } from "@/hooks/use-settings";
+import { isQuietTime, showBrowserNotification, showTabAttention } from "@/lib/alertNotifications";
+import { createSiren } from "@/lib/siren";
+import type { FireAlert } from "@/types/alert";
+
+// Quiet hours are re-checked on this interval while an alert is sounding
+const QUIET_HOURS_CHECK_MS = 30 * 1000;
+
+const siren = createSiren();
+
+interface AlertNotificationOptions {
+  // Raised alerts not yet acknowledged or dismissed: these sound the siren
+  pendingAlerts: FireAlert[];
+  // Every alert still waiting for acknowledgement: these flash the tab
+  unacknowledgedAlerts: FireAlert[];
+  activeFireCount: number;
+  onNotificationClick: (alert: FireAlert) => void;
+}
+
+// Siren, browser notifications and tab title/favicon for fire alerts, on any route
+export function useAlertNotifications({
+  pendingAlerts,
+  unacknowledgedAlerts,
+  activeFireCount,
+  onNotificationClick,
+}: AlertNotificationOptions) {
+  const { settings } = useSettings();
+  const { soundEnabled, volume, sirenPattern, quietHours, browserNotifications } = settings.notifications;
+  const notifiedRef = React.useRef(new Map<string, { raisedAt: string; notification: Notification | null }>());
+  const onClickRef = React.useRef(onNotificationClick);
+  onClickRef.current = onNotificationClick;
+
+  const sounding = soundEnabled && pendingAlerts.length > 0;
+
+  React.useEffect(() => {
+    if (!sounding) {
+      siren.stop();
+      return;
+    }
+    const update = () => {
+      if (isQuietTime(quietHours)) {
+        siren.stop();
+      } else {
+        siren.start(sirenPattern, volume);
+      }
+    };
+    update();
+    const timer = window.setInterval(update, QUIET_HOURS_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [sounding, sirenPattern, volume, quietHours]);
+
+  React.useEffect(() => () => siren.stop(), []);
+
+  const flashing = unacknowledgedAlerts.length > 0;
+  const tabCount = activeFireCount || unacknowledgedAlerts.length;
+
+  React.useEffect(() => {
+    if (tabCount === 0) return;
+    return showTabAttention(tabCount, flashing);
+  }, [tabCount, flashing]);
+
+  React.useEffect(() => {
+    const notified = notifiedRef.current;
+    const waiting = new Set(unacknowledgedAlerts.map((alert) => alert.id));
+
+    // Acknowledged elsewhere: take the notification off the screen
+    notified.forEach((entry, alertId) => {
+      if (waiting.has(alertId)) return;
+      entry.notification?.close();
+      notified.delete(alertId);
+    });
+
+    unacknowledgedAlerts.forEach((alert) => {
+      if (notified.get(alert.id)?.raisedAt === alert.lastRaisedAt) return;
+      // A visible tab already shows the popup; notifications are for background tabs
+      const notification =
+        browserNotifications && document.visibilityState !== "visible"
+          ? showBrowserNotification(alert.escalations > 0 ? "🔥 Fire alert still unacknowledged" : "🔥 Fire detected", {
+              body:
+                `${getSensorName(alert.deviceId)} at ${alert.latitude.toFixed(4)}, ${alert.longitude.toFixed(4)}` +
+                (alert.escalations > 0 ? ` (escalated ×${alert.escalations})` : ""),
+              tag: alert.id,
+              silent: isQuietTime(quietHours),
+              onClick: () => onClickRef.current(alert),
+            })
+          : null;
+      notified.set(alert.id, { raisedAt: alert.lastRaisedAt, notification });
+    });
+  }, [unacknowledgedAlerts, browserNotifications, quietHours]);
+}
@@ -0,0 +1,83 @@
+import * as React from "react";
+
+import { getSettings, settingsStore } from "@/hooks/use-settings";
+import { sessionStore } from "@/hooks/use-sessions";
+import { createPersistedStore } from "@/lib/persistedStore";
+import {
+  addAlertNote,
+  escalateAlerts,
+  isOpenAlert,
+  parseAlerts,
+  syncAlertsWithSessions,
+  transitionAlert,
+} from "@/lib/alertLifecycle";
+import type { AlertState, FireAlert } from "@/types/alert";
+
+const ESCALATION_CHECK_MS = 15 * 1000;
+
+export const alertStore = createPersistedStore<FireAlert[]>("fireAlertInbox", parseAlerts, () => []);
+
+function updateAlert(alertId: string, update: (alert: FireAlert) => FireAlert) {
+  alertStore.setState((alerts) => alerts.map((alert) => (alert.id === alertId ? update(alert) : alert)));
+}
+
+// Remembers the operator name so the next action is pre-filled
+export function rememberOperator(by: string) {
+  const settings = settingsStore.getState();
+  if (settings.alerts.operatorName === by) return;
+  settingsStore.setState({ ...settings, alerts: { ...settings.alerts, operatorName: by } });
+}
+
+// Throws when the move is not allowed from the alert's current state
+function setAlertState(alertId: string, to: AlertState, by: string, note?: string) {
+  updateAlert(alertId, (alert) => transitionAlert(alert, to, { by, note }));
+  rememberOperator(by);
+}
+
+function acknowledgeAlert(alertId: string, by: string) {
+  setAlertState(alertId, "acknowledged", by);
+}
+
+function noteAlert(alertId: string, by: string, note: string) {
+  updateAlert(alertId, (alert) => addAlertNote(alert, { by, note }));
+  rememberOperator(by);
+}
+
+export function useAlerts() {
+  const alerts = alertStore.useStore();
+
+  const openAlerts = React.useMemo(() => alerts.filter(isOpenAlert), [alerts]);
+  const unacknowledgedAlerts = React.useMemo(
+    () => alerts.filter((alert) => alert.state === "new"),
+    [alerts],
+  );
+
+  return { alerts, openAlerts, unacknowledgedAlerts, acknowledgeAlert, setAlertState, noteAlert };
+}
+
+// Mounted once in App: raises an alert whenever the session engine opens a
+// session and re-raises alerts left unacknowledged past the escalation time
+export function useAlertEngine() {
+  React.useEffect(() => {
+    // Sessions that end from now on get an alert even if they never showed as active
+    const startedAt = new Date();
+    const sync = () => {
+      const alerts = alertStore.getState();
+      const next = syncAlertsWithSessions(alerts, sessionStore.getState(), new Date(), startedAt);
+      if (next !== alerts) alertStore.setState(next);
+    };
+    const escalate = () => {
+      const alerts = alertStore.getState();
+      const next = escalateAlerts(alerts, getSettings().alerts, new Date());
+      if (next !== alerts) alertStore.setState(next);
+    };
+
+    sync();
+    const unsubscribe = sessionStore.subscribe(sync);
+    const timer = window.setInterval(escalate, ESCALATION_CHECK_MS);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, []);
+}
@@ -0,0 +1,71 @@
+import * as React from "react";
+import { QueryClient, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { getFireAlertByDeviceId, getFireAlerts } from "@/api/fireAlerts";
+import { fireAlertKeys } from "@/api/queryKeys";
+import { connectSensorStream, StreamMessage, streamStateStore } from "@/api/sensorStream";
+import { useSettings } from "@/hooks/use-settings";
+import type { AlertData } from "@/types/sensor";
+
+export const useStreamState = () => streamStateStore.useStore();
+
+// Refetch on the page's interval unless the stream is delivering updates
+function useRefetchInterval(pollSeconds: number) {
+  const { status } = useStreamState();
+  return status === "live" ? false : pollSeconds * 1000;
+}
+
+export function useFireAlerts(pollSeconds: number) {
+  const refetchInterval = useRefetchInterval(pollSeconds);
+  return useQuery({
+    queryKey: fireAlertKeys.all,
+    queryFn: getFireAlerts,
+    refetchInterval,
+  });
+}
+
+export function useFireAlert(deviceId: string | undefined, pollSeconds: number) {
+  const refetchInterval = useRefetchInterval(pollSeconds);
+  return useQuery({
+    queryKey: fireAlertKeys.device(deviceId ?? ""),
+    queryFn: () => (deviceId ? getFireAlertByDeviceId(deviceId) : null),
+    enabled: !!deviceId,
+    refetchInterval,
+  });
+}
+
+export function mergeStreamMessage(queryClient: QueryClient, { alerts, snapshot }: StreamMessage) {
+  queryClient.setQueryData<AlertData[]>(fireAlertKeys.all, (current) => {
+    if (snapshot) return alerts;
+    // A partial update can't stand in for a list we never fetched
+    if (!current) return current;
+
+    const byDevice = new Map(current.map((alert) => [alert.deviceId, alert]));
+    alerts.forEach((alert) => byDevice.set(alert.deviceId, alert));
+    return Array.from(byDevice.values());
+  });
+
+  alerts.forEach((alert) => {
+    const key = fireAlertKeys.device(alert.deviceId);
+    if (queryClient.getQueryState(key)) {
+      queryClient.setQueryData(key, alert);
+    }
+  });
+}
+
+// Mounted once in App: keeps the configured stream open and feeds it into the query cache
+export function useSensorStream() {
+  const queryClient = useQueryClient();
+  const { settings } = useSettings();
+  const { transport, url } = settings.realtime;
+
+  React.useEffect(() => {
+    if (transport === "off") return;
+
+    return connectSensorStream({
+      url,
+      transport,
+      onMessage: (message) => mergeStreamMessage(queryClient, message),
+    });
+  }, [queryClient, transport, url]);
+}
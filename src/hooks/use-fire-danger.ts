@@ -0,0 +1,50 @@
+import * as React from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import { historyKeys } from "@/api/queryKeys";
+import { hasCompleteReading } from "@/api/sensorNormalization";
+import { useSensorsHistory } from "@/hooks/use-reading-history";
+import { assessFireDanger, DRYNESS_DAYS, SMOKE_TREND_MINUTES } from "@/lib/fireDanger";
+import { queryDevicesHistory } from "@/lib/readingHistory";
+import type { SensorData } from "@/types/sensor";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Attaches a fire danger report to every sensor. The multi-day dryness history is
+// re-read once an hour; the smoke trend follows incoming readings. Sensors with
+// missing or invalid values get no report rather than one scored from placeholders.
+export function useFireDanger(sensors: SensorData[]) {
+  const { deviceIds, latestReading } = React.useMemo(
+    () => ({
+      deviceIds: [...new Set(sensors.map((sensor) => sensor.deviceId))].sort(),
+      latestReading: sensors.reduce((max, sensor) => Math.max(max, new Date(sensor.timestamp).getTime() || 0), 0),
+    }),
+    [sensors],
+  );
+  const hourBucket = Math.floor(latestReading / HOUR_MS);
+
+  // Kept off the per-device keys: days of history are not re-read with every reading
+  const { data: dryness } = useQuery({
+    queryKey: [...historyKeys.all, "dryness", deviceIds.join(","), hourBucket],
+    queryFn: () => {
+      const to = Date.now();
+      return queryDevicesHistory(deviceIds, to - DRYNESS_DAYS * 24 * HOUR_MS, to);
+    },
+    enabled: deviceIds.length > 0,
+    staleTime: HOUR_MS,
+    placeholderData: keepPreviousData,
+  });
+
+  const trend = useSensorsHistory(deviceIds, { windowMs: SMOKE_TREND_MINUTES * 60 * 1000 });
+
+  return React.useMemo(
+    () =>
+      sensors.map((sensor) => ({
+        ...sensor,
+        danger: hasCompleteReading(sensor)
+          ? assessFireDanger(sensor, dryness?.[sensor.deviceId] ?? [], trend[sensor.deviceId] ?? [])
+          : undefined,
+      })),
+    [sensors, dryness, trend],
+  );
+}
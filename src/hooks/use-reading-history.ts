@@ -0,0 +1,93 @@
+import * as React from "react";
+import { useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { fireAlertKeys, historyKeys } from "@/api/queryKeys";
+import { getSettings } from "@/hooks/use-settings";
+import { compactHistory, queryHistory, recordReadings } from "@/lib/readingHistory";
+import type { HistoryPoint } from "@/types/history";
+import type { AlertData } from "@/types/sensor";
+
+const COMPACTION_INTERVAL_MS = 10 * 60 * 1000;
+
+// A sliding window ending now, or a fixed range (epoch milliseconds)
+export type HistoryRange = { windowMs: number } | { from: number; to: number };
+
+export function useSensorHistory(deviceId: string | undefined, range: HistoryRange) {
+  const rangeKey = "windowMs" in range ? { windowMs: range.windowMs } : { from: range.from, to: range.to };
+
+  return useQuery({
+    queryKey: [...historyKeys.device(deviceId ?? ""), rangeKey],
+    queryFn: () => {
+      const to = "windowMs" in rangeKey ? Date.now() : rangeKey.to;
+      const from = "windowMs" in rangeKey ? to - rangeKey.windowMs : rangeKey.from;
+      return queryHistory(deviceId as string, from, to);
+    },
+    enabled: !!deviceId,
+  });
+}
+
+// History for several devices, keyed per device so the recorder's invalidation
+// refreshes only the devices that received readings, and hooks asking for the same
+// window share one read. Returns points by device id.
+export function useSensorsHistory(deviceIds: string[], range: HistoryRange) {
+  const rangeKey = "windowMs" in range ? { windowMs: range.windowMs } : { from: range.from, to: range.to };
+  const idsKey = deviceIds.join(",");
+
+  const combine = React.useCallback(
+    (results: { data?: HistoryPoint[] }[]) => {
+      const ids = idsKey ? idsKey.split(",") : [];
+      const entries = ids.map((deviceId, index) => [deviceId, results[index]?.data ?? []] as const);
+      return Object.fromEntries(entries) as Record<string, HistoryPoint[]>;
+    },
+    [idsKey],
+  );
+
+  return useQueries({
+    queries: deviceIds.map((deviceId) => ({
+      queryKey: [...historyKeys.device(deviceId), rangeKey],
+      queryFn: () => {
+        const to = "windowMs" in rangeKey ? Date.now() : rangeKey.to;
+        const from = "windowMs" in rangeKey ? to - rangeKey.windowMs : rangeKey.from;
+        return queryHistory(deviceId, from, to);
+      },
+    })),
+    combine,
+  });
+}
+
+// Mounted once in App: writes every new reading that lands in the fireAlerts cache
+// to IndexedDB and applies the retention policy periodically
+export function useHistoryRecorder() {
+  const queryClient = useQueryClient();
+
+  React.useEffect(() => {
+    const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== "updated" || event.action.type !== "success") return;
+      if (event.query.queryKey[0] !== fireAlertKeys.all[0]) return;
+
+      const data = event.query.state.data as AlertData[] | AlertData | null | undefined;
+      const alerts = Array.isArray(data) ? data : data ? [data] : [];
+
+      recordReadings(alerts)
+        .then((written) => {
+          new Set(written.map((reading) => reading.deviceId)).forEach((deviceId) => {
+            queryClient.invalidateQueries({ queryKey: historyKeys.device(deviceId) });
+          });
+        })
+        .catch((error) => console.error("Failed to record sensor history:", error));
+    });
+
+    const compact = () => {
+      compactHistory(getSettings().history).catch((error) =>
+        console.error("Failed to compact sensor history:", error),
+      );
+    };
+    compact();
+    const timer = setInterval(compact, COMPACTION_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,65 @@
+import * as React from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+import { historyKeys } from "@/api/queryKeys";
+import { useSensorsHistory } from "@/hooks/use-reading-history";
+import { useSettings } from "@/hooks/use-settings";
+import { buildBaseline, detectAnomalies } from "@/lib/anomalyDetection";
+import { queryDevicesHistory } from "@/lib/readingHistory";
+import type { SensorBaseline } from "@/types/anomaly";
+import type { SensorData } from "@/types/sensor";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// History the hourly baselines are learned from
+const BASELINE_DAYS = 7;
+
+// Sorted device ids and the newest reading time, used in query keys
+function useDeviceIds(sensors: SensorData[]) {
+  return React.useMemo(
+    () => ({
+      deviceIds: [...new Set(sensors.map((sensor) => sensor.deviceId))].sort(),
+      latestReading: sensors.reduce((max, sensor) => Math.max(max, new Date(sensor.timestamp).getTime() || 0), 0),
+    }),
+    [sensors],
+  );
+}
+
+// Attaches an anomaly report to every sensor. Baselines are relearned once an hour;
+// the rapid-change window follows incoming readings.
+export function useSensorAnomalies(sensors: SensorData[]) {
+  const { settings } = useSettings();
+  const config = settings.anomaly;
+  const windowMs = config.riseWindowMinutes * 60 * 1000;
+  const { deviceIds, latestReading } = useDeviceIds(sensors);
+  const hourBucket = Math.floor(latestReading / HOUR_MS);
+
+  // Ends before the rise window so the readings being judged are not part of their own baseline.
+  // Kept off the per-device keys: a week of history is not re-read with every reading
+  const { data: baselines } = useQuery({
+    queryKey: [...historyKeys.all, "baseline", deviceIds.join(","), hourBucket, windowMs],
+    queryFn: async () => {
+      const to = Date.now() - windowMs;
+      const history = await queryDevicesHistory(deviceIds, to - BASELINE_DAYS * 24 * HOUR_MS, to);
+      return Object.fromEntries(
+        Object.entries(history).map(([deviceId, points]) => [deviceId, buildBaseline(points)]),
+      ) as Record<string, SensorBaseline>;
+    },
+    enabled: config.enabled && deviceIds.length > 0,
+    staleTime: HOUR_MS,
+    placeholderData: keepPreviousData,
+  });
+
+  const recent = useSensorsHistory(config.enabled ? deviceIds : [], { windowMs });
+
+  return React.useMemo(
+    () =>
+      config.enabled
+        ? sensors.map((sensor) => ({
+            ...sensor,
+            anomaly: detectAnomalies(sensor, baselines?.[sensor.deviceId], recent[sensor.deviceId] ?? [], config),
+          }))
+        : sensors,
+    [sensors, baselines, recent, config],
+  );
+}
@@ -0,0 +1,49 @@
+import * as React from "react";
+
+import { useSensorsHistory } from "@/hooks/use-reading-history";
+import { useSettings } from "@/hooks/use-settings";
+import { assessSensorHealth, isFlatlined } from "@/lib/sensorHealth";
+import type { SensorData } from "@/types/sensor";
+
+// Sensors go stale without any new data arriving, so ages are re-evaluated on a clock
+const HEALTH_TICK_MS = 30 * 1000;
+
+function useNow(intervalMs: number) {
+  const [now, setNow] = React.useState(() => Date.now());
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+// Attaches a health report to every sensor and marks offline sensors inactive.
+// Fire status is left alone: a faulty sensor reporting fire still shows the fire.
+export function useSensorHealth(sensors: SensorData[]) {
+  const { settings } = useSettings();
+  const config = settings.health;
+  const now = useNow(HEALTH_TICK_MS);
+  const windowMs = config.flatlineMinutes * 60 * 1000;
+
+  const deviceIds = React.useMemo(
+    () => [...new Set(sensors.map((sensor) => sensor.deviceId))].sort(),
+    [sensors],
+  );
+
+  // The flat-line check follows incoming data; nothing is read when it is off
+  const history = useSensorsHistory(windowMs > 0 ? deviceIds : [], { windowMs });
+
+  return React.useMemo(
+    () =>
+      sensors.map((sensor) => {
+        const points = history[sensor.deviceId] ?? [];
+        const health = assessSensorHealth(sensor, config, now, isFlatlined(sensor, points, windowMs));
+        return {
+          ...sensor,
+          health,
+          status: health.health === "offline" ? ("inactive" as const) : sensor.status,
+        };
+      }),
+    [sensors, history, config, now, windowMs],
+  );
+}
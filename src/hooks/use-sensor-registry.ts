@@ -0,0 +1,80 @@
+import * as React from "react";
+
+import { createPersistedStore } from "@/lib/persistedStore";
+import {
+  applySensorMetadata,
+  getSensorDisplayName,
+  parseRegistry,
+  parseRegistryCsv,
+  registryToCsv,
+  sensorMetadataSchema,
+  type SensorMetadataInput,
+} from "@/lib/sensorRegistry";
+import type { SensorMetadata, SensorRegistry } from "@/types/registry";
+import type { SensorData } from "@/types/sensor";
+
+export const registryStore = createPersistedStore<SensorRegistry>("sensorRegistry", parseRegistry, () => ({}));
+
+// Non-React accessor for module code such as notifications
+export const getSensorName = (deviceId: string) => getSensorDisplayName(deviceId, registryStore.getState());
+
+// Validates with the same schema as the editor; throws on invalid input
+function saveMetadata(input: SensorMetadataInput) {
+  const fields = sensorMetadataSchema.parse(input) as Omit<SensorMetadata, "updatedAt">;
+  registryStore.setState((registry) => ({
+    ...registry,
+    [fields.deviceId]: { ...fields, updatedAt: new Date().toISOString() },
+  }));
+}
+
+function removeMetadata(deviceId: string) {
+  registryStore.setState((registry) => {
+    const next = { ...registry };
+    delete next[deviceId];
+    return next;
+  });
+}
+
+// Upserts every row; columns missing from the file keep their stored values
+function importRegistryCsv(text: string) {
+  const rows = parseRegistryCsv(text);
+  const updatedAt = new Date().toISOString();
+  registryStore.setState((registry) => {
+    const next = { ...registry };
+    rows.forEach((row) => {
+      next[row.deviceId] = { ...next[row.deviceId], ...row, updatedAt } as SensorMetadata;
+    });
+    return next;
+  });
+  return rows.length;
+}
+
+function exportRegistryCsv() {
+  const entries = Object.values(registryStore.getState()).sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+  return registryToCsv(entries);
+}
+
+export function useSensorRegistry() {
+  const registry = registryStore.useStore();
+
+  // New identity whenever the registry changes, so memoised sensor lists pick up edits
+  const withMetadata = React.useCallback(
+    (sensors: SensorData[]) => sensors.map((sensor) => applySensorMetadata(sensor, registry)),
+    [registry],
+  );
+
+  const getDisplayName = React.useCallback(
+    (deviceId: string) => getSensorDisplayName(deviceId, registry),
+    [registry],
+  );
+
+  return {
+    registry,
+    withMetadata,
+    getDisplayName,
+    saveMetadata,
+    removeMetadata,
+    importRegistryCsv,
+    exportRegistryCsv,
+  };
+}
@@ -0,0 +1,138 @@
+import * as React from "react";
+
+import { rememberOperator } from "@/hooks/use-alerts";
+import { createPersistedStore } from "@/lib/persistedStore";
+import {
+  createAnnotationId,
+  createEmptyAnnotation,
+  MAX_ATTACHMENT_BYTES,
+  NOTE_MAX_LENGTH,
+  parseSessionAnnotations,
+  ROOT_CAUSE_MAX_LENGTH,
+} from "@/lib/sessionAnnotations";
+import { deletePhoto, deleteSessionPhotos, loadPhoto, savePhoto } from "@/lib/sessionAttachments";
+import type { SessionAnnotation, SessionAnnotations, SessionTag } from "@/types/annotation";
+
+export const annotationStore = createPersistedStore<SessionAnnotations>(
+  "sessionAnnotations",
+  parseSessionAnnotations,
+  () => ({}),
+);
+
+function updateAnnotation(sessionId: string, update: (annotation: SessionAnnotation) => SessionAnnotation) {
+  annotationStore.setState((annotations) => ({
+    ...annotations,
+    [sessionId]: {
+      ...update(annotations[sessionId] ?? createEmptyAnnotation(sessionId)),
+      updatedAt: new Date().toISOString(),
+    },
+  }));
+}
+
+function toggleSessionTag(sessionId: string, tag: SessionTag) {
+  updateAnnotation(sessionId, (annotation) => ({
+    ...annotation,
+    tags: annotation.tags.includes(tag)
+      ? annotation.tags.filter((current) => current !== tag)
+      : [...annotation.tags, tag],
+  }));
+}
+
+function setRootCause(sessionId: string, rootCause: string) {
+  const text = rootCause.trim().slice(0, ROOT_CAUSE_MAX_LENGTH);
+  updateAnnotation(sessionId, (annotation) => ({ ...annotation, rootCause: text || undefined }));
+}
+
+// Throws when the note is empty
+function addSessionNote(sessionId: string, by: string, text: string) {
+  const note = text.trim();
+  if (!note) throw new Error("Write a note first");
+  const author = by.trim() || "Operator";
+  updateAnnotation(sessionId, (annotation) => ({
+    ...annotation,
+    notes: [
+      ...annotation.notes,
+      { id: createAnnotationId(), at: new Date().toISOString(), by: author, text: note.slice(0, NOTE_MAX_LENGTH) },
+    ],
+  }));
+  rememberOperator(author);
+}
+
+// Stores the image first so the details never point at a missing photo; throws on
+// files that are not images or are too large
+async function attachPhoto(sessionId: string, file: File) {
+  if (!file.type.startsWith("image/")) throw new Error(`${file.name} is not an image`);
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+  }
+  const id = createAnnotationId();
+  await savePhoto(id, sessionId, file);
+  updateAnnotation(sessionId, (annotation) => ({
+    ...annotation,
+    attachments: [
+      ...annotation.attachments,
+      { id, name: file.name, type: file.type, size: file.size, addedAt: new Date().toISOString() },
+    ],
+  }));
+}
+
+async function removeAttachment(sessionId: string, attachmentId: string) {
+  updateAnnotation(sessionId, (annotation) => ({
+    ...annotation,
+    attachments: annotation.attachments.filter((attachment) => attachment.id !== attachmentId),
+  }));
+  await deletePhoto(attachmentId);
+}
+
+// Called when a session is deleted
+export function removeSessionAnnotation(sessionId: string) {
+  if (!annotationStore.getState()[sessionId]) return;
+  annotationStore.setState((annotations) => {
+    const next = { ...annotations };
+    delete next[sessionId];
+    return next;
+  });
+  deleteSessionPhotos(sessionId).catch((error) => console.warn("Could not delete session photos:", error));
+}
+
+export function useSessionAnnotations() {
+  const annotations = annotationStore.useStore();
+
+  const getAnnotation = React.useCallback(
+    (sessionId: string): SessionAnnotation | undefined => annotations[sessionId],
+    [annotations],
+  );
+
+  return {
+    annotations,
+    getAnnotation,
+    toggleSessionTag,
+    setRootCause,
+    addSessionNote,
+    attachPhoto,
+    removeAttachment,
+  };
+}
+
+// Object URL for a stored photo, revoked when the component unmounts
+export function usePhotoUrl(attachmentId: string) {
+  const [url, setUrl] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    loadPhoto(attachmentId)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.warn("Could not load photo:", error));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentId]);
+
+  return url;
+}
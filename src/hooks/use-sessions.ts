@@ -0,0 +1,67 @@
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { fireAlertKeys } from "@/api/queryKeys";
+import { getProfileForDevice } from "@/hooks/use-thresholds";
+import { getSettings } from "@/hooks/use-settings";
+import { createPersistedStore } from "@/lib/persistedStore";
+import { createSessionEngine, parseSessions } from "@/lib/sessionEngine";
+import type { AlertData } from "@/types/sensor";
+import type { FireAlertSession } from "@/types/session";
+
+const SILENCE_CHECK_MS = 60 * 1000;
+
+// Same key the Live Monitoring page used, so sessions saved before the engine carry over
+export const sessionStore = createPersistedStore<FireAlertSession[]>(
+  "fireAlertSessions",
+  parseSessions,
+  () => [],
+);
+
+function deleteSession(sessionId: string) {
+  sessionStore.setState((sessions) => sessions.filter((session) => session.id !== sessionId));
+}
+
+export function useSessions() {
+  const sessions = sessionStore.useStore();
+
+  const activeSessions = React.useMemo(
+    () => sessions.filter((session) => session.status === "active"),
+    [sessions],
+  );
+  const completedSessions = React.useMemo(
+    () => sessions.filter((session) => session.status === "completed"),
+    [sessions],
+  );
+
+  return { sessions, activeSessions, completedSessions, deleteSession };
+}
+
+// Mounted once in App: every reading that reaches the fireAlerts cache, from any
+// page, poll or stream, drives the per-device session state machine
+export function useSessionEngine() {
+  const queryClient = useQueryClient();
+
+  React.useEffect(() => {
+    const engine = createSessionEngine({
+      getSessions: sessionStore.getState,
+      setSessions: sessionStore.setState,
+      getConfig: () => getSettings().sessions,
+      resolveProfile: getProfileForDevice,
+    });
+
+    const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== "updated" || event.action.type !== "success") return;
+      if (event.query.queryKey[0] !== fireAlertKeys.all[0]) return;
+
+      const data = event.query.state.data as AlertData[] | AlertData | null | undefined;
+      engine.ingest(Array.isArray(data) ? data : data ? [data] : []);
+    });
+    engine.closeSilentSessions();
+    const timer = window.setInterval(() => engine.closeSilentSessions(), SILENCE_CHECK_MS);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+    };
+  }, [queryClient]);
+}
@@ -0,0 +1,81 @@
+import * as React from "react";
+
+import { createPersistedStore } from "@/lib/persistedStore";
+import { createDefaultSettings, parseSettings, serializeSettings } from "@/lib/settings";
+import {
+  formatDate,
+  formatDateTime,
+  formatSmoke,
+  formatTemperature,
+  formatTime,
+  smokeUnitLabel,
+  temperatureUnitLabel,
+} from "@/lib/format";
+import type { AppSettings } from "@/types/settings";
+
+export const settingsStore = createPersistedStore<AppSettings>(
+  "dashboardSettings",
+  parseSettings,
+  createDefaultSettings,
+);
+
+// Non-React accessor for the API layer and other module code
+export const getSettings = () => settingsStore.getState();
+
+function updateSettings(settings: AppSettings) {
+  settingsStore.setState(parseSettings(settings));
+}
+
+function resetSettings() {
+  settingsStore.setState(createDefaultSettings());
+}
+
+// Throws with a readable message if the JSON is malformed or fails validation
+function importSettings(json: string) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const settings = parseSettings(raw);
+  settingsStore.setState(settings);
+  return settings;
+}
+
+function exportSettings() {
+  return serializeSettings(settingsStore.getState());
+}
+
+function useSettings() {
+  const settings = settingsStore.useStore();
+
+  return {
+    settings,
+    updateSettings,
+    resetSettings,
+    importSettings,
+    exportSettings,
+  };
+}
+
+// Formatting helpers bound to the current unit and date preferences
+function useFormatters() {
+  const settings = settingsStore.useStore();
+
+  return React.useMemo(
+    () => ({
+      temperature: (celsius: number, digits?: number) => formatTemperature(celsius, settings, digits),
+      smoke: (ppm: number, digits?: number) => formatSmoke(ppm, settings, digits),
+      date: (value: string | number | Date) => formatDate(value, settings),
+      time: (value: string | number | Date, options?: { seconds?: boolean }) =>
+        formatTime(value, settings, options),
+      dateTime: (value: string | number | Date) => formatDateTime(value, settings),
+      temperatureUnit: temperatureUnitLabel(settings),
+      smokeUnit: smokeUnitLabel(settings),
+    }),
+    [settings],
+  );
+}
+
+export { useSettings, useFormatters };
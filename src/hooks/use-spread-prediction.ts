@@ -0,0 +1,68 @@
+import * as React from "react";
+import { z } from "zod";
+
+import { useSensorsHistory } from "@/hooks/use-reading-history";
+import { createPersistedStore } from "@/lib/persistedStore";
+import {
+  distanceMeters,
+  getMetricRates,
+  NEIGHBOUR_RADIUS_METERS,
+  predictSpread,
+  RATE_WINDOW_MS,
+  SpreadSensor,
+} from "@/lib/spreadPrediction";
+import type { SensorData } from "@/types/sensor";
+import type { WindInput } from "@/types/spread";
+import type { ThresholdProfile } from "@/types/thresholds";
+
+const windSchema = z.object({
+  directionDeg: z.number().min(0).max(360),
+  speedKmh: z.number().min(0).max(200),
+});
+
+// Entered by the operator on the Dashboard; kept across reloads and shared between tabs
+export const windStore = createPersistedStore<WindInput>(
+  "spreadWind",
+  (raw) => windSchema.parse(raw) as WindInput,
+  () => ({ directionDeg: 270, speedKmh: 10 }),
+);
+
+export function useWind() {
+  const wind = windStore.useStore();
+  return [wind, windStore.setState] as const;
+}
+
+const NO_RATES = { tempPerMinute: 0, smokePerMinute: 0 };
+
+// Spread predictions for every sensor reporting fire, using the last few minutes
+// of stored history for rates of change at the fire and at its neighbours
+export function useSpreadPredictions(sensors: SensorData[], getProfile: (deviceId: string) => ThresholdProfile) {
+  const [wind] = useWind();
+
+  const { fires, deviceIds } = React.useMemo(() => {
+    const burning = sensors.filter((sensor) => sensor.isFire);
+    const involved = new Set<string>();
+    const fireGroups = burning.map((fire) => {
+      const neighbours = sensors.filter(
+        (sensor) => sensor.id !== fire.id && distanceMeters(fire, sensor) <= NEIGHBOUR_RADIUS_METERS,
+      );
+      [fire, ...neighbours].forEach((sensor) => involved.add(sensor.deviceId));
+      return { fire, neighbours };
+    });
+    return { fires: fireGroups, deviceIds: [...involved].sort() };
+  }, [sensors]);
+
+  // Rates refresh as the recorder stores new readings for these devices
+  const history = useSensorsHistory(deviceIds, { windowMs: RATE_WINDOW_MS });
+
+  return React.useMemo(() => {
+    const toSpreadSensor = (sensor: SensorData): SpreadSensor => ({
+      sensor,
+      profile: getProfile(sensor.deviceId),
+      rates: history[sensor.deviceId]?.length ? getMetricRates(history[sensor.deviceId]) : NO_RATES,
+    });
+    return fires.map(({ fire, neighbours }) =>
+      predictSpread(toSpreadSensor(fire), neighbours.map(toSpreadSensor), wind),
+    );
+  }, [fires, history, getProfile, wind]);
+}
@@ -0,0 +1,90 @@
+import * as React from "react";
+
+import { createPersistedStore } from "@/lib/persistedStore";
+import {
+  createDefaultThresholdState,
+  resolveProfile,
+  thresholdStateSchema,
+} from "@/lib/thresholds";
+import type { ThresholdProfile, ThresholdState } from "@/types/thresholds";
+
+export const thresholdStore = createPersistedStore<ThresholdState>(
+  "thresholdProfiles",
+  (raw) => thresholdStateSchema.parse(raw) as ThresholdState,
+  createDefaultThresholdState,
+);
+
+// Non-React accessor for code that classifies readings outside components
+export const getProfileForDevice = (deviceId?: string) =>
+  resolveProfile(thresholdStore.getState(), deviceId);
+
+function saveProfile(profile: ThresholdProfile) {
+  thresholdStore.setState((state) => {
+    const exists = state.profiles.some((p) => p.id === profile.id);
+    return {
+      ...state,
+      profiles: exists
+        ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+        : [...state.profiles, profile],
+    };
+  });
+}
+
+function deleteProfile(profileId: string) {
+  thresholdStore.setState((state) => {
+    if (state.profiles.length <= 1) return state;
+    const profiles = state.profiles.filter((p) => p.id !== profileId);
+    const deviceAssignments = Object.fromEntries(
+      Object.entries(state.deviceAssignments).filter(([, id]) => id !== profileId),
+    );
+    return {
+      profiles,
+      deviceAssignments,
+      activeProfileId:
+        state.activeProfileId === profileId ? profiles[0].id : state.activeProfileId,
+    };
+  });
+}
+
+function setActiveProfile(profileId: string) {
+  thresholdStore.setState((state) => ({ ...state, activeProfileId: profileId }));
+}
+
+// Passing null clears the override so the device follows the active profile
+function assignProfile(deviceId: string, profileId: string | null) {
+  thresholdStore.setState((state) => {
+    const deviceAssignments = { ...state.deviceAssignments };
+    if (profileId) {
+      deviceAssignments[deviceId] = profileId;
+    } else {
+      delete deviceAssignments[deviceId];
+    }
+    return { ...state, deviceAssignments };
+  });
+}
+
+function resetProfiles() {
+  thresholdStore.setState(createDefaultThresholdState());
+}
+
+function useThresholds() {
+  const state = thresholdStore.useStore();
+
+  const getProfile = React.useCallback(
+    (deviceId?: string) => resolveProfile(state, deviceId),
+    [state],
+  );
+
+  return {
+    ...state,
+    activeProfile: resolveProfile(state),
+    getProfile,
+    saveProfile,
+    deleteProfile,
+    setActiveProfile,
+    assignProfile,
+    resetProfiles,
+  };
+}
+
+export { useThresholds };
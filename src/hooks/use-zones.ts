@@ -0,0 +1,54 @@
+import * as React from "react";
+
+import { createPersistedStore } from "@/lib/persistedStore";
+import { assignZones, parseStoredZones, parseZoneGeoJson } from "@/lib/zones";
+import type { ForestZone, ZoneAssignment } from "@/types/zones";
+
+export const zoneStore = createPersistedStore<ForestZone[]>("forestZones", parseStoredZones, () => []);
+
+// Sensors rarely move, so assignments are cached per coordinate until the zones change
+let assignmentCache = new Map<string, ZoneAssignment>();
+zoneStore.subscribe(() => {
+  assignmentCache = new Map();
+});
+
+// Non-React accessor for module code such as exports
+export function getZoneAssignment(latitude: number, longitude: number): ZoneAssignment {
+  const key = `${latitude},${longitude}`;
+  let assignment = assignmentCache.get(key);
+  if (!assignment) {
+    assignment = assignZones(zoneStore.getState(), latitude, longitude);
+    assignmentCache.set(key, assignment);
+  }
+  return assignment;
+}
+
+// Throws with a readable message if the JSON is malformed or not usable GeoJSON
+function importZones(json: string) {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const zones = parseZoneGeoJson(raw);
+  zoneStore.setState(zones);
+  return zones;
+}
+
+function clearZones() {
+  zoneStore.setState([]);
+}
+
+export function useZones() {
+  const zones = zoneStore.useStore();
+
+  // New identity whenever the zones change, so memoised consumers recompute
+  const getAssignment = React.useCallback(
+    (sensor: { latitude: number; longitude: number }): ZoneAssignment =>
+      zones.length === 0 ? {} : getZoneAssignment(sensor.latitude, sensor.longitude),
+    [zones],
+  );
+
+  return { zones, getAssignment, importZones, clearZones };
+}
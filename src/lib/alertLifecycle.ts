@@ -0,0 +1,174 @@
+// src/lib/alertLifecycle.ts
+import { z } from 'zod';
+import { AlertEscalationConfig, AlertEvent, AlertState, FireAlert } from '@/types/alert';
+import { FireAlertSession } from '@/types/session';
+
+export const ALERT_STATES: AlertState[] = ['new', 'acknowledged', 'dispatched', 'contained', 'resolved', 'false_alarm'];
+
+export const ALERT_STATE_LABELS: Record<AlertState, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  dispatched: 'Dispatched',
+  contained: 'Contained',
+  resolved: 'Resolved',
+  false_alarm: 'False alarm',
+};
+
+export const ALERT_STATE_STYLES: Record<AlertState, string> = {
+  new: 'bg-forest-danger text-white',
+  acknowledged: 'bg-forest-warning text-white',
+  dispatched: 'bg-blue-600 text-white',
+  contained: 'bg-indigo-500 text-white',
+  resolved: 'bg-forest-success text-white',
+  false_alarm: 'bg-gray-500 text-white',
+};
+
+// Allowed next states; resolved and false alarm are final
+export const ALERT_TRANSITIONS: Record<AlertState, AlertState[]> = {
+  new: ['acknowledged', 'false_alarm'],
+  acknowledged: ['dispatched', 'contained', 'resolved', 'false_alarm'],
+  dispatched: ['contained', 'resolved', 'false_alarm'],
+  contained: ['resolved'],
+  resolved: [],
+  false_alarm: [],
+};
+
+export const isOpenAlert = (alert: FireAlert) => ALERT_TRANSITIONS[alert.state].length > 0;
+
+export const canTransition = (alert: FireAlert, to: AlertState) => ALERT_TRANSITIONS[alert.state].includes(to);
+
+const stateSchema = z.enum(['new', 'acknowledged', 'dispatched', 'contained', 'resolved', 'false_alarm']);
+
+const eventSchema = z.object({
+  at: z.string(),
+  type: z.enum(['raised', 'escalated', 'transition', 'note', 'sensor_cleared']),
+  by: z.string().optional(),
+  from: stateSchema.optional(),
+  to: stateSchema.optional(),
+  note: z.string().optional(),
+});
+
+const alertSchema = z.object({
+  id: z.string(),
+  sessionId: z.string(),
+  deviceId: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  raisedAt: z.string(),
+  lastRaisedAt: z.string(),
+  state: stateSchema,
+  acknowledgedBy: z.string().optional(),
+  acknowledgedAt: z.string().optional(),
+  escalations: z.number(),
+  events: z.array(eventSchema),
+});
+
+// Alerts that fail validation are dropped individually rather than losing the inbox
+export const parseAlerts = (raw: unknown): FireAlert[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(entry => {
+    const result = alertSchema.safeParse(entry);
+    return result.success ? [result.data as FireAlert] : [];
+  });
+};
+
+const appendEvent = (alert: FireAlert, event: AlertEvent): FireAlert => ({
+  ...alert,
+  events: [...alert.events, event],
+});
+
+const clearedNote = (session: FireAlertSession) =>
+  session.endReason === 'silent' ? 'Sensor stopped reporting; session closed' : 'Sensor readings back to normal';
+
+// Raise an alert for every session that does not have one yet, and note in the
+// trail when a session's sensor clears while its alert is still open. Sessions that
+// opened and closed between two syncs, after `since`, are raised already cleared.
+export const syncAlertsWithSessions = (
+  alerts: FireAlert[],
+  sessions: FireAlertSession[],
+  now: Date,
+  since: Date = now
+): FireAlert[] => {
+  const bySession = new Map(alerts.map(alert => [alert.sessionId, alert]));
+  let changed = false;
+
+  const raised = sessions.flatMap(session => {
+    if (bySession.has(session.id)) return [];
+    const missed = session.status === 'completed' && new Date(session.endTime).getTime() >= since.getTime();
+    if (session.status !== 'active' && !missed) return [];
+    const first = session.readings[session.readings.length - 1];
+    const at = now.toISOString();
+    const events: AlertEvent[] = [
+      { at, type: 'raised', note: `Fire detected by sensor ${session.deviceId} at ${session.startTime}` },
+    ];
+    if (missed) events.push({ at: session.endTime, type: 'sensor_cleared', note: clearedNote(session) });
+    changed = true;
+    return [{
+      // Session ids are deterministic, so every tab raises the same alert
+      id: `alert-${session.id}`,
+      sessionId: session.id,
+      deviceId: session.deviceId,
+      latitude: first?.latitude ?? 0,
+      longitude: first?.longitude ?? 0,
+      raisedAt: at,
+      lastRaisedAt: at,
+      state: 'new' as AlertState,
+      escalations: 0,
+      events,
+    }];
+  });
+
+  const completed = new Map(
+    sessions.filter(session => session.status === 'completed').map(session => [session.id, session])
+  );
+  const updated = alerts.map(alert => {
+    const session = completed.get(alert.sessionId);
+    if (!session || !isOpenAlert(alert) || alert.events.some(event => event.type === 'sensor_cleared')) return alert;
+    changed = true;
+    return appendEvent(alert, { at: session.endTime ?? now.toISOString(), type: 'sensor_cleared', note: clearedNote(session) });
+  });
+
+  return changed ? [...raised, ...updated] : alerts;
+};
+
+// Re-raise alerts nobody has acknowledged within the configured time
+export const escalateAlerts = (alerts: FireAlert[], config: AlertEscalationConfig, now: Date): FireAlert[] => {
+  if (config.escalateAfterMinutes <= 0) return alerts;
+  const dueBefore = now.getTime() - config.escalateAfterMinutes * 60 * 1000;
+  let changed = false;
+
+  const updated = alerts.map(alert => {
+    if (alert.state !== 'new' || new Date(alert.lastRaisedAt).getTime() > dueBefore) return alert;
+    changed = true;
+    const escalations = alert.escalations + 1;
+    const at = now.toISOString();
+    return appendEvent(
+      { ...alert, escalations, lastRaisedAt: at },
+      { at, type: 'escalated', note: `Unacknowledged for ${config.escalateAfterMinutes * escalations} minutes` }
+    );
+  });
+
+  return changed ? updated : alerts;
+};
+
+// Throws when the move is not allowed from the alert's current state
+export const transitionAlert = (
+  alert: FireAlert,
+  to: AlertState,
+  { by, note, now = new Date() }: { by: string; note?: string; now?: Date }
+): FireAlert => {
+  if (!canTransition(alert, to)) {
+    throw new Error(`Cannot move an alert from ${ALERT_STATE_LABELS[alert.state]} to ${ALERT_STATE_LABELS[to]}`);
+  }
+  const at = now.toISOString();
+  const next: FireAlert = { ...alert, state: to };
+  // Leaving 'new' by any route counts as the acknowledgement
+  if (!alert.acknowledgedAt) {
+    next.acknowledgedBy = by;
+    next.acknowledgedAt = at;
+  }
+  return appendEvent(next, { at, type: 'transition', by, from: alert.state, to, note: note?.trim() || undefined });
+};
+
+export const addAlertNote = (alert: FireAlert, { by, note, now = new Date() }: { by: string; note: string; now?: Date }) =>
+  appendEvent(alert, { at: now.toISOString(), type: 'note', by, note: note.trim() });
@@ -0,0 +1,110 @@
+// src/lib/alertNotifications.ts
+import { QuietHours } from '@/types/settings';
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Quiet hours may wrap past midnight, e.g. 22:00 to 06:00
+export const isQuietTime = (quietHours: QuietHours, now: Date = new Date()) => {
+  if (!quietHours.enabled) return false;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  notificationsSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Returns null when notifications are unsupported or not permitted
+export const showBrowserNotification = (
+  title: string,
+  { body, tag, silent, onClick }: { body: string; tag: string; silent: boolean; onClick: () => void }
+) => {
+  if (getNotificationPermission() !== 'granted') return null;
+  try {
+    // Same tag replaces the previous notification for an alert instead of stacking
+    const notification = new Notification(title, { body, tag, silent, requireInteraction: true });
+    notification.onclick = () => {
+      window.focus();
+      onClick();
+      notification.close();
+    };
+    return notification;
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('Browser notification failed:', error);
+    return null;
+  }
+};
+
+const drawFavicon = (count: number, lit: boolean) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 32;
+  canvas.height = 32;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = lit ? '#ef4444' : '#7f1d1d';
+  ctx.beginPath();
+  ctx.arc(16, 16, 15, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 18px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(count > 9 ? '9+' : String(count), 16, 17);
+  return canvas.toDataURL('image/png');
+};
+
+// Shows the active-fire count in the tab title and favicon; while `flashing`
+// both alternate every second so a background tab catches the eye.
+// Returns a function that restores the original title and icon.
+export const showTabAttention = (count: number, flashing: boolean) => {
+  const originalTitle = document.title;
+  const existing = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  const originalHref = existing?.href ?? null;
+  const link = existing ?? document.createElement('link');
+  if (!existing) {
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+
+  const label = `${count} active fire${count === 1 ? '' : 's'}`;
+  const icons = [drawFavicon(count, true), drawFavicon(count, false)];
+  let lit = true;
+
+  const render = () => {
+    document.title = lit ? `🔥 (${count}) ${originalTitle}` : `${flashing ? 'FIRE ALERT' : label} - ${originalTitle}`;
+    const icon = icons[lit ? 0 : 1];
+    if (icon) link.href = icon;
+  };
+  render();
+
+  const timer = flashing
+    ? window.setInterval(() => {
+        lit = !lit;
+        render();
+      }, 1000)
+    : undefined;
+
+  return () => {
+    window.clearInterval(timer);
+    document.title = originalTitle;
+    if (originalHref === null) {
+      link.remove();
+    } else {
+      link.href = originalHref;
+    }
+  };
+};
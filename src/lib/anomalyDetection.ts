@@ -0,0 +1,129 @@
+// src/lib/anomalyDetection.ts
+import { HistoryPoint } from '@/types/history';
+import { AnomalyConfig, AnomalyFinding, AnomalyMetric, AnomalyReport, MetricBaseline, SensorBaseline } from '@/types/anomaly';
+import { AppSettings } from '@/types/settings';
+import { SensorData } from '@/types/sensor';
+import { formatSmoke, formatTemperature, formatTemperatureDelta } from './format';
+
+type Reading = Pick<SensorData, 'temp' | 'humidity' | 'smoke' | 'timestamp'>;
+
+export const ANOMALY_METRICS: AnomalyMetric[] = ['temp', 'humidity', 'smoke'];
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  temp: 'Temperature',
+  humidity: 'Humidity',
+  smoke: 'Smoke',
+};
+
+// Fire pushes temperature and smoke up and humidity down; only that direction is flagged
+const RISK_DIRECTION: Record<AnomalyMetric, 1 | -1> = { temp: 1, humidity: -1, smoke: 1 };
+
+// Stored values per hour of day before that hour gets a baseline
+export const MIN_BASELINE_SAMPLES = 5;
+
+// Lower bound on the standard deviation, so a very steady hour does not turn
+// ordinary sensor noise into an anomaly
+const MIN_STD: Record<AnomalyMetric, number> = { temp: 0.5, humidity: 1, smoke: 2 };
+
+// Mean and standard deviation of every metric per local hour of day. Rollups
+// contribute their bucket average once, and points that reported fire are left
+// out so past incidents do not widen the baseline.
+export const buildBaseline = (points: HistoryPoint[]): SensorBaseline => {
+  const buckets: HistoryPoint[][] = Array.from({ length: 24 }, () => []);
+  points.forEach(point => {
+    if (!point.isFire) buckets[new Date(point.time).getHours()].push(point);
+  });
+
+  return buckets.map(bucket => {
+    if (bucket.length < MIN_BASELINE_SAMPLES) return null;
+    return Object.fromEntries(
+      ANOMALY_METRICS.map(metric => {
+        const values = bucket.map(point => point[metric]);
+        const mean = values.reduce((total, value) => total + value, 0) / values.length;
+        const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / (values.length - 1);
+        return [metric, { mean, std: Math.sqrt(variance), count: values.length }];
+      })
+    ) as Record<AnomalyMetric, MetricBaseline>;
+  });
+};
+
+// Deviations from the hourly baseline, then rapid changes over the recent window.
+// recentPoints should cover config.riseWindowMinutes up to the reading.
+export const detectAnomalies = (
+  reading: Reading,
+  baseline: SensorBaseline | undefined,
+  recentPoints: HistoryPoint[],
+  config: AnomalyConfig
+): AnomalyReport => {
+  const findings: AnomalyFinding[] = [];
+  if (!config.enabled) return { findings };
+
+  const time = new Date(reading.timestamp);
+  const hour = isNaN(time.getTime()) ? null : time.getHours();
+  const hourly = hour === null ? null : baseline?.[hour];
+  if (hourly) {
+    ANOMALY_METRICS.forEach(metric => {
+      const stats = hourly[metric];
+      const zScore = (reading[metric] - stats.mean) / Math.max(stats.std, MIN_STD[metric]);
+      if (zScore * RISK_DIRECTION[metric] >= config.zScore) {
+        findings.push({ kind: 'deviation', metric, value: reading[metric], hour, baseline: stats, zScore });
+      }
+    });
+  }
+
+  if (recentPoints.length > 0) {
+    const limits: Record<AnomalyMetric, number> = {
+      temp: config.tempRiseC,
+      humidity: config.humidityDropPct,
+      smoke: config.smokeRisePpm,
+    };
+    ANOMALY_METRICS.forEach(metric => {
+      // Compare against the least risky value seen in the window
+      const change =
+        RISK_DIRECTION[metric] > 0
+          ? reading[metric] - Math.min(...recentPoints.map(point => point.min[metric]))
+          : reading[metric] - Math.max(...recentPoints.map(point => point.max[metric]));
+      if (change * RISK_DIRECTION[metric] >= limits[metric]) {
+        findings.push({ kind: 'rapid_change', metric, value: reading[metric], change, windowMinutes: config.riseWindowMinutes });
+      }
+    });
+  }
+
+  return { findings };
+};
+
+const formatMetric = (metric: AnomalyMetric, value: number, settings: Pick<AppSettings, 'units' | 'display'>) => {
+  if (metric === 'temp') return formatTemperature(value, settings);
+  if (metric === 'smoke') return formatSmoke(value, settings);
+  return `${Number(value.toFixed(1))}%`;
+};
+
+const formatChange = (metric: AnomalyMetric, change: number, settings: Pick<AppSettings, 'units' | 'display'>) => {
+  const size = Math.abs(change);
+  if (metric === 'temp') return formatTemperatureDelta(size, settings);
+  if (metric === 'smoke') return formatSmoke(size, settings);
+  return `${Number(size.toFixed(1))} points`;
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+// One sentence per finding, e.g. "Temperature rose 9.2°C in 10 min"
+export const explainAnomaly = (finding: AnomalyFinding, settings: Pick<AppSettings, 'units' | 'display'>) => {
+  const label = METRIC_LABELS[finding.metric];
+  if (finding.kind === 'rapid_change') {
+    const verb = finding.change > 0 ? 'rose' : 'fell';
+    return `${label} ${verb} ${formatChange(finding.metric, finding.change, settings)} in ${finding.windowMinutes} min`;
+  }
+  const sigma = Math.abs(finding.zScore).toFixed(1);
+  const side = finding.zScore > 0 ? 'above' : 'below';
+  return `${label} ${formatMetric(finding.metric, finding.value, settings)} is ${sigma}σ ${side} the usual ${formatMetric(
+    finding.metric,
+    finding.baseline.mean,
+    settings
+  )} around ${formatHour(finding.hour)}`;
+};
+
+export const explainAnomalies = (report: AnomalyReport | undefined, settings: Pick<AppSettings, 'units' | 'display'>) =>
+  report?.findings.map(finding => explainAnomaly(finding, settings)) ?? [];
+
+export const hasAnomaly = (sensor: Pick<SensorData, 'anomaly'>) => (sensor.anomaly?.findings.length ?? 0) > 0;
@@ -0,0 +1,133 @@
+// src/lib/fireDanger.ts
+import { FireDangerComponents, FireDangerLevel, FireDangerReport } from '@/types/danger';
+import { HistoryPoint } from '@/types/history';
+import { SensorData } from '@/types/sensor';
+import { AppSettings } from '@/types/settings';
+import { formatSmoke } from './format';
+
+export const FIRE_DANGER_LEVELS: FireDangerLevel[] = ['low', 'moderate', 'high', 'very_high', 'extreme'];
+
+export const DANGER_LABELS: Record<FireDangerLevel, string> = {
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High',
+  very_high: 'Very high',
+  extreme: 'Extreme',
+};
+
+export const DANGER_STYLES: Record<FireDangerLevel, { badge: string; text: string; hex: string }> = {
+  low: { badge: 'bg-green-600 text-white', text: 'text-green-600', hex: '#16a34a' },
+  moderate: { badge: 'bg-lime-500 text-white', text: 'text-lime-600', hex: '#84cc16' },
+  high: { badge: 'bg-amber-500 text-white', text: 'text-amber-600', hex: '#f59e0b' },
+  very_high: { badge: 'bg-orange-600 text-white', text: 'text-orange-600', hex: '#ea580c' },
+  extreme: { badge: 'bg-red-700 text-white', text: 'text-red-700', hex: '#b91c1c' },
+};
+
+// History windows the model reads from
+export const DRYNESS_DAYS = 3;
+export const SMOKE_TREND_MINUTES = 60;
+
+// Weights of the components in the composite score; they sum to 1
+const WEIGHTS: FireDangerComponents = { weather: 0.5, dryness: 0.3, smokeTrend: 0.2 };
+
+// Lower score bound of each level
+const LEVEL_FLOORS: [number, FireDangerLevel][] = [
+  [80, 'extreme'],
+  [60, 'very_high'],
+  [40, 'high'],
+  [20, 'moderate'],
+  [0, 'low'],
+];
+
+// Smoke rising this fast counts as the full trend component
+const SMOKE_TREND_CRITICAL_PPM_PER_HOUR = 50;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Angstrom index: I = H / 20 + (27 - T) / 10, with H in % and T in °C.
+// Below 2.0 fire is very likely, 2.0-2.5 favourable, 2.5-4.0 unfavourable, above 4.0 unlikely.
+export const getAngstromIndex = (temp: number, humidity: number) => humidity / 20 + (27 - temp) / 10;
+
+// 0 at an index of 4 (fire unlikely), 1 at 1 (far into "very likely")
+const weatherRisk = (angstrom: number) => clamp01((4 - angstrom) / 3);
+
+// Mean of each day's lowest humidity, using the stored minimum of rollups.
+// Days start at local midnight; only days with readings count.
+export const getDryHumidity = (points: HistoryPoint[]) => {
+  const dailyMinimum = new Map<string, number>();
+  points.forEach(point => {
+    const day = new Date(point.time).toDateString();
+    dailyMinimum.set(day, Math.min(dailyMinimum.get(day) ?? Infinity, point.min.humidity));
+  });
+  if (dailyMinimum.size === 0) return null;
+  return [...dailyMinimum.values()].reduce((total, value) => total + value, 0) / dailyMinimum.size;
+};
+
+// 0 when the daily low stays at 50 % or above, 1 at 15 % and below
+const drynessRisk = (dryHumidity: number) => clamp01((50 - dryHumidity) / 35);
+
+// Least-squares slope of smoke against time, in ppm per hour
+export const getSmokeTrend = (points: HistoryPoint[]) => {
+  if (points.length < 2) return null;
+  const origin = points[0].time;
+  const xs = points.map(point => (point.time - origin) / 3600000);
+  const meanX = xs.reduce((total, x) => total + x, 0) / xs.length;
+  const meanY = points.reduce((total, point) => total + point.smoke, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (points[index].smoke - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return variance > 0 ? covariance / variance : null;
+};
+
+export const getDangerLevel = (score: number): FireDangerLevel =>
+  LEVEL_FLOORS.find(([floor]) => score >= floor)?.[1] ?? 'low';
+
+// Composite danger from the current reading, the dryness of the past days and the
+// smoke trend. Missing history leaves its component at 0 rather than guessing.
+// A sensor that is reporting fire is always at the top level.
+export const assessFireDanger = (
+  reading: Pick<SensorData, 'temp' | 'humidity' | 'isFire'>,
+  drynessPoints: HistoryPoint[],
+  trendPoints: HistoryPoint[]
+): FireDangerReport => {
+  const angstrom = getAngstromIndex(reading.temp, reading.humidity);
+  const dryHumidity = getDryHumidity(drynessPoints);
+  const smokeTrendPpmPerHour = getSmokeTrend(trendPoints);
+
+  const components: FireDangerComponents = {
+    weather: weatherRisk(angstrom),
+    dryness: dryHumidity === null ? 0 : drynessRisk(dryHumidity),
+    smokeTrend: smokeTrendPpmPerHour === null ? 0 : clamp01(smokeTrendPpmPerHour / SMOKE_TREND_CRITICAL_PPM_PER_HOUR),
+  };
+  const weighted = (Object.keys(WEIGHTS) as (keyof FireDangerComponents)[]).reduce(
+    (total, key) => total + WEIGHTS[key] * components[key],
+    0
+  );
+  const score = reading.isFire ? 100 : Math.round(weighted * 100);
+
+  return { score, level: getDangerLevel(score), angstrom, components, dryHumidity, smokeTrendPpmPerHour };
+};
+
+// Highest danger among sensors that are still reporting; offline sensors carry old readings
+export const getNetworkDanger = (sensors: SensorData[]) => {
+  const reporting = sensors.filter(sensor => sensor.danger && sensor.health?.health !== 'offline');
+  if (reporting.length === 0) return null;
+  const worst = reporting.reduce((max, sensor) => (sensor.danger.score > max.danger.score ? sensor : max));
+  const level = worst.danger.level;
+  const atLevel = reporting.filter(sensor => sensor.danger.level === level).length;
+  return { level, score: worst.danger.score, sensor: worst, atLevel, total: reporting.length };
+};
+
+// "Angstrom 1.8 · 3-day low humidity 22% · smoke +12 ppm/h"
+export const describeFireDanger = (report: FireDangerReport, settings: Pick<AppSettings, 'units' | 'display'>) =>
+  [
+    `Angstrom ${report.angstrom.toFixed(1)}`,
+    report.dryHumidity !== null && `${DRYNESS_DAYS}-day low humidity ${Math.round(report.dryHumidity)}%`,
+    report.smokeTrendPpmPerHour !== null &&
+      `smoke ${report.smokeTrendPpmPerHour >= 0 ? '+' : ''}${formatSmoke(report.smokeTrendPpmPerHour, settings)}/h`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
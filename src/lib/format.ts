@@ -0,0 +1,102 @@
+// src/lib/format.ts
+import { AppSettings } from '@/types/settings';
+
+type FormatSettings = Pick<AppSettings, 'units' | 'display'>;
+
+export const celsiusToFahrenheit = (celsius: number) => celsius * 9 / 5 + 32;
+
+// Converts a °C value for display; thresholds and storage always stay in °C
+export const convertTemperature = (celsius: number, settings: FormatSettings) =>
+  settings.units.temperature === 'fahrenheit' ? celsiusToFahrenheit(celsius) : celsius;
+
+export const temperatureUnitLabel = (settings: FormatSettings) =>
+  settings.units.temperature === 'fahrenheit' ? '°F' : '°C';
+
+export const formatTemperature = (celsius: number, settings: FormatSettings, digits = 1) => {
+  if (typeof celsius !== 'number' || isNaN(celsius)) return `--${temperatureUnitLabel(settings)}`;
+  const value = convertTemperature(celsius, settings);
+  return `${Number(value.toFixed(digits))}${temperatureUnitLabel(settings)}`;
+};
+
+// Temperature differences scale with the unit but have no offset
+export const formatTemperatureDelta = (celsius: number, settings: FormatSettings, digits = 1) => {
+  const value = settings.units.temperature === 'fahrenheit' ? celsius * 9 / 5 : celsius;
+  return `${Number(value.toFixed(digits))}${temperatureUnitLabel(settings)}`;
+};
+
+export const convertSmoke = (ppm: number, settings: FormatSettings) =>
+  settings.units.smoke === 'ppb' ? ppm * 1000 : ppm;
+
+export const smokeUnitLabel = (settings: FormatSettings) => settings.units.smoke;
+
+export const formatSmoke = (ppm: number, settings: FormatSettings, digits = 1) => {
+  if (typeof ppm !== 'number' || isNaN(ppm)) return `-- ${smokeUnitLabel(settings)}`;
+  return `${Number(convertSmoke(ppm, settings).toFixed(digits))} ${smokeUnitLabel(settings)}`;
+};
+
+const timeZoneOption = (settings: FormatSettings) =>
+  settings.display.timeZone === 'local' ? undefined : settings.display.timeZone;
+
+const getParts = (date: Date, settings: FormatSettings) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timeZoneOption(settings),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+  return { day: get('day'), month: get('month'), year: get('year') };
+};
+
+const toDate = (value: string | number | Date) => (value instanceof Date ? value : new Date(value));
+
+// Calendar day ('yyyy-MM-dd') and hour in the display time zone, for grouping by day or hour
+export const getZonedDateParts = (value: string | number | Date, settings: FormatSettings) => {
+  const date = toDate(value);
+  const { day, month, year } = getParts(date, settings);
+  const hour = Number(
+    new Intl.DateTimeFormat('en-GB', { timeZone: timeZoneOption(settings), hour: '2-digit', hour12: false }).format(date)
+  );
+  // Some engines render midnight as 24 without an hour cycle
+  return { day: `${year}-${month}-${day}`, hour: hour % 24 };
+};
+
+export const formatDate = (value: string | number | Date, settings: FormatSettings) => {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return 'N/A';
+
+  const { day, month, year } = getParts(date, settings);
+  switch (settings.display.dateFormat) {
+    case 'dd/MM/yyyy':
+      return `${day}/${month}/${year}`;
+    case 'MM/dd/yyyy':
+      return `${month}/${day}/${year}`;
+    case 'yyyy-MM-dd':
+      return `${year}-${month}-${day}`;
+    default:
+      return date.toLocaleDateString(undefined, { timeZone: timeZoneOption(settings) });
+  }
+};
+
+export const formatTime = (
+  value: string | number | Date,
+  settings: FormatSettings,
+  options: { seconds?: boolean } = {}
+) => {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return 'N/A';
+
+  return date.toLocaleTimeString(undefined, {
+    timeZone: timeZoneOption(settings),
+    hour: '2-digit',
+    minute: '2-digit',
+    second: options.seconds === false ? undefined : '2-digit',
+    hour12: settings.display.hour12,
+  });
+};
+
+export const formatDateTime = (value: string | number | Date, settings: FormatSettings) => {
+  const date = toDate(value);
+  if (isNaN(date.getTime())) return 'N/A';
+  return `${formatDate(date, settings)}, ${formatTime(date, settings)}`;
+};
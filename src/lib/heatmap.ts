@@ -0,0 +1,86 @@
+// src/lib/heatmap.ts
+import { SensorData } from '@/types/sensor';
+import { ThresholdProfile } from '@/types/thresholds';
+
+export type HeatMetric = 'temp' | 'smoke' | 'humidity';
+
+export const HEAT_METRICS: HeatMetric[] = ['temp', 'smoke', 'humidity'];
+
+export const HEAT_METRIC_LABELS: Record<HeatMetric, string> = {
+  temp: 'Temperature heat',
+  smoke: 'Smoke heat',
+  humidity: 'Dryness (humidity) heat',
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Map a reading onto 0..1 against the sensor's own profile: 0.5 at the warning
+// level and 1 at critical, so sensors on different profiles share one colour scale
+export const getMetricRisk = (
+  metric: HeatMetric,
+  reading: Pick<SensorData, 'temp' | 'smoke' | 'humidity'>,
+  profile: ThresholdProfile
+) => {
+  if (metric === 'humidity') {
+    // Humidity is a floor: drier is worse
+    const { humidity } = reading;
+    if (humidity >= profile.humidityWarning) {
+      return clamp01(0.5 * (100 - humidity) / Math.max(1, 100 - profile.humidityWarning));
+    }
+    return clamp01(0.5 + 0.5 * (profile.humidityWarning - humidity) / (profile.humidityWarning - profile.humidityCritical));
+  }
+
+  const value = metric === 'temp' ? reading.temp : reading.smoke;
+  const warning = metric === 'temp' ? profile.tempWarning : profile.smokeWarning;
+  const critical = metric === 'temp' ? profile.tempCritical : profile.smokeCritical;
+  if (value <= warning) return clamp01(0.5 * value / Math.max(1, warning));
+  return clamp01(0.5 + 0.5 * (value - warning) / (critical - warning));
+};
+
+// Green through amber to red, matching the status colours
+const RAMP: Array<[number, [number, number, number]]> = [
+  [0, [34, 197, 94]],
+  [0.5, [245, 158, 11]],
+  [1, [239, 68, 68]],
+];
+
+export const riskColor = (risk: number): [number, number, number] => {
+  const value = clamp01(risk);
+  const upper = RAMP.findIndex(([stop]) => stop >= value);
+  if (upper <= 0) return RAMP[0][1];
+  const [fromStop, from] = RAMP[upper - 1];
+  const [toStop, to] = RAMP[upper];
+  const t = (value - fromStop) / (toStop - fromStop);
+  return [0, 1, 2].map(i => Math.round(from[i] + (to[i] - from[i]) * t)) as [number, number, number];
+};
+
+export interface HeatPoint {
+  x: number;
+  y: number;
+  value: number;
+}
+
+// Inverse distance weighting over the points within `radius` of (x, y).
+// `coverage` falls from 1 at a sensor to 0 at the edge of its radius so the
+// layer fades out where there is no data instead of extrapolating.
+export const interpolateAt = (points: HeatPoint[], x: number, y: number, radius: number) => {
+  const radiusSquared = radius * radius;
+  let weightSum = 0;
+  let valueSum = 0;
+  let nearestSquared = Infinity;
+
+  for (const point of points) {
+    const dx = point.x - x;
+    const dy = point.y - y;
+    const distanceSquared = dx * dx + dy * dy;
+    if (distanceSquared > radiusSquared) continue;
+    if (distanceSquared < 1) return { value: point.value, coverage: 1 };
+    const weight = 1 / distanceSquared;
+    weightSum += weight;
+    valueSum += weight * point.value;
+    nearestSquared = Math.min(nearestSquared, distanceSquared);
+  }
+
+  if (weightSum === 0) return null;
+  return { value: valueSum / weightSum, coverage: 1 - Math.sqrt(nearestSquared) / radius };
+};
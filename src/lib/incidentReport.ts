@@ -0,0 +1,527 @@
+// src/lib/incidentReport.ts
+import type { jsPDF } from 'jspdf';
+import { SessionAnnotation } from '@/types/annotation';
+import { FireAlertSession, SensorReading } from '@/types/session';
+import { AppSettings } from '@/types/settings';
+import { ThresholdProfile } from '@/types/thresholds';
+import { convertSmoke, convertTemperature, formatDateTime, formatSmoke, formatTemperature, smokeUnitLabel, temperatureUnitLabel } from './format';
+import { formatSessionTags } from './sessionAnnotations';
+import { renderStaticMap } from './staticMap';
+import { getStatusLevel, STATUS_STYLES } from './thresholds';
+
+type FormatSettings = Pick<AppSettings, 'units' | 'display'>;
+
+export interface IncidentReportInput {
+  session: FireAlertSession;
+  // Newest first, as shown on the Reports page
+  readings: SensorReading[];
+  sensorName: string;
+  // Registry details and zones as label/value pairs
+  details: { label: string; value: string }[];
+  location: { latitude: number; longitude: number } | null;
+  profile: ThresholdProfile;
+  settings: FormatSettings;
+  // Operator tags, root cause and notes, when the session has any
+  annotation?: SessionAnnotation;
+  generatedAt?: Date;
+}
+
+export interface TimelineEvent {
+  time: number;
+  label: string;
+}
+
+// A4 portrait, millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 12;
+
+const BRAND_GREEN: [number, number, number] = [22, 101, 52];
+const MUTED: [number, number, number] = [100, 116, 139];
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime();
+
+// Key moments of the session, oldest first: opening, first warning and fire readings,
+// the peaks, the last fire reading and closing
+export const buildIncidentTimeline = (
+  session: FireAlertSession,
+  readings: SensorReading[],
+  profile: ThresholdProfile,
+  settings: FormatSettings
+): TimelineEvent[] => {
+  const ordered = [...readings].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+  const events: TimelineEvent[] = [{ time: toTime(session.startTime), label: 'Fire alert session opened' }];
+
+  const firstWarning = ordered.find(reading => getStatusLevel(reading, profile) === 'warning');
+  const firstFire = ordered.find(reading => reading.isFire);
+  const lastFire = [...ordered].reverse().find(reading => reading.isFire);
+  if (firstWarning && (!firstFire || toTime(firstWarning.timestamp) < toTime(firstFire.timestamp))) {
+    events.push({ time: toTime(firstWarning.timestamp), label: 'First reading at warning level' });
+  }
+  if (firstFire) events.push({ time: toTime(firstFire.timestamp), label: 'Device first reported fire' });
+
+  if (ordered.length > 0) {
+    const peak = (pick: (a: SensorReading, b: SensorReading) => boolean) =>
+      ordered.reduce((best, reading) => (pick(reading, best) ? reading : best));
+    const hottest = peak((a, b) => a.temp > b.temp);
+    const smokiest = peak((a, b) => a.smoke > b.smoke);
+    const driest = peak((a, b) => a.humidity < b.humidity);
+    events.push(
+      { time: toTime(hottest.timestamp), label: `Peak temperature ${formatTemperature(hottest.temp, settings)}` },
+      { time: toTime(smokiest.timestamp), label: `Peak smoke ${formatSmoke(smokiest.smoke, settings)}` },
+      { time: toTime(driest.timestamp), label: `Lowest humidity ${driest.humidity}%` }
+    );
+  }
+
+  if (lastFire && lastFire !== firstFire) {
+    events.push({ time: toTime(lastFire.timestamp), label: 'Last fire reading' });
+  }
+  if (session.endTime) {
+    const label = session.endReason === 'silent' ? 'Sensor stopped reporting; session closed' : 'Session closed, sensor clear';
+    events.push({ time: toTime(session.endTime), label });
+  }
+
+  return events.filter(event => Number.isFinite(event.time)).sort((a, b) => a.time - b.time);
+};
+
+const formatDuration = (session: FireAlertSession, now: number) => {
+  const end = session.endTime ? toTime(session.endTime) : now;
+  const minutes = Math.max(0, Math.round((end - toTime(session.startTime)) / 60000));
+  const hours = Math.floor(minutes / 60);
+  const duration = hours > 0 ? `${hours} h ${minutes % 60} min` : `${minutes} min`;
+  return session.endTime ? duration : `${duration} (ongoing)`;
+};
+
+// Writes the document top to bottom and starts a new page when a block does not fit
+const createWriter = (doc: jsPDF) => {
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(14);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor(...BRAND_GREEN);
+    doc.text(text, MARGIN, y);
+    doc.setDrawColor(...BRAND_GREEN);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, y + 1.5, MARGIN + CONTENT_WIDTH, y + 1.5);
+    y += 7;
+    doc.setTextColor(0, 0, 0);
+  };
+
+  // Two columns of label/value pairs
+  const fields = (pairs: { label: string; value: string }[]) => {
+    const columnWidth = CONTENT_WIDTH / 2;
+    for (let index = 0; index < pairs.length; index += 2) {
+      const row = pairs.slice(index, index + 2).map(pair => ({
+        ...pair,
+        lines: doc.splitTextToSize(pair.value, columnWidth - 4) as string[],
+      }));
+      const height = 4 + Math.max(...row.map(cell => cell.lines.length)) * 4.5;
+      ensureSpace(height + 1);
+      row.forEach((cell, column) => {
+        const x = MARGIN + column * columnWidth;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor(...MUTED);
+        doc.text(cell.label, x, y);
+        doc.setFontSize(10);
+        doc.setTextColor(0, 0, 0);
+        doc.text(cell.lines, x, y + 4.5);
+      });
+      y += height + 1;
+    }
+  };
+
+  // Full-width label/value pairs for text that runs over several lines
+  const paragraphs = (entries: { label: string; text: string }[]) => {
+    entries.forEach(entry => {
+      const lines = doc.splitTextToSize(entry.text, CONTENT_WIDTH) as string[];
+      ensureSpace(4 + Math.min(lines.length, 6) * 4.5);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...MUTED);
+      doc.text(entry.label, MARGIN, y);
+      doc.setFontSize(10);
+      doc.setTextColor(0, 0, 0);
+      y += 4.5;
+      lines.forEach(line => {
+        ensureSpace(4.5);
+        doc.text(line, MARGIN, y);
+        y += 4.5;
+      });
+      y += 2;
+    });
+  };
+
+  const table = (headers: string[], rows: string[][], widths: number[]) => {
+    const rowHeight = 7;
+    const drawRow = (cells: string[], header: boolean) => {
+      ensureSpace(rowHeight);
+      if (header) {
+        doc.setFillColor(240, 253, 244);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, rowHeight, 'F');
+      }
+      doc.setFont('helvetica', header ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      let x = MARGIN;
+      cells.forEach((cell, index) => {
+        doc.text(cell, x + 2, y + 4.8);
+        x += widths[index];
+      });
+      doc.setDrawColor(226, 232, 240);
+      doc.line(MARGIN, y + rowHeight, MARGIN + CONTENT_WIDTH, y + rowHeight);
+      y += rowHeight;
+    };
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+    y += 3;
+  };
+
+  return {
+    get y() {
+      return y;
+    },
+    set y(value: number) {
+      y = value;
+    },
+    ensureSpace,
+    heading,
+    fields,
+    paragraphs,
+    table,
+  };
+};
+
+interface ChartSpec {
+  title: string;
+  color: string;
+  values: { time: number; value: number; isFire: boolean }[];
+  warning: number;
+  critical: number;
+  format: (value: number) => string;
+}
+
+// Vector line chart with the warning and critical levels, and fire readings shaded
+const drawChart = (doc: jsPDF, spec: ChartSpec, x: number, y: number, width: number, height: number, settings: FormatSettings) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(0, 0, 0);
+  doc.text(spec.title, x, y);
+
+  const top = y + 3;
+  const left = x + 16;
+  const plotWidth = width - 16;
+  const plotHeight = height - 10;
+  doc.setDrawColor(203, 213, 225);
+  doc.setLineWidth(0.2);
+  doc.rect(left, top, plotWidth, plotHeight);
+
+  const values = spec.values;
+  if (values.length < 2) {
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...MUTED);
+    doc.text('Not enough readings to chart', left + plotWidth / 2, top + plotHeight / 2, { align: 'center' });
+    return;
+  }
+
+  const start = values[0].time;
+  const end = values[values.length - 1].time;
+  const span = Math.max(1, end - start);
+  const numbers = values.map(point => point.value);
+  // Keep the warning level in view so the line reads against it
+  let min = Math.min(...numbers, spec.warning);
+  let max = Math.max(...numbers, spec.warning);
+  if (max === min) {
+    max += 1;
+    min -= 1;
+  }
+  const padding = (max - min) * 0.1;
+  min -= padding;
+  max += padding;
+  const toX = (time: number) => left + ((time - start) / span) * plotWidth;
+  const toY = (value: number) => top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+
+  // Fire readings as shaded columns
+  doc.setFillColor(254, 226, 226);
+  values.forEach((point, index) => {
+    if (!point.isFire) return;
+    const next = values[index + 1] ?? point;
+    doc.rect(toX(point.time), top, Math.max(0.3, toX(next.time) - toX(point.time)), plotHeight, 'F');
+  });
+
+  [
+    { value: spec.warning, color: STATUS_STYLES.warning.hex },
+    { value: spec.critical, color: STATUS_STYLES.fire.hex },
+  ].forEach(level => {
+    if (level.value < min || level.value > max) return;
+    doc.setDrawColor(...hexToRgb(level.color));
+    doc.setLineDashPattern([1.5, 1], 0);
+    doc.line(left, toY(level.value), left + plotWidth, toY(level.value));
+    doc.setLineDashPattern([], 0);
+  });
+
+  doc.setDrawColor(...hexToRgb(spec.color));
+  doc.setLineWidth(0.5);
+  values.slice(1).forEach((point, index) => {
+    const previous = values[index];
+    doc.line(toX(previous.time), toY(previous.value), toX(point.time), toY(point.value));
+  });
+  doc.setLineWidth(0.2);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor(...MUTED);
+  [max, (max + min) / 2, min].forEach(value => {
+    doc.text(spec.format(value), left - 1.5, toY(value) + 1, { align: 'right' });
+  });
+  doc.text(formatDateTime(start, settings), left, top + plotHeight + 4);
+  doc.text(formatDateTime(end, settings), left + plotWidth, top + plotHeight + 4, { align: 'right' });
+  doc.setTextColor(0, 0, 0);
+};
+
+// Simple vector emblem: a tree inside a ring, in the dashboard's green
+const drawLogo = (doc: jsPDF, x: number, y: number, size: number) => {
+  const radius = size / 2;
+  doc.setFillColor(...BRAND_GREEN);
+  doc.circle(x + radius, y + radius, radius, 'F');
+  doc.setFillColor(255, 255, 255);
+  doc.triangle(x + radius, y + size * 0.18, x + size * 0.25, y + size * 0.62, x + size * 0.75, y + size * 0.62, 'F');
+  doc.rect(x + radius - size * 0.05, y + size * 0.62, size * 0.1, size * 0.18, 'F');
+};
+
+const drawFooters = (doc: jsPDF, session: FireAlertSession, generatedAt: string) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, PAGE_HEIGHT - MARGIN - 4, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN - 4);
+    doc.text(`Incident ${session.id} · generated ${generatedAt}`, MARGIN, PAGE_HEIGHT - MARGIN);
+    doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN, { align: 'right' });
+  }
+};
+
+// Formal incident report for filing with the division office. jsPDF is loaded on
+// demand so it stays out of the main bundle.
+export const generateIncidentReport = async (input: IncidentReportInput) => {
+  const { session, readings, sensorName, details, location, profile, settings, annotation } = input;
+  const generatedAt = input.generatedAt ?? new Date();
+  const generatedLabel = formatDateTime(generatedAt, settings);
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = createWriter(doc);
+
+  // Header
+  drawLogo(doc, MARGIN, MARGIN, 16);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...BRAND_GREEN);
+  doc.text('Forest Fire Incident Report', MARGIN + 20, MARGIN + 6);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...MUTED);
+  doc.text('Forest Sensor Network · automated fire detection', MARGIN + 20, MARGIN + 11);
+  doc.text(`Report generated ${generatedLabel}`, MARGIN + 20, MARGIN + 15);
+  const status = session.status === 'active' ? 'ACTIVE' : 'CLOSED';
+  doc.setFillColor(...hexToRgb(session.status === 'active' ? STATUS_STYLES.fire.hex : STATUS_STYLES.normal.hex));
+  doc.roundedRect(PAGE_WIDTH - MARGIN - 24, MARGIN + 2, 24, 8, 1.5, 1.5, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(255, 255, 255);
+  doc.text(status, PAGE_WIDTH - MARGIN - 12, MARGIN + 7.3, { align: 'center' });
+  writer.y = MARGIN + 22;
+
+  writer.heading('Incident summary');
+  writer.fields([
+    { label: 'Incident ID', value: session.id },
+    {
+      label: 'Status',
+      value:
+        session.status === 'active'
+          ? 'Active at time of report'
+          : session.endReason === 'silent'
+            ? 'Closed, sensor stopped reporting'
+            : 'Closed',
+    },
+    { label: 'Detected', value: formatDateTime(session.startTime, settings) },
+    { label: 'Closed', value: session.endTime ? formatDateTime(session.endTime, settings) : '--' },
+    { label: 'Duration', value: formatDuration(session, generatedAt.getTime()) },
+    { label: 'Readings analysed', value: String(readings.length) },
+  ]);
+
+  writer.heading('Device and location');
+  writer.fields([
+    { label: 'Sensor', value: sensorName },
+    { label: 'Device ID', value: session.deviceId },
+    {
+      label: 'Coordinates',
+      value: location ? `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}` : 'Not recorded',
+    },
+    { label: 'Threshold profile', value: profile.name },
+    ...details,
+  ]);
+
+  if (location) {
+    const mapWidth = CONTENT_WIDTH;
+    const mapHeight = 70;
+    const snapshot = await renderStaticMap(location.latitude, location.longitude, { width: 720, height: 336, zoom: 14 });
+    writer.ensureSpace(mapHeight + 4);
+    if (snapshot) {
+      doc.addImage(snapshot, 'PNG', MARGIN, writer.y, mapWidth, mapHeight);
+    } else {
+      doc.setDrawColor(203, 213, 225);
+      doc.rect(MARGIN, writer.y, mapWidth, mapHeight);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(...MUTED);
+      doc.text('Map snapshot unavailable (map tiles could not be loaded)', MARGIN + mapWidth / 2, writer.y + mapHeight / 2, {
+        align: 'center',
+      });
+      doc.setTextColor(0, 0, 0);
+    }
+    writer.y += mapHeight + 4;
+  }
+
+  writer.heading('Timeline');
+  writer.table(
+    ['Time', 'Event'],
+    buildIncidentTimeline(session, readings, profile, settings).map(event => [formatDateTime(event.time, settings), event.label]),
+    [55, CONTENT_WIDTH - 55]
+  );
+
+  writer.heading('Readings');
+  const temperatureUnit = temperatureUnitLabel(settings);
+  const smokeUnit = smokeUnitLabel(settings);
+  writer.table(
+    ['Metric', 'Minimum', 'Maximum', 'Average'],
+    [
+      [
+        'Temperature',
+        formatTemperature(session.minTemp, settings),
+        formatTemperature(session.maxTemp, settings),
+        formatTemperature(session.avgTemp, settings),
+      ],
+      [
+        'Humidity',
+        `${session.minHumidity.toFixed(1)}%`,
+        `${session.maxHumidity.toFixed(1)}%`,
+        `${session.avgHumidity.toFixed(1)}%`,
+      ],
+      [
+        'Smoke',
+        formatSmoke(session.minSmoke, settings),
+        formatSmoke(session.maxSmoke, settings),
+        formatSmoke(session.avgSmoke, settings),
+      ],
+    ],
+    [45, 45, 45, CONTENT_WIDTH - 135]
+  );
+
+  writer.heading('Charts');
+  const ordered = [...readings].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+  const series = (pick: (reading: SensorReading) => number) =>
+    ordered.map(reading => ({ time: toTime(reading.timestamp), value: pick(reading), isFire: reading.isFire }));
+  const charts: ChartSpec[] = [
+    {
+      title: `Temperature (${temperatureUnit})`,
+      color: '#ef4444',
+      values: series(reading => convertTemperature(reading.temp, settings)),
+      warning: convertTemperature(profile.tempWarning, settings),
+      critical: convertTemperature(profile.tempCritical, settings),
+      format: value => value.toFixed(0),
+    },
+    {
+      title: `Smoke (${smokeUnit})`,
+      color: '#6b7280',
+      values: series(reading => convertSmoke(reading.smoke, settings)),
+      warning: convertSmoke(profile.smokeWarning, settings),
+      critical: convertSmoke(profile.smokeCritical, settings),
+      format: value => value.toFixed(0),
+    },
+    {
+      title: 'Humidity (%)',
+      color: '#3b82f6',
+      values: series(reading => reading.humidity),
+      warning: profile.humidityWarning,
+      critical: profile.humidityCritical,
+      format: value => value.toFixed(0),
+    },
+  ];
+  const chartHeight = 52;
+  charts.forEach(chart => {
+    writer.ensureSpace(chartHeight + 4);
+    drawChart(doc, chart, MARGIN, writer.y + 2, CONTENT_WIDTH, chartHeight, settings);
+    writer.y += chartHeight + 6;
+  });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED);
+  doc.text('Shaded: fire reported · dashed: warning and critical levels', MARGIN, writer.y);
+  doc.setTextColor(0, 0, 0);
+  writer.y += 4;
+
+  writer.heading('Classification and notes');
+  writer.fields([
+    { label: 'Tags', value: formatSessionTags(annotation?.tags) || 'Not classified' },
+    {
+      label: 'Photos',
+      value: annotation?.attachments.length ? `${annotation.attachments.length} kept with the dashboard records` : 'None',
+    },
+  ]);
+  writer.paragraphs([
+    { label: 'Root cause', text: annotation?.rootCause || 'Not recorded' },
+    ...(annotation?.notes ?? []).map(note => ({
+      label: `${formatDateTime(note.at, settings)} · ${note.by}`,
+      text: note.text,
+    })),
+  ]);
+
+  // Sign-off, kept on one page
+  writer.heading('Sign-off');
+  writer.ensureSpace(62);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const signatureLines = [
+    ['Reporting officer (name)', 'Designation'],
+    ['Signature', 'Date'],
+    ['Reviewed by, division office', 'Date received'],
+  ];
+  signatureLines.forEach(([leftLabel, rightLabel]) => {
+    writer.y += 12;
+    doc.setDrawColor(100, 116, 139);
+    doc.line(MARGIN, writer.y, MARGIN + CONTENT_WIDTH / 2 - 8, writer.y);
+    doc.line(MARGIN + CONTENT_WIDTH / 2 + 8, writer.y, MARGIN + CONTENT_WIDTH, writer.y);
+    doc.setTextColor(...MUTED);
+    doc.text(leftLabel, MARGIN, writer.y + 4);
+    doc.text(rightLabel, MARGIN + CONTENT_WIDTH / 2 + 8, writer.y + 4);
+  });
+  writer.y += 10;
+  doc.text('Remarks:', MARGIN, writer.y + 4);
+  doc.setDrawColor(203, 213, 225);
+  doc.rect(MARGIN, writer.y + 6, CONTENT_WIDTH, 16);
+  doc.setTextColor(0, 0, 0);
+
+  drawFooters(doc, session, generatedLabel);
+  return doc;
+};
+
+export const getIncidentReportFileName = (session: FireAlertSession) =>
+  `fire-incident-${session.deviceId}-${session.startTime.slice(0, 10)}.pdf`;
@@ -0,0 +1,112 @@
+// src/lib/leafletHeatLayer.ts
+import L from 'leaflet';
+import { HeatPoint, interpolateAt, riskColor } from './heatmap';
+
+// Screen pixels per interpolated cell; lower is sharper but slower
+const CELL_SIZE = 8;
+// How far a sensor's reading spreads, with a floor so it stays visible when zoomed out
+const INFLUENCE_METERS = 4000;
+const MIN_INFLUENCE_PX = 40;
+const MAX_ALPHA = 0.55;
+
+export interface HeatSample {
+  lat: number;
+  lng: number;
+  // 0..1 risk, see getMetricRisk
+  value: number;
+}
+
+export interface HeatLayer extends L.Layer {
+  setSamples: (samples: HeatSample[]) => void;
+}
+
+const metersPerPixel = (map: L.Map) => {
+  const center = map.getCenter();
+  return (40075016.686 * Math.cos((center.lat * Math.PI) / 180)) / Math.pow(2, map.getZoom() + 8);
+};
+
+interface HeatLayerInternals {
+  _map: L.Map;
+  _canvas?: HTMLCanvasElement;
+  _samples: HeatSample[];
+  _redraw: () => void;
+}
+
+// Canvas overlay that interpolates sensor values between sensors (inverse
+// distance weighting) and redraws whenever the map moves or the data changes
+const HeatLayerClass = L.Layer.extend({
+  initialize(this: HeatLayerInternals) {
+    this._samples = [];
+  },
+
+  onAdd(this: HeatLayerInternals, map: L.Map) {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    map.getPane('overlayPane')?.appendChild(canvas);
+    this._canvas = canvas;
+    this._redraw = this._redraw.bind(this);
+    map.on('moveend zoomend resize', this._redraw);
+    this._redraw();
+    return this;
+  },
+
+  onRemove(this: HeatLayerInternals, map: L.Map) {
+    map.off('moveend zoomend resize', this._redraw);
+    this._canvas?.remove();
+    this._canvas = undefined;
+    return this;
+  },
+
+  setSamples(this: HeatLayerInternals, samples: HeatSample[]) {
+    this._samples = samples;
+    if (this._map) this._redraw();
+  },
+
+  _redraw(this: HeatLayerInternals) {
+    const map = this._map;
+    const canvas = this._canvas;
+    if (!map || !canvas) return;
+
+    const size = map.getSize();
+    canvas.width = size.x;
+    canvas.height = size.y;
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx || this._samples.length === 0) return;
+
+    const radius = Math.max(MIN_INFLUENCE_PX, INFLUENCE_METERS / metersPerPixel(map));
+    const points: HeatPoint[] = this._samples
+      .map(sample => {
+        const point = map.latLngToContainerPoint([sample.lat, sample.lng]);
+        return { x: point.x, y: point.y, value: sample.value };
+      })
+      .filter(point => point.x > -radius && point.y > -radius && point.x < size.x + radius && point.y < size.y + radius);
+
+    // Interpolate on a coarse grid, then let the browser smooth it when scaling up
+    const columns = Math.ceil(size.x / CELL_SIZE);
+    const rows = Math.ceil(size.y / CELL_SIZE);
+    const image = ctx.createImageData(columns, rows);
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const sample = interpolateAt(points, (column + 0.5) * CELL_SIZE, (row + 0.5) * CELL_SIZE, radius);
+        if (!sample) continue;
+        const [r, g, b] = riskColor(sample.value);
+        const offset = (row * columns + column) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = Math.round(255 * MAX_ALPHA * Math.min(1, sample.coverage * 2));
+      }
+    }
+
+    const grid = document.createElement('canvas');
+    grid.width = columns;
+    grid.height = rows;
+    grid.getContext('2d')?.putImageData(image, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(grid, 0, 0, columns * CELL_SIZE, rows * CELL_SIZE);
+  },
+});
+
+export const createHeatLayer = (): HeatLayer => new (HeatLayerClass as unknown as new () => HeatLayer)();
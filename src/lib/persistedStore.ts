@@ -0,0 +1,85 @@
+import * as React from "react";
+
+export interface PersistedStore<T> {
+  getState: () => T;
+  setState: (update: T | ((state: T) => T)) => void;
+  subscribe: (listener: (state: T) => void) => () => void;
+  useStore: () => T;
+}
+
+// Module-level store in the style of use-toast, mirrored to localStorage and
+// kept in sync across tabs through the storage event
+export function createPersistedStore<T>(
+  storageKey: string,
+  parse: (raw: unknown) => T,
+  fallback: () => T,
+): PersistedStore<T> {
+  const listeners: Array<(state: T) => void> = [];
+  let memoryState: T | undefined;
+
+  const read = (): T => {
+    if (typeof window === "undefined") return fallback();
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      return raw === null ? fallback() : parse(JSON.parse(raw));
+    } catch (error) {
+      console.warn(`Ignoring unreadable ${storageKey} in localStorage:`, error);
+      return fallback();
+    }
+  };
+
+  const getState = () => {
+    if (memoryState === undefined) {
+      memoryState = read();
+    }
+    return memoryState;
+  };
+
+  const emit = () => {
+    listeners.forEach((listener) => {
+      listener(memoryState as T);
+    });
+  };
+
+  const setState = (update: T | ((state: T) => T)) => {
+    memoryState =
+      typeof update === "function" ? (update as (state: T) => T)(getState()) : update;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(memoryState));
+    } catch (error) {
+      console.error(`Failed to persist ${storageKey}:`, error);
+    }
+    emit();
+  };
+
+  const subscribe = (listener: (state: T) => void) => {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  };
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("storage", (event) => {
+      if (event.key !== storageKey) return;
+      memoryState = read();
+      emit();
+    });
+  }
+
+  function useStore() {
+    const [state, setLocalState] = React.useState<T>(getState);
+
+    React.useEffect(() => {
+      setLocalState(getState());
+      return subscribe(setLocalState);
+    }, []);
+
+    return state;
+  }
+
+  return { getState, setState, subscribe, useStore };
+}
@@ -0,0 +1,358 @@
+// src/lib/readingHistory.ts
+import { hasCompleteReading, normalizeSensor } from '@/api/sensorNormalization';
+import { AlertData } from '@/types/sensor';
+import {
+  HistoryMetrics,
+  HistoryPoint,
+  HistoryResolution,
+  RawReading,
+  ReadingRollup,
+  RetentionPolicy,
+} from '@/types/history';
+
+const DB_NAME = 'vanrakshak-history';
+const DB_VERSION = 1;
+const READINGS = 'readings';
+const ROLLUPS = 'rollups';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const BUCKET_MS: Record<ReadingRollup['resolution'], number> = {
+  minute: MINUTE_MS,
+  hour: HOUR_MS,
+};
+
+// Readings are keyed [deviceId, time] and rollups [deviceId, resolution, time],
+// so per-device range queries are plain key ranges
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const readings = db.createObjectStore(READINGS, { keyPath: ['deviceId', 'time'] });
+        readings.createIndex('time', 'time');
+        const rollups = db.createObjectStore(ROLLUPS, { keyPath: ['deviceId', 'resolution', 'time'] });
+        rollups.createIndex('resolutionTime', ['resolution', 'time']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('History transaction aborted'));
+  });
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const bucketStart = (time: number, resolution: ReadingRollup['resolution']) =>
+  Math.floor(time / BUCKET_MS[resolution]) * BUCKET_MS[resolution];
+
+const mapMetrics = (fn: (key: keyof HistoryMetrics) => number): HistoryMetrics => ({
+  temp: fn('temp'),
+  humidity: fn('humidity'),
+  smoke: fn('smoke'),
+});
+
+const rollupFromReading = (reading: RawReading, resolution: ReadingRollup['resolution']): ReadingRollup => ({
+  deviceId: reading.deviceId,
+  resolution,
+  time: bucketStart(reading.time, resolution),
+  count: 1,
+  fireCount: reading.isFire ? 1 : 0,
+  min: mapMetrics(key => reading[key]),
+  max: mapMetrics(key => reading[key]),
+  sum: mapMetrics(key => reading[key]),
+});
+
+export const mergeRollups = (a: ReadingRollup, b: ReadingRollup): ReadingRollup => ({
+  ...a,
+  count: a.count + b.count,
+  fireCount: a.fireCount + b.fireCount,
+  min: mapMetrics(key => Math.min(a.min[key], b.min[key])),
+  max: mapMetrics(key => Math.max(a.max[key], b.max[key])),
+  sum: mapMetrics(key => a.sum[key] + b.sum[key]),
+});
+
+// Group rollups (or single-reading rollups) into coarser buckets
+const aggregate = (items: ReadingRollup[], resolution: ReadingRollup['resolution']) => {
+  const buckets = new Map<string, ReadingRollup>();
+  items.forEach(item => {
+    const time = bucketStart(item.time, resolution);
+    const key = `${item.deviceId}|${time}`;
+    const rebucketed = { ...item, resolution, time };
+    const existing = buckets.get(key);
+    buckets.set(key, existing ? mergeRollups(existing, rebucketed) : rebucketed);
+  });
+  return Array.from(buckets.values());
+};
+
+// Same validation as every page, so numeric strings are stored and placeholders are not
+const toRawReading = (alert: AlertData): RawReading | null => {
+  if (!alert.deviceId) return null;
+  const sensor = normalizeSensor(alert);
+  if (!hasCompleteReading(sensor)) return null;
+  return {
+    deviceId: sensor.deviceId,
+    time: new Date(sensor.timestamp).getTime(),
+    temp: sensor.temp,
+    humidity: sensor.humidity,
+    smoke: sensor.smoke,
+    isFire: sensor.isFire,
+  };
+};
+
+// Last timestamp written per device, so repeated polls of an unchanged reading skip the write
+const lastRecorded = new Map<string, number>();
+
+// Stores every reading not seen before and returns the ones that were new
+export const recordReadings = async (alerts: AlertData[]): Promise<RawReading[]> => {
+  const fresh = alerts
+    .map(toRawReading)
+    .filter((reading): reading is RawReading => !!reading && lastRecorded.get(reading.deviceId) !== reading.time);
+  if (fresh.length === 0) return [];
+
+  const db = await openDb();
+  const tx = db.transaction(READINGS, 'readwrite');
+  const store = tx.objectStore(READINGS);
+  fresh.forEach(reading => store.put(reading));
+  await transactionDone(tx);
+
+  fresh.forEach(reading => lastRecorded.set(reading.deviceId, Math.max(lastRecorded.get(reading.deviceId) ?? 0, reading.time)));
+  return fresh;
+};
+
+const pointFromReading = (reading: RawReading): HistoryPoint => ({
+  deviceId: reading.deviceId,
+  time: reading.time,
+  resolution: 'raw',
+  count: 1,
+  isFire: reading.isFire,
+  temp: reading.temp,
+  humidity: reading.humidity,
+  smoke: reading.smoke,
+  min: mapMetrics(key => reading[key]),
+  max: mapMetrics(key => reading[key]),
+});
+
+const pointFromRollup = (rollup: ReadingRollup): HistoryPoint => ({
+  deviceId: rollup.deviceId,
+  time: rollup.time,
+  resolution: rollup.resolution,
+  count: rollup.count,
+  isFire: rollup.fireCount > 0,
+  ...mapMetrics(key => Number((rollup.sum[key] / rollup.count).toFixed(2))),
+  min: rollup.min,
+  max: rollup.max,
+});
+
+// Everything stored for a device between from and to (inclusive), oldest first.
+// Older stretches come back as minute or hour averages once they have been compacted.
+export const queryHistory = async (deviceId: string, from: number, to: number): Promise<HistoryPoint[]> => {
+  const db = await openDb();
+  const tx = db.transaction([READINGS, ROLLUPS]);
+  const rollups = tx.objectStore(ROLLUPS);
+  const rollupRange = (resolution: ReadingRollup['resolution']) =>
+    IDBKeyRange.bound([deviceId, resolution, bucketStart(from, resolution)], [deviceId, resolution, to]);
+
+  const [raw, minutes, hours] = await Promise.all([
+    requestResult<RawReading[]>(tx.objectStore(READINGS).getAll(IDBKeyRange.bound([deviceId, from], [deviceId, to]))),
+    requestResult<ReadingRollup[]>(rollups.getAll(rollupRange('minute'))),
+    requestResult<ReadingRollup[]>(rollups.getAll(rollupRange('hour'))),
+  ]);
+
+  return [...hours.map(pointFromRollup), ...minutes.map(pointFromRollup), ...raw.map(pointFromReading)].sort(
+    (a, b) => a.time - b.time
+  );
+};
+
+// Live monitoring for these devices. "?ids=a,b,c" keeps commas readable instead of URLSearchParams' %2C
+export const getMonitoringPath = (deviceIds: string[]) =>
+  deviceIds.length > 0 ? `/monitoring?ids=${deviceIds.map(encodeURIComponent).join(',')}` : '/monitoring';
+
+// The same range for several devices, by device id
+export const queryDevicesHistory = async (
+  deviceIds: string[],
+  from: number,
+  to: number
+): Promise<Record<string, HistoryPoint[]>> => {
+  const entries = await Promise.all(
+    deviceIds.map(async deviceId => [deviceId, await queryHistory(deviceId, from, to)] as const)
+  );
+  return Object.fromEntries(entries);
+};
+
+// Re-aggregate history points into fixed buckets, e.g. to keep long chart windows light
+export const downsamplePoints = (points: HistoryPoint[], bucketMs: number): HistoryPoint[] => {
+  const buckets = new Map<number, HistoryPoint[]>();
+  points.forEach(point => {
+    const time = Math.floor(point.time / bucketMs) * bucketMs;
+    buckets.set(time, [...(buckets.get(time) ?? []), point]);
+  });
+
+  return Array.from(buckets.entries()).map(([time, group]) => {
+    const count = group.reduce((total, point) => total + point.count, 0);
+    // Report the coarsest resolution that went into the bucket
+    const resolution: HistoryResolution = group.some(point => point.resolution === 'hour')
+      ? 'hour'
+      : group.some(point => point.resolution === 'minute') ? 'minute' : 'raw';
+    return {
+      deviceId: group[0].deviceId,
+      time,
+      resolution,
+      count,
+      isFire: group.some(point => point.isFire),
+      ...mapMetrics(key => Number((group.reduce((total, point) => total + point[key] * point.count, 0) / count).toFixed(2))),
+      min: mapMetrics(key => Math.min(...group.map(point => point.min[key]))),
+      max: mapMetrics(key => Math.max(...group.map(point => point.max[key]))),
+    };
+  });
+};
+
+// Fold source items into target-resolution rollups inside one transaction, then delete the sources.
+// onWritten runs once every rollup write has been queued, so requests made from it see them.
+const rollUp = (
+  tx: IDBTransaction,
+  sources: Array<RawReading | ReadingRollup>,
+  toRollup: (item: RawReading | ReadingRollup) => ReadingRollup,
+  deleteSource: (item: RawReading | ReadingRollup) => void,
+  resolution: ReadingRollup['resolution'],
+  onWritten: () => void
+) => {
+  const rollups = tx.objectStore(ROLLUPS);
+  const buckets = aggregate(sources.map(toRollup), resolution);
+  sources.forEach(deleteSource);
+  if (buckets.length === 0) {
+    onWritten();
+    return;
+  }
+  let pending = buckets.length;
+  buckets.forEach(bucket => {
+    const existing = rollups.get([bucket.deviceId, resolution, bucket.time]);
+    existing.onsuccess = () => {
+      rollups.put(existing.result ? mergeRollups(existing.result as ReadingRollup, bucket) : bucket);
+      pending -= 1;
+      if (pending === 0) onWritten();
+    };
+  });
+};
+
+export interface CompactionResult {
+  rawRolledUp: number;
+  minutesRolledUp: number;
+  hoursDeleted: number;
+}
+
+// Apply the retention policy: raw -> minute -> hour -> deleted
+export const compactHistory = async (policy: RetentionPolicy, now = Date.now()): Promise<CompactionResult> => {
+  const db = await openDb();
+  const tx = db.transaction([READINGS, ROLLUPS], 'readwrite');
+  const readings = tx.objectStore(READINGS);
+  const rollups = tx.objectStore(ROLLUPS);
+  const result: CompactionResult = { rawRolledUp: 0, minutesRolledUp: 0, hoursDeleted: 0 };
+
+  const deleteExpiredHours = () => {
+    const hourCursor = rollups
+      .index('resolutionTime')
+      .openCursor(IDBKeyRange.bound(['hour', -Infinity], ['hour', now - policy.hourDays * DAY_MS], false, true));
+    hourCursor.onsuccess = () => {
+      const cursor = hourCursor.result;
+      if (!cursor) return;
+      cursor.delete();
+      result.hoursDeleted += 1;
+      cursor.continue();
+    };
+  };
+
+  // Minute rollups are read after this pass's own are written, so they cascade in the same run
+  const rollUpMinutes = () => {
+    const minuteRequest = rollups
+      .index('resolutionTime')
+      .getAll(IDBKeyRange.bound(['minute', -Infinity], ['minute', now - policy.minuteDays * DAY_MS], false, true));
+    minuteRequest.onsuccess = () => {
+      const minutes = minuteRequest.result as ReadingRollup[];
+      result.minutesRolledUp = minutes.length;
+      rollUp(
+        tx,
+        minutes,
+        item => item as ReadingRollup,
+        item => rollups.delete([item.deviceId, 'minute', item.time]),
+        'hour',
+        deleteExpiredHours
+      );
+    };
+  };
+
+  // Each step runs from the previous request's callback so the transaction stays active
+  const rawRequest = readings.index('time').getAll(IDBKeyRange.upperBound(now - policy.rawHours * HOUR_MS, true));
+  rawRequest.onsuccess = () => {
+    const raw = rawRequest.result as RawReading[];
+    result.rawRolledUp = raw.length;
+    rollUp(
+      tx,
+      raw,
+      item => rollupFromReading(item as RawReading, 'minute'),
+      item => readings.delete([item.deviceId, item.time]),
+      'minute',
+      rollUpMinutes
+    );
+  };
+
+  await transactionDone(tx);
+  return result;
+};
+
+export interface HistoryStats {
+  readings: number;
+  rollups: number;
+  oldest: number | null;
+}
+
+export const getHistoryStats = async (): Promise<HistoryStats> => {
+  const db = await openDb();
+  const tx = db.transaction([READINGS, ROLLUPS]);
+  const rollupIndex = tx.objectStore(ROLLUPS).index('resolutionTime');
+  const [readings, rollups, oldestHour, oldestMinute, oldestRaw] = await Promise.all([
+    requestResult(tx.objectStore(READINGS).count()),
+    requestResult(tx.objectStore(ROLLUPS).count()),
+    requestResult(rollupIndex.openCursor(IDBKeyRange.bound(['hour', -Infinity], ['hour', Infinity]))),
+    requestResult(rollupIndex.openCursor(IDBKeyRange.bound(['minute', -Infinity], ['minute', Infinity]))),
+    requestResult(tx.objectStore(READINGS).index('time').openCursor()),
+  ]);
+  const oldestTimes = [oldestHour, oldestMinute, oldestRaw]
+    .filter((cursor): cursor is IDBCursorWithValue => !!cursor)
+    .map(cursor => (cursor.value as { time: number }).time);
+
+  return { readings, rollups, oldest: oldestTimes.length > 0 ? Math.min(...oldestTimes) : null };
+};
+
+export const clearHistory = async () => {
+  const db = await openDb();
+  const tx = db.transaction([READINGS, ROLLUPS], 'readwrite');
+  tx.objectStore(READINGS).clear();
+  tx.objectStore(ROLLUPS).clear();
+  await transactionDone(tx);
+  lastRecorded.clear();
+};
@@ -0,0 +1,89 @@
+// src/lib/sensorHealth.ts
+import { HistoryPoint } from '@/types/history';
+import { HealthConfig, SensorHealth, SensorHealthReport } from '@/types/health';
+import { SensorData } from '@/types/sensor';
+
+export const SENSOR_HEALTH_STATES: SensorHealth[] = ['healthy', 'stale', 'faulty', 'offline'];
+
+export const HEALTH_LABELS: Record<SensorHealth, string> = {
+  healthy: 'Healthy',
+  stale: 'Stale',
+  faulty: 'Faulty',
+  offline: 'Offline',
+};
+
+export const HEALTH_STYLES: Record<SensorHealth, { badge: string; text: string; hex: string }> = {
+  healthy: { badge: 'bg-emerald-100 text-emerald-800', text: 'text-emerald-700', hex: '#10b981' },
+  stale: { badge: 'bg-slate-200 text-slate-700', text: 'text-slate-600', hex: '#94a3b8' },
+  faulty: { badge: 'bg-purple-100 text-purple-800', text: 'text-purple-700', hex: '#9333ea' },
+  offline: { badge: 'bg-slate-700 text-white', text: 'text-slate-700', hex: '#475569' },
+};
+
+// What the deployed hardware can physically report; anything outside is a sensor fault
+const MEASURABLE_RANGES: { metric: 'temp' | 'humidity' | 'smoke'; label: string; min: number; max: number; unit: string }[] = [
+  { metric: 'temp', label: 'Temperature', min: -40, max: 125, unit: '°C' },
+  { metric: 'humidity', label: 'Humidity', min: 0, max: 100, unit: '%' },
+  { metric: 'smoke', label: 'Smoke', min: 0, max: 10000, unit: ' ppm' },
+];
+
+export const getRangeIssues = (reading: Pick<SensorData, 'temp' | 'humidity' | 'smoke'>) =>
+  MEASURABLE_RANGES.flatMap(({ metric, label, min, max, unit }) => {
+    const value = reading[metric];
+    if (value < min) return [`${label} ${value}${unit} is below the sensor minimum of ${min}${unit}`];
+    if (value > max) return [`${label} ${value}${unit} is above the sensor maximum of ${max}${unit}`];
+    return [];
+  });
+
+// Flat-lined when every stored reading over the whole window, and the latest one,
+// carries exactly the same values. Real sensors always show some noise.
+export const isFlatlined = (
+  reading: Pick<SensorData, 'temp' | 'humidity' | 'smoke'>,
+  points: HistoryPoint[],
+  windowMs: number
+) => {
+  if (windowMs <= 0 || points.length === 0) return false;
+  const count = points.reduce((total, point) => total + point.count, 0);
+  const span = points[points.length - 1].time - points[0].time;
+  // Tolerate one missed reading at either end of the window
+  if (count < 3 || span < windowMs * 0.8) return false;
+
+  return (['temp', 'humidity', 'smoke'] as const).every(metric =>
+    points.every(point => point.min[metric] === reading[metric] && point.max[metric] === reading[metric])
+  );
+};
+
+const formatAge = (ageMs: number) => {
+  const minutes = Math.floor(ageMs / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h ${minutes % 60} min`;
+  return `${Math.floor(hours / 24)} days`;
+};
+
+// Offline outranks a fault, which outranks a stale reading: each needs a different response
+export const assessSensorHealth = (
+  sensor: SensorData,
+  config: HealthConfig,
+  now: number,
+  flatlined = false
+): SensorHealthReport => {
+  const time = new Date(sensor.timestamp).getTime();
+  const ageMs = Number.isFinite(time) ? Math.max(0, now - time) : 0;
+  const issues: string[] = [];
+
+  const offline = ageMs >= config.offlineAfterMinutes * 60000;
+  const stale = ageMs >= config.staleAfterMinutes * 60000;
+  if (stale) issues.push(`No reading for ${formatAge(ageMs)}`);
+
+  const faults = getRangeIssues(sensor);
+  if (flatlined) faults.push(`Readings unchanged for ${config.flatlineMinutes} min`);
+  issues.push(...faults);
+
+  const health: SensorHealth = offline ? 'offline' : faults.length > 0 ? 'faulty' : stale ? 'stale' : 'healthy';
+  return { health, issues, ageMs };
+};
+
+export const countByHealth = (sensors: SensorData[]) =>
+  Object.fromEntries(
+    SENSOR_HEALTH_STATES.map(state => [state, sensors.filter(sensor => (sensor.health?.health ?? 'healthy') === state).length])
+  ) as Record<SensorHealth, number>;
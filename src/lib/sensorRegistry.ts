@@ -0,0 +1,135 @@
+// src/lib/sensorRegistry.ts
+import { z } from 'zod';
+import { SensorData } from '@/types/sensor';
+import { SensorMetadata, SensorRegistry } from '@/types/registry';
+import { parseCsv, toCsvRow } from './csv';
+
+type MetadataField = Exclude<keyof SensorMetadata, 'updatedAt'>;
+
+// CSV columns in export order; imports also accept the labels as headers
+export const REGISTRY_COLUMNS: { key: MetadataField; label: string }[] = [
+  { key: 'deviceId', label: 'Device ID' },
+  { key: 'name', label: 'Name' },
+  { key: 'installDate', label: 'Install date' },
+  { key: 'mountingHeightM', label: 'Mounting height (m)' },
+  { key: 'ranger', label: 'Responsible ranger' },
+  { key: 'hardwareRevision', label: 'Hardware revision' },
+  { key: 'notes', label: 'Notes' },
+];
+
+const optionalText = z
+  .string()
+  .trim()
+  .max(500, 'At most 500 characters')
+  .optional()
+  .transform(value => value || undefined);
+
+// Shared by the registry editor and CSV import, so both reject the same values
+export const sensorMetadataSchema = z.object({
+  deviceId: z.string().trim().min(1, 'Device ID is required'),
+  name: optionalText,
+  installDate: z
+    .string()
+    .trim()
+    .optional()
+    .transform(value => value || undefined)
+    .refine(value => value === undefined || /^\d{4}-\d{2}-\d{2}$/.test(value), 'Use YYYY-MM-DD'),
+  mountingHeightM: z
+    .union([z.number(), z.string()])
+    .optional()
+    .transform(value => (value === undefined || value === '' ? undefined : Number(value)))
+    .refine(value => value === undefined || (Number.isFinite(value) && value >= 0 && value <= 100), 'Between 0 and 100 m'),
+  ranger: optionalText,
+  hardwareRevision: optionalText,
+  notes: z
+    .string()
+    .trim()
+    .max(2000, 'At most 2000 characters')
+    .optional()
+    .transform(value => value || undefined),
+});
+
+export type SensorMetadataInput = z.input<typeof sensorMetadataSchema>;
+
+const storedSchema = z.object({ updatedAt: z.string() }).passthrough();
+
+// Entries that fail validation are dropped individually rather than losing the registry
+export const parseRegistry = (raw: unknown): SensorRegistry => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.values(raw).flatMap(entry => {
+      const stored = storedSchema.safeParse(entry);
+      const fields = sensorMetadataSchema.safeParse(entry);
+      if (!stored.success || !fields.success) return [];
+      const metadata = { ...fields.data, updatedAt: stored.data.updatedAt } as SensorMetadata;
+      return [[metadata.deviceId, metadata]];
+    })
+  );
+};
+
+// Registry details win over what the API sends, including the display name
+export const applySensorMetadata = (sensor: SensorData, registry: SensorRegistry): SensorData => {
+  const metadata = registry[sensor.deviceId];
+  if (!metadata) return sensor;
+  return { ...sensor, name: metadata.name ?? sensor.name, metadata };
+};
+
+// Label/value pairs for the fields the operator filled in, in column order
+export const getMetadataDetails = (metadata: SensorMetadata | undefined) =>
+  REGISTRY_COLUMNS.flatMap(({ key, label }) => {
+    const value = metadata?.[key];
+    if (key === 'deviceId' || key === 'name' || value === undefined || value === '') return [];
+    return [{ label, value: key === 'mountingHeightM' ? `${value} m` : String(value) }];
+  });
+
+export const getSensorDisplayName = (deviceId: string, registry: SensorRegistry) =>
+  registry[deviceId]?.name ?? `Sensor ${deviceId}`;
+
+export const registryToCsv = (entries: SensorMetadata[]) =>
+  [
+    toCsvRow(REGISTRY_COLUMNS.map(column => column.label)),
+    ...entries.map(entry => toCsvRow(REGISTRY_COLUMNS.map(column => entry[column.key]))),
+  ].join('\n');
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+// Parses every row before anything is saved, so a bad file changes nothing.
+// Only the columns present in the file are returned, so partial sheets update
+// those fields and keep the rest.
+export const parseRegistryCsv = (text: string): Partial<SensorMetadata>[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error('The file is empty');
+
+  const columns = header.map(cell =>
+    REGISTRY_COLUMNS.find(
+      column => normalizeHeader(cell) === normalizeHeader(column.key) || normalizeHeader(cell) === normalizeHeader(column.label)
+    )
+  );
+  const deviceIdIndex = columns.findIndex(column => column?.key === 'deviceId');
+  if (deviceIdIndex === -1) throw new Error('The file needs a "Device ID" column');
+  if (rows.length === 0) throw new Error('The file has no sensor rows');
+
+  const seen = new Set<string>();
+  return rows.map((cells, index) => {
+    const raw: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      if (column) raw[column.key] = cells[columnIndex] ?? '';
+    });
+
+    const result = sensorMetadataSchema.safeParse(raw);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const column = REGISTRY_COLUMNS.find(({ key }) => key === issue.path[0]);
+      throw new Error(`Row ${index + 2}, ${column?.label ?? 'value'}: ${issue.message}`);
+    }
+    if (seen.has(result.data.deviceId)) {
+      throw new Error(`Row ${index + 2}: device ${result.data.deviceId} appears more than once`);
+    }
+    seen.add(result.data.deviceId);
+
+    // Keep present-but-empty columns as undefined so they clear the stored value
+    return Object.fromEntries(
+      Object.keys(raw).map(key => [key, result.data[key as MetadataField]])
+    ) as Partial<SensorMetadata>;
+  });
+};
@@ -0,0 +1,154 @@
+// src/lib/sessionAnalytics.ts
+import { AppSettings } from '@/types/settings';
+import { FireAlertSession } from '@/types/session';
+import { formatDate, getZonedDateParts } from './format';
+
+type FormatSettings = Pick<AppSettings, 'units' | 'display'>;
+
+export type AnalyticsPeriod = 'day' | 'week' | 'month';
+
+export interface PeriodCount {
+  // 'yyyy-MM-dd' of the first day in the period, or 'yyyy-MM' for months
+  key: string;
+  count: number;
+}
+
+export interface CalendarDay {
+  day: string;
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Peak temperatures are binned in °C; the page converts the labels
+export const PEAK_TEMPERATURE_BIN_C = 10;
+
+// Calendar keys are plain dates, so the arithmetic is done in UTC to stay clear of DST
+const dayToUtc = (day: string) => Date.UTC(Number(day.slice(0, 4)), Number(day.slice(5, 7)) - 1, Number(day.slice(8, 10)));
+const utcToDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Weeks start on Monday
+const startOfWeek = (day: string) => {
+  const time = dayToUtc(day);
+  return utcToDay(time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS);
+};
+
+const getPeriodKey = (day: string, period: AnalyticsPeriod) =>
+  period === 'day' ? day : period === 'week' ? startOfWeek(day) : day.slice(0, 7);
+
+const nextPeriodKey = (key: string, period: AnalyticsPeriod) => {
+  if (period === 'month') {
+    const next = new Date(Date.UTC(Number(key.slice(0, 4)), Number(key.slice(5, 7)), 1));
+    return utcToDay(next.getTime()).slice(0, 7);
+  }
+  return utcToDay(dayToUtc(key) + (period === 'day' ? 1 : 7) * DAY_MS);
+};
+
+export const getSessionDay = (session: FireAlertSession, settings: FormatSettings) =>
+  getZonedDateParts(session.startTime, settings).day;
+
+// Active sessions count up to now
+export const getSessionDurationMs = (session: FireAlertSession, now = Date.now()) =>
+  Math.max(0, (session.endTime ? new Date(session.endTime).getTime() : now) - new Date(session.startTime).getTime());
+
+export const getMeanDurationMs = (sessions: FireAlertSession[], now = Date.now()) =>
+  sessions.length === 0
+    ? null
+    : sessions.reduce((total, session) => total + getSessionDurationMs(session, now), 0) / sessions.length;
+
+// Sessions started per period, with empty periods filled in so the axis is continuous
+export const countFiresByPeriod = (
+  sessions: FireAlertSession[],
+  period: AnalyticsPeriod,
+  settings: FormatSettings
+): PeriodCount[] => {
+  if (sessions.length === 0) return [];
+  const counts = new Map<string, number>();
+  sessions.forEach(session => {
+    const key = getPeriodKey(getSessionDay(session, settings), period);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  const keys = [...counts.keys()].sort();
+  const result: PeriodCount[] = [];
+  for (let key = keys[0]; key <= keys[keys.length - 1]; key = nextPeriodKey(key, period)) {
+    result.push({ key, count: counts.get(key) ?? 0 });
+  }
+  return result;
+};
+
+// One column per week (Monday first) from the week of `from` to the week of `to`
+export const buildCalendarHeatmap = (
+  sessions: FireAlertSession[],
+  from: string,
+  to: string,
+  settings: FormatSettings
+): CalendarDay[][] => {
+  const counts = new Map<string, number>();
+  sessions.forEach(session => {
+    const day = getSessionDay(session, settings);
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  });
+
+  const weeks: CalendarDay[][] = [];
+  for (let week = startOfWeek(from); week <= to; week = nextPeriodKey(week, 'week')) {
+    weeks.push(
+      Array.from({ length: 7 }, (_, offset) => {
+        const day = utcToDay(dayToUtc(week) + offset * DAY_MS);
+        return { day, count: counts.get(day) ?? 0 };
+      })
+    );
+  }
+  return weeks;
+};
+
+// Sessions per device, with how many of them operators marked as false alarms
+export const getTopDevices = (
+  sessions: FireAlertSession[],
+  limit = 10,
+  isFalseAlarm: (session: FireAlertSession) => boolean = () => false
+) => {
+  const counts = new Map<string, { count: number; falseAlarms: number }>();
+  sessions.forEach(session => {
+    const entry = counts.get(session.deviceId) ?? { count: 0, falseAlarms: 0 };
+    entry.count += 1;
+    if (isFalseAlarm(session)) entry.falseAlarms += 1;
+    counts.set(session.deviceId, entry);
+  });
+  return [...counts.entries()]
+    .map(([deviceId, entry]) => ({ deviceId, ...entry }))
+    .sort((a, b) => b.count - a.count || a.deviceId.localeCompare(b.deviceId))
+    .slice(0, limit);
+};
+
+// Histogram of each session's maximum temperature, lower bound inclusive
+export const getPeakTemperatureDistribution = (sessions: FireAlertSession[], binWidth = PEAK_TEMPERATURE_BIN_C) => {
+  if (sessions.length === 0) return [];
+  const bins = sessions.map(session => Math.floor(session.maxTemp / binWidth));
+  const first = Math.min(...bins);
+  const last = Math.max(...bins);
+  return Array.from({ length: last - first + 1 }, (_, index) => {
+    const bin = first + index;
+    return { from: bin * binWidth, to: (bin + 1) * binWidth, count: bins.filter(value => value === bin).length };
+  });
+};
+
+// Sessions started in each hour of the day, in the display time zone
+export const getHourOfDayCounts = (sessions: FireAlertSession[], settings: FormatSettings) => {
+  const counts = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+  sessions.forEach(session => {
+    counts[getZonedDateParts(session.startTime, settings).hour].count += 1;
+  });
+  return counts;
+};
+
+// Calendar keys are already in the display time zone, so they are formatted as UTC
+export const formatCalendarDay = (day: string, settings: FormatSettings) =>
+  formatDate(dayToUtc(day), { ...settings, display: { ...settings.display, timeZone: 'UTC' } });
+
+export const formatPeriodKey = (key: string, period: AnalyticsPeriod, settings: FormatSettings) =>
+  period === 'month'
+    ? new Date(dayToUtc(`${key}-01`)).toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : formatCalendarDay(key, settings);
+
+export const shiftCalendarDay = (day: string, days: number) => utcToDay(dayToUtc(day) + days * DAY_MS);
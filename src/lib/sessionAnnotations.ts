@@ -0,0 +1,83 @@
+// src/lib/sessionAnnotations.ts
+import { z } from 'zod';
+import { SessionAnnotation, SessionAnnotations, SessionTag } from '@/types/annotation';
+
+export const SESSION_TAGS: SessionTag[] = ['confirmed_fire', 'false_alarm', 'controlled_burn', 'sensor_fault', 'drill'];
+
+export const SESSION_TAG_LABELS: Record<SessionTag, string> = {
+  confirmed_fire: 'Confirmed fire',
+  false_alarm: 'False alarm',
+  controlled_burn: 'Controlled burn',
+  sensor_fault: 'Sensor fault',
+  drill: 'Drill',
+};
+
+export const SESSION_TAG_STYLES: Record<SessionTag, string> = {
+  confirmed_fire: 'bg-red-100 text-red-800 border-red-200',
+  false_alarm: 'bg-slate-100 text-slate-700 border-slate-200',
+  controlled_burn: 'bg-orange-100 text-orange-800 border-orange-200',
+  sensor_fault: 'bg-sky-100 text-sky-800 border-sky-200',
+  drill: 'bg-violet-100 text-violet-800 border-violet-200',
+};
+
+export const NOTE_MAX_LENGTH = 2000;
+export const ROOT_CAUSE_MAX_LENGTH = 1000;
+// Photos live in IndexedDB, which has room, but phone photos are large
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const annotationSchema = z
+  .object({
+    sessionId: z.string(),
+    tags: z.array(z.enum(SESSION_TAGS as [SessionTag, ...SessionTag[]])),
+    rootCause: z.string().optional(),
+    notes: z.array(z.object({ id: z.string(), at: z.string(), by: z.string(), text: z.string() })),
+    attachments: z.array(
+      z.object({ id: z.string(), name: z.string(), type: z.string(), size: z.number(), addedAt: z.string() })
+    ),
+    updatedAt: z.string(),
+  })
+  // Built field by field so the output is checked against the type
+  .transform(
+    (annotation): SessionAnnotation => ({
+      sessionId: annotation.sessionId,
+      tags: annotation.tags,
+      rootCause: annotation.rootCause,
+      notes: annotation.notes.map(note => ({ id: note.id, at: note.at, by: note.by, text: note.text })),
+      attachments: annotation.attachments.map(attachment => ({
+        id: attachment.id,
+        name: attachment.name,
+        type: attachment.type,
+        size: attachment.size,
+        addedAt: attachment.addedAt,
+      })),
+      updatedAt: annotation.updatedAt,
+    })
+  );
+
+// Entries that fail validation are dropped individually rather than losing every annotation
+export const parseSessionAnnotations = (raw: unknown): SessionAnnotations => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.values(raw).flatMap(entry => {
+      const result = annotationSchema.safeParse(entry);
+      return result.success ? [[result.data.sessionId, result.data]] : [];
+    })
+  );
+};
+
+export const createEmptyAnnotation = (sessionId: string): SessionAnnotation => ({
+  sessionId,
+  tags: [],
+  notes: [],
+  attachments: [],
+  updatedAt: new Date().toISOString(),
+});
+
+export const createAnnotationId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const formatSessionTags = (tags: SessionTag[] | undefined) =>
+  (tags ?? []).map(tag => SESSION_TAG_LABELS[tag]).join(', ');
+
+// Text the Reports search looks through besides the device
+export const getAnnotationSearchText = (annotation: SessionAnnotation | undefined) =>
+  annotation ? [annotation.rootCause, ...annotation.notes.map(note => note.text)].filter(Boolean).join(' ') : '';
@@ -0,0 +1,82 @@
+// src/lib/sessionAttachments.ts
+
+// Photo blobs for session annotations. localStorage only holds their details;
+// the images are far too large for it, so they live in their own IndexedDB database.
+const DB_NAME = 'vanrakshak-attachments';
+const DB_VERSION = 1;
+const PHOTOS = 'photos';
+
+interface StoredPhoto {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const photos = request.result.createObjectStore(PHOTOS, { keyPath: 'id' });
+        photos.createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Attachment transaction aborted'));
+  });
+
+export const savePhoto = async (id: string, sessionId: string, blob: Blob) => {
+  const db = await openDb();
+  const photo: StoredPhoto = { id, sessionId, blob };
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  tx.objectStore(PHOTOS).put(photo);
+  await transactionDone(tx);
+};
+
+export const loadPhoto = async (id: string): Promise<Blob | null> => {
+  const db = await openDb();
+  const request = db.transaction(PHOTOS, 'readonly').objectStore(PHOTOS).get(id);
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve((request.result as StoredPhoto | undefined)?.blob ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deletePhoto = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  tx.objectStore(PHOTOS).delete(id);
+  await transactionDone(tx);
+};
+
+export const deleteSessionPhotos = async (sessionId: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PHOTOS, 'readwrite');
+  const request = tx.objectStore(PHOTOS).index('sessionId').openCursor(IDBKeyRange.only(sessionId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
@@ -0,0 +1,290 @@
+// src/lib/sessionEngine.ts
+import { z } from 'zod';
+import { AlertData } from '@/types/sensor';
+import { FireAlertSession, SensorReading, SessionEngineConfig } from '@/types/session';
+import { ThresholdProfile } from '@/types/thresholds';
+import { classifySensorStatus, hasCompleteReading, normalizeSensor } from '@/api/sensorNormalization';
+import { getStatusLevel } from './thresholds';
+
+// Readings embedded in a session as a fallback when the reading history is unavailable
+export const MAX_EMBEDDED_READINGS = 200;
+// Completed sessions are kept indefinitely, so they keep a thinner sample to fit in
+// localStorage; the full series stays in the reading history
+export const MAX_COMPLETED_READINGS = 50;
+
+// Readings saved by the Live Monitoring page before the engine may lack the descriptive fields
+const readingSchema = z
+  .object({
+    id: z.string().optional(),
+    deviceId: z.string(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    temp: z.number(),
+    smoke: z.number(),
+    humidity: z.number(),
+    isFire: z.boolean(),
+    timestamp: z.string(),
+    name: z.string().optional(),
+    status: z.string().optional(),
+  })
+  .transform(
+    (reading): SensorReading => ({
+      id: reading.id ?? reading.deviceId,
+      deviceId: reading.deviceId,
+      latitude: reading.latitude,
+      longitude: reading.longitude,
+      humidity: reading.humidity,
+      temp: reading.temp,
+      smoke: reading.smoke,
+      isFire: reading.isFire,
+      timestamp: reading.timestamp,
+      name: reading.name ?? `Sensor ${reading.deviceId}`,
+      status: reading.status ?? '',
+    })
+  );
+
+const sessionSchema = z
+  .object({
+    id: z.string(),
+    deviceId: z.string(),
+    startTime: z.string(),
+    endTime: z.string().nullable(),
+    readings: z.array(readingSchema),
+    readingCount: z.number().optional(),
+    maxTemp: z.number(),
+    minTemp: z.number(),
+    avgTemp: z.number(),
+    maxSmoke: z.number(),
+    minSmoke: z.number(),
+    avgSmoke: z.number(),
+    maxHumidity: z.number(),
+    minHumidity: z.number(),
+    avgHumidity: z.number(),
+    status: z.enum(['active', 'completed']),
+    endReason: z.enum(['cleared', 'silent']).optional(),
+  })
+  // Built field by field so the output is checked against the type
+  .transform(
+    (session): FireAlertSession => ({
+      id: session.id,
+      deviceId: session.deviceId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      readings: session.readings,
+      readingCount: session.readingCount,
+      maxTemp: session.maxTemp,
+      minTemp: session.minTemp,
+      avgTemp: session.avgTemp,
+      maxSmoke: session.maxSmoke,
+      minSmoke: session.minSmoke,
+      avgSmoke: session.avgSmoke,
+      maxHumidity: session.maxHumidity,
+      minHumidity: session.minHumidity,
+      avgHumidity: session.avgHumidity,
+      status: session.status,
+      endReason: session.endReason,
+    })
+  );
+
+// Sessions that fail validation are dropped individually rather than losing the whole list
+export const parseSessions = (raw: unknown): FireAlertSession[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(entry => {
+    const result = sessionSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+};
+
+export const getReadingCount = (session: FireAlertSession) => session.readingCount ?? session.readings.length;
+
+// Where the session was recorded: its oldest embedded reading, which carries the coordinates
+export const getSessionLocation = (session: FireAlertSession) => session.readings[session.readings.length - 1] ?? null;
+
+const toSessionReading = (alert: AlertData, profile: ThresholdProfile): SensorReading => ({
+  id: alert.id,
+  deviceId: alert.deviceId,
+  latitude: alert.latitude,
+  longitude: alert.longitude,
+  humidity: alert.humidity,
+  temp: alert.temp,
+  smoke: alert.smoke,
+  isFire: alert.isFire,
+  timestamp: alert.timestamp,
+  name: `Sensor ${alert.deviceId}`,
+  status: classifySensorStatus(alert, profile),
+});
+
+// Evenly spaced sample that always keeps the newest and the oldest reading (the location)
+export const thinReadings = (readings: SensorReading[], limit: number) => {
+  if (readings.length <= limit) return readings;
+  const step = (readings.length - 1) / (limit - 1);
+  return Array.from({ length: limit }, (_, index) => readings[Math.round(index * step)]);
+};
+
+const openSession = (readings: SensorReading[]): FireAlertSession => {
+  const first = readings[readings.length - 1];
+  const session: FireAlertSession = {
+    // Deterministic so two tabs running the engine produce the same session
+    id: `session-${first.deviceId}-${new Date(first.timestamp).getTime()}`,
+    deviceId: first.deviceId,
+    startTime: first.timestamp,
+    endTime: null,
+    readings: [],
+    readingCount: 0,
+    maxTemp: first.temp,
+    minTemp: first.temp,
+    avgTemp: 0,
+    maxSmoke: first.smoke,
+    minSmoke: first.smoke,
+    avgSmoke: 0,
+    maxHumidity: first.humidity,
+    minHumidity: first.humidity,
+    avgHumidity: 0,
+    status: 'active',
+  };
+  return readings.reduceRight(addReading, session);
+};
+
+// Newest readings up to the limit, with the oldest (the location) pinned at the end
+const trimReadings = (readings: SensorReading[], limit: number) =>
+  readings.length <= limit ? readings : [...readings.slice(0, limit - 1), readings[readings.length - 1]];
+
+// Fold a reading into the session; averages are running means over every reading
+const addReading = (session: FireAlertSession, reading: SensorReading): FireAlertSession => {
+  const count = getReadingCount(session) + 1;
+  const runningMean = (mean: number, value: number) => mean + (value - mean) / count;
+  return {
+    ...session,
+    readings: trimReadings([reading, ...session.readings], MAX_EMBEDDED_READINGS),
+    readingCount: count,
+    maxTemp: Math.max(session.maxTemp, reading.temp),
+    minTemp: Math.min(session.minTemp, reading.temp),
+    avgTemp: runningMean(session.avgTemp, reading.temp),
+    maxSmoke: Math.max(session.maxSmoke, reading.smoke),
+    minSmoke: Math.min(session.minSmoke, reading.smoke),
+    avgSmoke: runningMean(session.avgSmoke, reading.smoke),
+    maxHumidity: Math.max(session.maxHumidity, reading.humidity),
+    minHumidity: Math.min(session.minHumidity, reading.humidity),
+    avgHumidity: runningMean(session.avgHumidity, reading.humidity),
+  };
+};
+
+const closeSession = (
+  session: FireAlertSession,
+  endTime: string,
+  endReason: FireAlertSession['endReason']
+): FireAlertSession => ({
+  ...session,
+  readings: thinReadings(session.readings, MAX_COMPLETED_READINGS),
+  endTime,
+  status: 'completed',
+  endReason,
+});
+
+// Active sessions whose sensor has been silent too long, closed at their last reading
+const closeSilent = (sessions: FireAlertSession[], config: SessionEngineConfig, now: number) => {
+  if (config.closeAfterSilentMinutes <= 0) return sessions;
+  const cutoff = now - config.closeAfterSilentMinutes * 60 * 1000;
+  let changed = false;
+  const next = sessions.map(session => {
+    const newest = session.readings[0];
+    if (session.status !== 'active' || !newest || new Date(newest.timestamp).getTime() > cutoff) return session;
+    changed = true;
+    return closeSession(session, newest.timestamp, 'silent');
+  });
+  return changed ? next : sessions;
+};
+
+interface DeviceState {
+  lastTime: number;
+  // Fire readings seen since the streak began, newest first (debounce buffer)
+  fireStreak: SensorReading[];
+  clearSince: number | null;
+}
+
+export interface SessionEngineOptions {
+  getSessions: () => FireAlertSession[];
+  setSessions: (sessions: FireAlertSession[]) => void;
+  getConfig: () => SessionEngineConfig;
+  resolveProfile: (deviceId: string) => ThresholdProfile;
+}
+
+// Opens, updates and closes one session per device from any stream of readings.
+// Readings can arrive repeatedly or out of order; each device only moves forward in time.
+export const createSessionEngine = ({ getSessions, setSessions, getConfig, resolveProfile }: SessionEngineOptions) => {
+  const devices = new Map<string, DeviceState>();
+
+  const ingest = (alerts: AlertData[]) => {
+    const config = getConfig();
+    let sessions = getSessions();
+    let changed = false;
+
+    // Readings with missing or invalid values are left out rather than counted as zeros
+    const ordered = alerts
+      .filter(alert => alert.deviceId && Number.isFinite(new Date(alert.timestamp).getTime()))
+      .map(alert => normalizeSensor(alert, resolveProfile))
+      .filter(hasCompleteReading)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    ordered.forEach(alert => {
+      const time = new Date(alert.timestamp).getTime();
+      const state = devices.get(alert.deviceId) ?? { lastTime: 0, fireStreak: [], clearSince: null };
+      let active = sessions.find(session => session.deviceId === alert.deviceId && session.status === 'active');
+      // The in-memory guard starts over on reload and in every other tab, so the stored
+      // session's newest reading is the floor too
+      const newest = active?.readings[0];
+      if (time <= state.lastTime || (newest && time <= new Date(newest.timestamp).getTime())) return;
+      state.lastTime = time;
+      devices.set(alert.deviceId, state);
+
+      // A sensor back after a long silence starts afresh rather than extending the old session
+      const closed = active && closeSilent([active], config, time)[0];
+      if (closed && closed !== active) {
+        sessions = sessions.map(session => (session.id === active.id ? closed : session));
+        state.clearSince = null;
+        changed = true;
+        active = undefined;
+      }
+
+      const profile = resolveProfile(alert.deviceId);
+      const reading = toSessionReading(alert, profile);
+
+      state.fireStreak = reading.isFire ? [reading, ...state.fireStreak].slice(0, config.openConfirmReadings) : [];
+
+      if (!active) {
+        if (reading.isFire && state.fireStreak.length >= config.openConfirmReadings) {
+          sessions = [openSession(state.fireStreak), ...sessions];
+          state.clearSince = null;
+          changed = true;
+        }
+        return;
+      }
+
+      let updated = addReading(active, reading);
+      const clear = !reading.isFire && (!config.requireClearLevels || getStatusLevel(reading, profile) === 'normal');
+      if (!clear) {
+        state.clearSince = null;
+      } else {
+        state.clearSince = state.clearSince ?? time;
+        if (time - state.clearSince >= config.closeConfirmSeconds * 1000) {
+          updated = closeSession(updated, alert.timestamp, 'cleared');
+          state.clearSince = null;
+        }
+      }
+
+      sessions = sessions.map(session => (session.id === active.id ? updated : session));
+      changed = true;
+    });
+
+    if (changed) setSessions(sessions);
+  };
+
+  // Run on a timer, since a sensor that has gone offline sends nothing to ingest
+  const closeSilentSessions = (now = Date.now()) => {
+    const sessions = getSessions();
+    const next = closeSilent(sessions, getConfig(), now);
+    if (next !== sessions) setSessions(next);
+  };
+
+  return { ingest, closeSilentSessions };
+};
@@ -0,0 +1,131 @@
+// src/lib/sessionFilters.ts
+import { SessionTag } from '@/types/annotation';
+import { FireAlertSession } from '@/types/session';
+import { SESSION_TAGS } from './sessionAnnotations';
+import { getSessionDurationMs } from './sessionAnalytics';
+
+export type SessionSortKey = 'startTime' | 'duration' | 'maxTemp' | 'maxSmoke';
+export type SortDirection = 'asc' | 'desc';
+export type SessionTagFilter = SessionTag | 'all' | 'untagged';
+
+// The Reports list state, mirrored to the URL query string
+export interface SessionListFilters {
+  query: string;
+  // Inclusive 'yyyy-MM-dd' bounds on the start day, empty when open
+  from: string;
+  to: string;
+  deviceId: string;
+  zoneId: string;
+  tag: SessionTagFilter;
+  sort: SessionSortKey;
+  direction: SortDirection;
+  page: number;
+}
+
+export const SESSIONS_PAGE_SIZE = 10;
+
+export const SESSION_SORT_LABELS: Record<SessionSortKey, string> = {
+  startTime: 'Start time',
+  duration: 'Duration',
+  maxTemp: 'Max temperature',
+  maxSmoke: 'Max smoke',
+};
+
+export const DEFAULT_SESSION_FILTERS: SessionListFilters = {
+  query: '',
+  from: '',
+  to: '',
+  deviceId: 'all',
+  zoneId: 'all',
+  tag: 'all',
+  sort: 'startTime',
+  direction: 'desc',
+  page: 1,
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Unknown or malformed parameters fall back to the defaults
+export const parseSessionFilters = (params: URLSearchParams): SessionListFilters => {
+  const sort = params.get('sort');
+  const tag = params.get('tag');
+  const day = (value: string | null) => (value && DAY_PATTERN.test(value) ? value : '');
+  const page = Number(params.get('page'));
+  return {
+    query: params.get('q') ?? '',
+    from: day(params.get('from')),
+    to: day(params.get('to')),
+    deviceId: params.get('device') || 'all',
+    zoneId: params.get('zone') || 'all',
+    tag: tag === 'untagged' || SESSION_TAGS.includes(tag as SessionTag) ? (tag as SessionTagFilter) : 'all',
+    sort: Object.keys(SESSION_SORT_LABELS).includes(sort) ? (sort as SessionSortKey) : DEFAULT_SESSION_FILTERS.sort,
+    direction: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+// Only values that differ from the defaults are written, to keep links short
+export const toSessionSearchParams = (filters: SessionListFilters) => {
+  const params = new URLSearchParams();
+  if (filters.query) params.set('q', filters.query);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.deviceId !== 'all') params.set('device', filters.deviceId);
+  if (filters.zoneId !== 'all') params.set('zone', filters.zoneId);
+  if (filters.tag !== 'all') params.set('tag', filters.tag);
+  if (filters.sort !== DEFAULT_SESSION_FILTERS.sort) params.set('sort', filters.sort);
+  if (filters.direction !== DEFAULT_SESSION_FILTERS.direction) params.set('dir', filters.direction);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  return params;
+};
+
+export const matchesTagFilter = (tags: SessionTag[] | undefined, filter: SessionTagFilter) =>
+  filter === 'all' ? true : filter === 'untagged' ? !tags?.length : Boolean(tags?.includes(filter));
+
+// Every whitespace-separated term must appear somewhere in the text, ignoring case
+export const matchesSearch = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => haystack.includes(term));
+};
+
+export const sortSessions = (
+  sessions: FireAlertSession[],
+  sort: SessionSortKey,
+  direction: SortDirection,
+  now = Date.now()
+) => {
+  const value = (session: FireAlertSession) => {
+    switch (sort) {
+      case 'duration':
+        return getSessionDurationMs(session, now);
+      case 'maxTemp':
+        return session.maxTemp;
+      case 'maxSmoke':
+        return session.maxSmoke;
+      default:
+        return new Date(session.startTime).getTime();
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...sessions].sort((a, b) => sign * (value(a) - value(b)));
+};
+
+// Page numbers to show around the current page, with null marking a gap
+export const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages = [...new Set([1, page - 1, page, page + 1, pageCount])]
+    .filter(number => number >= 1 && number <= pageCount)
+    .sort((a, b) => a - b);
+  return pages.flatMap((number, index) => (index > 0 && number - pages[index - 1] > 1 ? [null, number] : [number]));
+};
+
+export type SessionTab = 'overview' | 'charts' | 'analysis' | 'rawdata' | 'notes';
+
+export const SESSION_TABS: SessionTab[] = ['overview', 'charts', 'analysis', 'rawdata', 'notes'];
+
+// /reports/:sessionId, with the tab as a further segment unless it is the overview
+export const getSessionReportPath = (sessionId: string, tab: SessionTab = 'overview') =>
+  `/reports/${encodeURIComponent(sessionId)}${tab === 'overview' ? '' : `/${tab}`}`;
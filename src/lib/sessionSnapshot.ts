@@ -0,0 +1,210 @@
+// src/lib/sessionSnapshot.ts
+import { z } from 'zod';
+import { classifySensorStatus } from '@/api/sensorNormalization';
+import { SessionAnnotation } from '@/types/annotation';
+import { FireAlertSession, SensorReading } from '@/types/session';
+import { ThresholdProfile } from '@/types/thresholds';
+import { ZoneLevel } from '@/types/zones';
+import { SESSION_TAGS } from './sessionAnnotations';
+import { thinReadings } from './sessionEngine';
+
+// A self-contained summary of one session that travels in a URL fragment, so it opens
+// on a machine without the session in its local storage. The fragment never reaches a server.
+export interface SessionSnapshot {
+  // Readings are a thinned sample, newest first like a stored session
+  session: FireAlertSession;
+  sensorName: string;
+  details: { label: string; value: string }[];
+  zones: Partial<Record<ZoneLevel, string>>;
+  profile: ThresholdProfile;
+  // Tags, root cause and notes; photos are left out to keep the link short
+  annotation?: SessionAnnotation;
+  sharedAt: string;
+}
+
+// Enough points for the charts while keeping the link around 2 kB
+export const SNAPSHOT_READINGS = 60;
+
+export const SHARED_SESSION_PATH = '/reports/shared';
+
+const SNAPSHOT_VERSION = 1;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Compact wire format: tuples instead of objects, times as epoch ms or seconds from start
+const wireSchema = z.object({
+  v: z.literal(SNAPSHOT_VERSION),
+  s: z.tuple([z.string(), z.string(), z.number(), z.number().nullable(), z.enum(['active', 'completed']), z.number()]),
+  st: z.array(z.number()).length(9),
+  n: z.string(),
+  d: z.array(z.tuple([z.string(), z.string()])),
+  z: z.object({ division: z.string(), range: z.string(), beat: z.string() }).partial(),
+  p: z.tuple([z.string(), z.number(), z.number(), z.number(), z.number(), z.number(), z.number()]),
+  l: z.tuple([z.number(), z.number()]).nullable(),
+  r: z.array(z.tuple([z.number(), z.number(), z.number(), z.number(), z.union([z.literal(0), z.literal(1)])])),
+  t: z.number(),
+  // Why the session ended, when it did not simply clear
+  e: z.literal('silent').optional(),
+  // Tags, root cause and notes; optional so links made before annotations existed still open
+  a: z
+    .object({
+      g: z.array(z.enum(SESSION_TAGS as [string, ...string[]])),
+      c: z.string().optional(),
+      n: z.array(z.tuple([z.number(), z.string(), z.string()])),
+    })
+    .optional(),
+});
+
+type SnapshotWire = z.infer<typeof wireSchema>;
+
+// UTF-8 safe base64url, so names and notes in any script survive the round trip
+const toBase64Url = (text: string) => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const encodeSessionSnapshot = (snapshot: SessionSnapshot) => {
+  const { session, profile } = snapshot;
+  const start = new Date(session.startTime).getTime();
+  const location = session.readings[session.readings.length - 1];
+  const readings = thinReadings(session.readings, SNAPSHOT_READINGS).slice().reverse();
+
+  const wire: SnapshotWire = {
+    v: SNAPSHOT_VERSION,
+    s: [
+      session.id,
+      session.deviceId,
+      start,
+      session.endTime ? new Date(session.endTime).getTime() : null,
+      session.status,
+      session.readingCount ?? session.readings.length,
+    ],
+    st: [
+      session.maxTemp,
+      session.minTemp,
+      session.avgTemp,
+      session.maxSmoke,
+      session.minSmoke,
+      session.avgSmoke,
+      session.maxHumidity,
+      session.minHumidity,
+      session.avgHumidity,
+    ].map(round),
+    n: snapshot.sensorName,
+    d: snapshot.details.map(({ label, value }) => [label, value]),
+    z: snapshot.zones,
+    p: [
+      profile.name,
+      profile.tempWarning,
+      profile.tempCritical,
+      profile.smokeWarning,
+      profile.smokeCritical,
+      profile.humidityWarning,
+      profile.humidityCritical,
+    ],
+    l: location ? [location.latitude, location.longitude] : null,
+    r: readings.map(reading => [
+      Math.round((new Date(reading.timestamp).getTime() - start) / 1000),
+      round(reading.temp),
+      round(reading.humidity),
+      round(reading.smoke),
+      reading.isFire ? 1 : 0,
+    ]),
+    t: new Date(snapshot.sharedAt).getTime(),
+    e: session.endReason === 'silent' ? 'silent' : undefined,
+    a: snapshot.annotation && {
+      g: snapshot.annotation.tags,
+      c: snapshot.annotation.rootCause,
+      n: snapshot.annotation.notes.map(note => [new Date(note.at).getTime(), note.by, note.text]),
+    },
+  };
+  return toBase64Url(JSON.stringify(wire));
+};
+
+// Null when the fragment is missing, truncated or from an unknown version
+export const decodeSessionSnapshot = (fragment: string): SessionSnapshot | null => {
+  const encoded = fragment.replace(/^#/, '');
+  if (!encoded) return null;
+
+  let wire: SnapshotWire;
+  try {
+    const result = wireSchema.safeParse(JSON.parse(fromBase64Url(encoded)));
+    if (!result.success) return null;
+    wire = result.data;
+  } catch {
+    return null;
+  }
+
+  const [id, deviceId, start, end, status, readingCount] = wire.s;
+  const [name, tempWarning, tempCritical, smokeWarning, smokeCritical, humidityWarning, humidityCritical] = wire.p;
+  const profile: ThresholdProfile = {
+    id: 'shared',
+    name,
+    tempWarning,
+    tempCritical,
+    smokeWarning,
+    smokeCritical,
+    humidityWarning,
+    humidityCritical,
+  };
+  const [latitude, longitude] = wire.l ?? [null, null];
+  const readings: SensorReading[] = wire.r
+    .map(([offset, temp, humidity, smoke, isFire]) => {
+      const reading = { temp, humidity, smoke, isFire: isFire === 1 };
+      return {
+        ...reading,
+        id: deviceId,
+        deviceId,
+        latitude,
+        longitude,
+        timestamp: new Date(start + offset * 1000).toISOString(),
+        name: wire.n,
+        status: classifySensorStatus(reading, profile),
+      };
+    })
+    .reverse();
+  const [maxTemp, minTemp, avgTemp, maxSmoke, minSmoke, avgSmoke, maxHumidity, minHumidity, avgHumidity] = wire.st;
+
+  return {
+    session: {
+      id,
+      deviceId,
+      startTime: new Date(start).toISOString(),
+      endTime: end === null ? null : new Date(end).toISOString(),
+      readings,
+      readingCount,
+      maxTemp,
+      minTemp,
+      avgTemp,
+      maxSmoke,
+      minSmoke,
+      avgSmoke,
+      maxHumidity,
+      minHumidity,
+      avgHumidity,
+      status,
+      endReason: wire.e,
+    },
+    sensorName: wire.n,
+    details: wire.d.map(([label, value]) => ({ label, value })),
+    zones: wire.z,
+    profile,
+    annotation: wire.a && {
+      sessionId: id,
+      tags: wire.a.g as SessionAnnotation['tags'],
+      rootCause: wire.a.c,
+      notes: wire.a.n.map(([at, by, text], index) => ({ id: String(index), at: new Date(at).toISOString(), by, text })),
+      attachments: [],
+      updatedAt: new Date(wire.t).toISOString(),
+    },
+    sharedAt: new Date(wire.t).toISOString(),
+  };
+};
+
+export const getSessionSnapshotUrl = (snapshot: SessionSnapshot) =>
+  `${window.location.origin}${SHARED_SESSION_PATH}#${encodeSessionSnapshot(snapshot)}`;
@@ -0,0 +1,293 @@
+// src/lib/settings.ts
+import { z } from 'zod';
+import { AppSettings } from '@/types/settings';
+
+export const SETTINGS_VERSION = 11;
+
+export const DEFAULT_API_BASE_URL = 'https://fire-detection-system-neon.vercel.app/api/fire-alerts';
+
+export const DEFAULT_STREAM_URL = 'http://localhost:8787/stream';
+
+export const TIME_ZONES = [
+  'local',
+  'Asia/Kolkata',
+  'UTC',
+  'Asia/Kathmandu',
+  'Asia/Dhaka',
+  'Asia/Dubai',
+  'Europe/London',
+  'America/New_York',
+];
+
+export const createDefaultSettings = (): AppSettings => ({
+  version: SETTINGS_VERSION,
+  api: {
+    baseUrl: DEFAULT_API_BASE_URL,
+  },
+  dataSource: {
+    kind: 'default',
+    replaySpeed: 1,
+    replayLoop: true,
+  },
+  simulator: {
+    scenarioId: 'ridge-fire',
+    seed: 42,
+    sensorCount: 16,
+    speed: 1,
+  },
+  realtime: {
+    transport: 'off',
+    url: DEFAULT_STREAM_URL,
+  },
+  polling: {
+    dashboard: 40,
+    sensorStatus: 5,
+    liveMonitoringList: 30,
+    liveMonitoringDetail: 10,
+  },
+  sessions: {
+    openConfirmReadings: 1,
+    closeConfirmSeconds: 60,
+    requireClearLevels: true,
+    closeAfterSilentMinutes: 30,
+  },
+  alerts: {
+    escalateAfterMinutes: 5,
+    operatorName: '',
+  },
+  health: {
+    staleAfterMinutes: 10,
+    offlineAfterMinutes: 60,
+    flatlineMinutes: 30,
+  },
+  anomaly: {
+    enabled: true,
+    zScore: 3,
+    riseWindowMinutes: 10,
+    tempRiseC: 8,
+    smokeRisePpm: 100,
+    humidityDropPct: 15,
+  },
+  history: {
+    rawHours: 24,
+    minuteDays: 7,
+    hourDays: 90,
+  },
+  units: {
+    temperature: 'celsius',
+    smoke: 'ppm',
+  },
+  display: {
+    timeZone: 'local',
+    dateFormat: 'locale',
+    hour12: false,
+  },
+  // Center of Uttarakhand
+  map: {
+    centerLat: 30.0668,
+    centerLng: 79.0193,
+    zoom: 8,
+  },
+  notifications: {
+    soundEnabled: true,
+    volume: 70,
+    sirenPattern: 'wail',
+    browserNotifications: false,
+    quietHours: {
+      enabled: false,
+      start: '22:00',
+      end: '06:00',
+    },
+  },
+});
+
+const isValidTimeZone = (zone: string) => {
+  if (zone === 'local') return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const pollingSeconds = z.number().int('Whole seconds only').min(2, 'At least 2 seconds').max(3600, 'At most 1 hour');
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:mm, e.g. 22:00');
+
+export const settingsSchema = z.object({
+  version: z.literal(SETTINGS_VERSION),
+  api: z.object({
+    baseUrl: z.string().trim().url('Enter a full URL including https://'),
+  }),
+  dataSource: z.object({
+    kind: z.enum(['default', 'rest', 'simulator', 'replay']),
+    replaySpeed: z.number().min(0.1, 'At least 0.1x').max(100, 'At most 100x'),
+    replayLoop: z.boolean(),
+  }),
+  simulator: z.object({
+    scenarioId: z.string().min(1),
+    seed: z.number().int('Whole numbers only'),
+    sensorCount: z.number().int('Whole numbers only').min(1, 'At least 1 sensor').max(500, 'At most 500 sensors'),
+    speed: z.number().min(0.1, 'At least 0.1x').max(600, 'At most 600x'),
+  }),
+  realtime: z
+    .object({
+      transport: z.enum(['off', 'sse', 'websocket']),
+      url: z.string().trim().url('Enter a full URL such as http://localhost:8787/stream'),
+    })
+    .refine(
+      value => value.transport !== 'websocket' || /^wss?:\/\//.test(value.url),
+      { message: 'WebSocket URLs start with ws:// or wss://', path: ['url'] }
+    )
+    .refine(
+      value => value.transport !== 'sse' || /^https?:\/\//.test(value.url),
+      { message: 'Server-sent event URLs start with http:// or https://', path: ['url'] }
+    ),
+  polling: z.object({
+    dashboard: pollingSeconds,
+    sensorStatus: pollingSeconds,
+    liveMonitoringList: pollingSeconds,
+    liveMonitoringDetail: pollingSeconds,
+  }),
+  sessions: z.object({
+    openConfirmReadings: z.number().int('Whole readings only').min(1, 'At least 1 reading').max(20, 'At most 20 readings'),
+    closeConfirmSeconds: z.number().min(0, 'Cannot be negative').max(3600, 'At most 1 hour'),
+    requireClearLevels: z.boolean(),
+    closeAfterSilentMinutes: z.number().min(0, 'Cannot be negative').max(24 * 60, 'At most 24 hours'),
+  }),
+  alerts: z.object({
+    escalateAfterMinutes: z.number().min(0, 'Cannot be negative').max(24 * 60, 'At most 24 hours'),
+    operatorName: z.string().trim().max(80, 'At most 80 characters'),
+  }),
+  health: z
+    .object({
+      staleAfterMinutes: z.number().min(1, 'At least 1 minute').max(24 * 60, 'At most 24 hours'),
+      offlineAfterMinutes: z.number().min(1, 'At least 1 minute').max(30 * 24 * 60, 'At most 30 days'),
+      flatlineMinutes: z.number().min(0, 'Cannot be negative').max(24 * 60, 'At most 24 hours'),
+    })
+    .refine(value => value.offlineAfterMinutes > value.staleAfterMinutes, {
+      message: 'Must be longer than the stale gap',
+      path: ['offlineAfterMinutes'],
+    }),
+  anomaly: z.object({
+    enabled: z.boolean(),
+    zScore: z.number().min(1, 'At least 1').max(10, 'At most 10'),
+    riseWindowMinutes: z.number().min(1, 'At least 1 minute').max(120, 'At most 2 hours'),
+    tempRiseC: z.number().gt(0, 'Must be positive').max(100),
+    smokeRisePpm: z.number().gt(0, 'Must be positive').max(10000),
+    humidityDropPct: z.number().gt(0, 'Must be positive').max(100),
+  }),
+  history: z.object({
+    rawHours: z.number().min(1, 'At least 1 hour').max(24 * 30, 'At most 30 days'),
+    minuteDays: z.number().min(1, 'At least 1 day').max(90, 'At most 90 days'),
+    hourDays: z.number().min(1, 'At least 1 day').max(3650, 'At most 10 years'),
+  }),
+  units: z.object({
+    temperature: z.enum(['celsius', 'fahrenheit']),
+    smoke: z.enum(['ppm', 'ppb']),
+  }),
+  display: z.object({
+    timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone'),
+    dateFormat: z.enum(['locale', 'dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd']),
+    hour12: z.boolean(),
+  }),
+  map: z.object({
+    centerLat: z.number().min(-90).max(90),
+    centerLng: z.number().min(-180).max(180),
+    zoom: z.number().int().min(1).max(19),
+  }),
+  notifications: z.object({
+    soundEnabled: z.boolean(),
+    volume: z.number().min(0).max(100),
+    sirenPattern: z.enum(['wail', 'yelp', 'beep']),
+    browserNotifications: z.boolean(),
+    quietHours: z.object({
+      enabled: z.boolean(),
+      start: clockTime,
+      end: clockTime,
+    }),
+  }),
+});
+
+type UnknownSettings = Record<string, unknown>;
+
+const isObject = (value: unknown): value is UnknownSettings =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Deep merge so settings saved by an older build pick up newly added fields
+const mergeDefaults = (defaults: UnknownSettings, value: UnknownSettings): UnknownSettings => {
+  const merged: UnknownSettings = { ...defaults };
+  Object.entries(value).forEach(([key, entry]) => {
+    merged[key] = isObject(defaults[key]) && isObject(entry)
+      ? mergeDefaults(defaults[key] as UnknownSettings, entry)
+      : entry;
+  });
+  return merged;
+};
+
+// Each migration upgrades settings from version N to N + 1
+const migrations: Record<number, (settings: UnknownSettings) => UnknownSettings> = {
+  // Settings written without a version field are treated as version 0
+  0: settings => ({ ...settings, version: 1 }),
+  // Version 2 added the data source selection; keep existing users on the REST API
+  1: settings => ({
+    ...settings,
+    dataSource: { kind: 'rest', replaySpeed: 1, replayLoop: true },
+    version: 2,
+  }),
+  // Version 3 added simulator options; defaults are filled in by mergeDefaults
+  2: settings => ({ ...settings, version: 3 }),
+  // Version 4 added the realtime stream, off by default
+  3: settings => ({ ...settings, version: 4 }),
+  // Version 5 added history retention
+  4: settings => ({ ...settings, version: 5 }),
+  // Version 6 made session debounce and hysteresis configurable
+  5: settings => ({ ...settings, version: 6 }),
+  // Version 7 added alert escalation and the operator name
+  6: settings => ({ ...settings, version: 7 }),
+  // Version 8 added the siren pattern and quiet hours
+  7: settings => ({ ...settings, version: 8 }),
+  // Version 9 added sensor health gaps
+  8: settings => ({ ...settings, version: 9 }),
+  // Version 10 added anomaly detection
+  9: settings => ({ ...settings, version: 10 }),
+  // Version 11 closes sessions whose sensor stops reporting
+  10: settings => ({ ...settings, version: 11 }),
+};
+
+export const migrateSettings = (raw: unknown): UnknownSettings => {
+  let settings: UnknownSettings = isObject(raw) ? { ...raw } : {};
+  let version = typeof settings.version === 'number' ? settings.version : 0;
+
+  if (version > SETTINGS_VERSION) {
+    throw new Error(`Settings version ${version} is newer than this dashboard supports (${SETTINGS_VERSION})`);
+  }
+
+  while (version < SETTINGS_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No settings migration from version ${version}`);
+    }
+    settings = migrate(settings);
+    version += 1;
+  }
+
+  return settings;
+};
+
+// Migrate, fill in defaults and validate; throws with a readable message on failure
+export const parseSettings = (raw: unknown): AppSettings => {
+  const migrated = migrateSettings(raw);
+  const merged = mergeDefaults(createDefaultSettings() as unknown as UnknownSettings, migrated);
+  const result = settingsSchema.safeParse(merged);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid settings at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  return result.data as AppSettings;
+};
+
+export const serializeSettings = (settings: AppSettings) => JSON.stringify(settings, null, 2);
@@ -0,0 +1,222 @@
+// src/lib/simulator/engine.ts
+import { createRandom, gaussian, hashNoise } from './random';
+import { FireEvent, Scenario } from './scenario';
+
+export interface SimulatedSensor {
+  index: number;
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  // Per-site microclimate offsets so sensors don't move in lockstep
+  tempOffset: number;
+  humidityOffset: number;
+}
+
+export interface SimulatedReading {
+  sensor: SimulatedSensor;
+  // Simulated seconds since scenario start at which this reading was taken
+  reportedAt: number;
+  temp: number;
+  humidity: number;
+  smoke: number;
+  isFire: boolean;
+}
+
+export interface SimulatorOptions {
+  seed?: number;
+  sensorCount?: number;
+}
+
+export interface SensorNetworkSimulator {
+  readonly scenario: Scenario;
+  readonly seed: number;
+  readonly sensors: SimulatedSensor[];
+  // Latest reading of every sensor at the given simulated time
+  readAll(elapsedSeconds: number): SimulatedReading[];
+  // Schedule an extra fire, e.g. one triggered by hand from the UI
+  addFire(fire: FireEvent): void;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Rise at the fire front for intensity 1
+const FIRE_TEMP_RISE = 45;
+const FIRE_SMOKE_RISE = 380;
+const FIRE_HUMIDITY_DROP = 30;
+// Fraction of full effect a device needs to see before it reports isFire
+const DETECTION_THRESHOLD = 0.45;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const distanceMeters = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+// Point at a random bearing up to maxMeters away
+const offsetPoint = (lat: number, lng: number, random: () => number, maxMeters: number) => {
+  const distance = Math.sqrt(random()) * maxMeters;
+  const bearing = random() * 2 * Math.PI;
+  const dLat = (distance * Math.cos(bearing)) / EARTH_RADIUS_METERS;
+  const dLng = (distance * Math.sin(bearing)) / (EARTH_RADIUS_METERS * Math.cos(toRadians(lat)));
+  return { latitude: lat + (dLat * 180) / Math.PI, longitude: lng + (dLng * 180) / Math.PI };
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number) => Number(value.toFixed(1));
+
+// Sensors are grouped in clusters (one per forest range) so a spreading fire
+// actually reaches neighbours instead of burning out between distant sites
+const placeSensors = (scenario: Scenario, seed: number, count: number): SimulatedSensor[] => {
+  const random = createRandom(seed);
+  const { north, south, east, west } = scenario.bounds;
+  const { clusters, clusterRadiusMeters } = scenario.placement;
+
+  const centers = Array.from({ length: Math.min(clusters, count) }, () => ({
+    lat: south + random() * (north - south),
+    lng: west + random() * (east - west),
+  }));
+
+  return Array.from({ length: count }, (_, index) => {
+    const center = centers[index % centers.length];
+    // The first sensor of each cluster sits at its center
+    const position = index < centers.length
+      ? { latitude: center.lat, longitude: center.lng }
+      : offsetPoint(center.lat, center.lng, random, clusterRadiusMeters);
+
+    return {
+      index,
+      deviceId: `SIM-${String(index + 1).padStart(2, '0')}`,
+      latitude: Number(position.latitude.toFixed(6)),
+      longitude: Number(position.longitude.toFixed(6)),
+      tempOffset: (random() - 0.5) * 4,
+      humidityOffset: (random() - 0.5) * 10,
+    };
+  });
+};
+
+export const createSensorNetworkSimulator = (
+  scenario: Scenario,
+  options: SimulatorOptions = {}
+): SensorNetworkSimulator => {
+  const seed = options.seed ?? scenario.seed ?? 1;
+  const sensorCount = options.sensorCount ?? scenario.sensorCount ?? 12;
+  const sensors = placeSensors(scenario, seed, sensorCount);
+  const fires: FireEvent[] = [...scenario.fires];
+  const interval = scenario.reportIntervalSeconds;
+  const { climate } = scenario;
+
+  // Sensor indices in scenario files wrap around when fewer sensors are simulated
+  const sensorAt = (index: number) => sensors[index % sensors.length];
+
+  const fireOrigin = (fire: FireEvent): { lat: number; lng: number } => {
+    const at = fire.at as { sensor?: number; lat?: number; lng?: number };
+    if (at.sensor !== undefined) {
+      const sensor = sensorAt(at.sensor);
+      return { lat: sensor.latitude, lng: sensor.longitude };
+    }
+    return { lat: at.lat, lng: at.lng };
+  };
+
+  // 0..1 share of a fire's full effect felt by a sensor at a simulated time
+  const fireEffect = (fire: FireEvent, sensor: SimulatedSensor, seconds: number) => {
+    const startSeconds = fire.startMinute * 60;
+    if (seconds < startSeconds) return 0;
+
+    const growthEndSeconds = fire.extinguishMinute !== undefined ? fire.extinguishMinute * 60 : Infinity;
+    const growthMinutes = (Math.min(seconds, growthEndSeconds) - startSeconds) / 60;
+    const radius = Math.min(fire.maxRadiusMeters, growthMinutes * fire.spreadMetersPerMinute);
+
+    let intensity = fire.intensity * (fire.rampMinutes > 0 ? Math.min(1, growthMinutes / fire.rampMinutes) : 1);
+    if (seconds > growthEndSeconds) {
+      const burnedOut = (seconds - growthEndSeconds) / (fire.burnoutMinutes * 60);
+      intensity *= Math.max(0, 1 - burnedOut);
+    }
+    if (intensity <= 0) return 0;
+
+    const origin = fireOrigin(fire);
+    const distance = distanceMeters(origin.lat, origin.lng, sensor.latitude, sensor.longitude);
+    return distance <= radius ? intensity : intensity * Math.exp(-(distance - radius) / fire.falloffMeters);
+  };
+
+  const combinedEffect = (sensor: SimulatedSensor, seconds: number) =>
+    fires.reduce((max, fire) => Math.max(max, fireEffect(fire, sensor, seconds)), 0);
+
+  // Device-side detection: conditions must hold for the whole delay window
+  const detectsFire = (sensor: SimulatedSensor, seconds: number) =>
+    fires.some(fire => {
+      if (fireEffect(fire, sensor, seconds) < DETECTION_THRESHOLD) return false;
+      const delayed = seconds - fire.detectionDelaySeconds;
+      return delayed >= 0 && fireEffect(fire, sensor, delayed) >= DETECTION_THRESHOLD;
+    });
+
+  // Fault-free reading at a report tick; pure so faults can replay past ticks
+  const rawReading = (sensor: SimulatedSensor, tick: number): SimulatedReading => {
+    const seconds = tick * interval;
+    const hour = scenario.startHour + seconds / 3600;
+    // Temperature peaks mid-afternoon, humidity bottoms out at the same time
+    const diurnal = Math.cos((2 * Math.PI * (hour - 15)) / 24);
+    const noise = (channel: number) =>
+      gaussian(hashNoise(seed, sensor.index, tick, channel), hashNoise(seed, sensor.index, tick, channel + 10));
+
+    const effect = combinedEffect(sensor, seconds);
+
+    const temp = climate.baseTemp + sensor.tempOffset + climate.tempAmplitude * diurnal
+      + climate.noise * noise(1) + effect * FIRE_TEMP_RISE;
+    const humidity = climate.baseHumidity + sensor.humidityOffset - climate.humidityAmplitude * diurnal
+      + climate.noise * 2 * noise(2) - effect * FIRE_HUMIDITY_DROP;
+    const smoke = climate.baseSmoke + Math.abs(climate.noise * 3 * noise(3)) + effect * FIRE_SMOKE_RISE;
+
+    return {
+      sensor,
+      reportedAt: seconds,
+      temp: round(clamp(temp, -20, 120)),
+      humidity: round(clamp(humidity, 0, 100)),
+      smoke: round(Math.max(0, smoke)),
+      isFire: detectsFire(sensor, seconds),
+    };
+  };
+
+  const readSensor = (sensor: SimulatedSensor, tick: number): SimulatedReading => {
+    const seconds = tick * interval;
+    const active = scenario.faults.filter(fault => {
+      if (sensorAt(fault.sensor) !== sensor) return false;
+      const start = fault.startMinute * 60;
+      const end = fault.type === 'batteryDeath' ? Infinity : start + fault.durationMinutes * 60;
+      return seconds >= start && seconds < end;
+    });
+
+    // Silent sensors keep returning their last report with its original timestamp
+    const silent = active.find(fault => fault.type === 'dropout' || fault.type === 'batteryDeath');
+    if (silent) {
+      const lastTick = Math.max(0, Math.ceil((silent.startMinute * 60) / interval) - 1);
+      return rawReading(sensor, lastTick);
+    }
+
+    // Stuck sensors keep reporting on time but with frozen values
+    const stuck = active.find(fault => fault.type === 'stuck');
+    if (stuck) {
+      const frozen = rawReading(sensor, Math.ceil((stuck.startMinute * 60) / interval));
+      return { ...frozen, reportedAt: seconds };
+    }
+
+    return rawReading(sensor, tick);
+  };
+
+  return {
+    scenario,
+    seed,
+    sensors,
+    readAll: elapsedSeconds => {
+      const tick = Math.max(0, Math.floor(elapsedSeconds / interval));
+      return sensors.map(sensor => readSensor(sensor, tick));
+    },
+    addFire: fire => {
+      fires.push(fire);
+    },
+  };
+};
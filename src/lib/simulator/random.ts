@@ -0,0 +1,29 @@
+// src/lib/simulator/random.ts
+
+// Sequential seeded PRNG (mulberry32), used for one-off layout decisions
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Stateless uniform noise in [0, 1) for a (seed, keys...) tuple, so any
+// reading can be recomputed at any time and comes out identical
+export const hashNoise = (seed: number, ...keys: number[]) => {
+  let h = (seed ^ 0x9e3779b9) >>> 0;
+  for (const key of keys) {
+    h = Math.imul(h ^ (key >>> 0), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    h ^= h >>> 16;
+  }
+  return (h >>> 0) / 4294967296;
+};
+
+// Standard normal sample from two uniforms (Box-Muller)
+export const gaussian = (u1: number, u2: number) =>
+  Math.sqrt(-2 * Math.log(Math.max(u1, 1e-12))) * Math.cos(2 * Math.PI * u2);
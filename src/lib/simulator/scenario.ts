@@ -0,0 +1,116 @@
+// src/lib/simulator/scenario.ts
+import { z } from 'zod';
+
+// Fire ignition point: either next to a numbered sensor or at explicit coordinates
+const ignitionSchema = z.union([
+  z.object({ sensor: z.number().int().min(0) }),
+  z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }),
+]);
+
+export const fireEventSchema = z.object({
+  at: ignitionSchema,
+  startMinute: z.number().min(0),
+  // Forward speed of the fire front
+  spreadMetersPerMinute: z.number().min(0).default(25),
+  maxRadiusMeters: z.number().min(0).default(4000),
+  // 0..1 scaling of temperature and smoke rise at the front
+  intensity: z.number().min(0).max(1).default(1),
+  // Minutes for a new fire to build up to full intensity
+  rampMinutes: z.number().min(0).default(3),
+  // How quickly the effect fades with distance beyond the front
+  falloffMeters: z.number().positive().default(400),
+  // Devices flip isFire only after conditions persist this long
+  detectionDelaySeconds: z.number().min(0).default(60),
+  extinguishMinute: z.number().min(0).optional(),
+  burnoutMinutes: z.number().positive().default(15),
+});
+
+export const faultSchema = z.object({
+  type: z.enum(['stuck', 'dropout', 'batteryDeath']),
+  sensor: z.number().int().min(0),
+  startMinute: z.number().min(0),
+  // Ignored for batteryDeath, which is permanent
+  durationMinutes: z.number().positive().default(10),
+});
+
+export const scenarioSchema = z.object({
+  id: z.string().min(1).default('custom'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  seed: z.number().int().optional(),
+  sensorCount: z.number().int().min(1).max(500).optional(),
+  reportIntervalSeconds: z.number().min(1).default(10),
+  // Simulated local hour of day when the scenario starts
+  startHour: z.number().min(0).max(24).default(12),
+  bounds: z
+    .object({
+      north: z.number(),
+      south: z.number(),
+      east: z.number(),
+      west: z.number(),
+    })
+    .default({ north: 30.9, south: 29.3, east: 80.3, west: 77.8 }),
+  placement: z
+    .object({
+      clusters: z.number().int().min(1).default(4),
+      clusterRadiusMeters: z.number().positive().default(2500),
+    })
+    .default({}),
+  climate: z
+    .object({
+      baseTemp: z.number().default(24),
+      tempAmplitude: z.number().min(0).default(6),
+      baseHumidity: z.number().min(0).max(100).default(55),
+      humidityAmplitude: z.number().min(0).default(15),
+      baseSmoke: z.number().min(0).default(12),
+      noise: z.number().min(0).default(0.6),
+    })
+    .default({}),
+  fires: z.array(fireEventSchema).default([]),
+  faults: z.array(faultSchema).default([]),
+});
+
+export type FireEvent = z.infer<typeof fireEventSchema>;
+export type SensorFault = z.infer<typeof faultSchema>;
+export type Scenario = z.infer<typeof scenarioSchema>;
+
+export const parseScenario = (raw: unknown): Scenario => {
+  const result = scenarioSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid scenario at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return result.data;
+};
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'calm-day',
+    name: 'Calm day',
+    description: 'No fires, normal diurnal cycles and a single sensor dropout',
+    faults: [{ type: 'dropout', sensor: 4, startMinute: 5, durationMinutes: 20 }],
+  },
+  {
+    id: 'ridge-fire',
+    name: 'Ridge fire',
+    description: 'A fire ignites next to sensor 0 at minute 2 and spreads through its cluster',
+    startHour: 13,
+    fires: [{ at: { sensor: 0 }, startMinute: 2, spreadMetersPerMinute: 60, extinguishMinute: 45 }],
+  },
+  {
+    id: 'multi-fire-faults',
+    name: 'Multiple fires with faults',
+    description: 'Two fires in different clusters plus stuck, dropout and battery faults',
+    startHour: 14,
+    climate: { baseHumidity: 35, baseTemp: 29 },
+    fires: [
+      { at: { sensor: 1 }, startMinute: 1, spreadMetersPerMinute: 80, intensity: 1 },
+      { at: { sensor: 2 }, startMinute: 8, spreadMetersPerMinute: 40, intensity: 0.7, extinguishMinute: 30 },
+    ],
+    faults: [
+      { type: 'stuck', sensor: 5, startMinute: 3, durationMinutes: 15 },
+      { type: 'dropout', sensor: 6, startMinute: 4, durationMinutes: 6 },
+      { type: 'batteryDeath', sensor: 7, startMinute: 10 },
+    ],
+  },
+].map(parseScenario);
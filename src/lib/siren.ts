@@ -0,0 +1,113 @@
+// src/lib/siren.ts
+import { SirenPattern } from '@/types/settings';
+
+type AudioContextConstructor = typeof AudioContext;
+
+// Low and high pitch of the sweep, and how many sweeps per second
+const PATTERNS: Record<SirenPattern, { low: number; high: number; rate: number; wave: OscillatorType }> = {
+  wail: { low: 650, high: 1250, rate: 0.25, wave: 'sawtooth' },
+  yelp: { low: 700, high: 1400, rate: 3, wave: 'sawtooth' },
+  beep: { low: 880, high: 880, rate: 1.5, wave: 'square' },
+};
+
+const getAudioContextConstructor = (): AudioContextConstructor | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : window.AudioContext ?? (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext;
+
+// Looping siren synthesised with Web Audio, so no sound file has to be downloaded.
+// A sweep oscillator drives the pitch; 'beep' instead gates the volume on and off.
+export const createSiren = () => {
+  let context: AudioContext | null = null;
+  let nodes: AudioNode[] = [];
+  let output: GainNode | null = null;
+  let playing: { pattern: SirenPattern } | null = null;
+
+  const ensureContext = () => {
+    if (!context) {
+      const Context = getAudioContextConstructor();
+      if (!Context) return null;
+      context = new Context();
+    }
+    // Browsers keep the context suspended until the page has seen a user gesture
+    if (context.state === 'suspended') {
+      context.resume().catch(() => undefined);
+    }
+    return context;
+  };
+
+  const stop = () => {
+    nodes.forEach(node => {
+      if (node instanceof OscillatorNode) node.stop();
+      node.disconnect();
+    });
+    nodes = [];
+    output = null;
+    playing = null;
+  };
+
+  const setVolume = (volume: number) => {
+    if (output && context) {
+      // Perceived loudness is roughly logarithmic, so square the 0..1 value
+      output.gain.setTargetAtTime(Math.pow(volume / 100, 2) * 0.4, context.currentTime, 0.05);
+    }
+  };
+
+  const start = (pattern: SirenPattern, volume: number) => {
+    if (playing?.pattern === pattern) {
+      setVolume(volume);
+      return;
+    }
+    stop();
+    const ctx = ensureContext();
+    if (!ctx) return;
+
+    const { low, high, rate, wave } = PATTERNS[pattern];
+    const tone = ctx.createOscillator();
+    tone.type = wave;
+    tone.frequency.value = (low + high) / 2;
+
+    const sweep = ctx.createOscillator();
+    sweep.type = 'triangle';
+    sweep.frequency.value = rate;
+    const sweepDepth = ctx.createGain();
+
+    const gate = ctx.createGain();
+    output = ctx.createGain();
+    output.gain.value = 0;
+
+    if (pattern === 'beep') {
+      // Square wave around zero opens and closes the gate
+      sweep.type = 'square';
+      gate.gain.value = 0.5;
+      sweepDepth.gain.value = 0.5;
+      sweep.connect(sweepDepth).connect(gate.gain);
+    } else {
+      sweepDepth.gain.value = (high - low) / 2;
+      sweep.connect(sweepDepth).connect(tone.frequency);
+    }
+
+    tone.connect(gate).connect(output).connect(ctx.destination);
+    tone.start();
+    sweep.start();
+    nodes = [tone, sweep, sweepDepth, gate, output];
+    playing = { pattern };
+    setVolume(volume);
+  };
+
+  // Resume the audio context on the first interaction so a siren started
+  // before any click (e.g. right after a reload) becomes audible
+  const unlock = () => {
+    if (context?.state === 'suspended') {
+      context.resume().catch(() => undefined);
+    }
+  };
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+  }
+
+  return { start, stop, setVolume, isPlaying: () => playing !== null };
+};
+
+export type Siren = ReturnType<typeof createSiren>;
@@ -0,0 +1,155 @@
+// src/lib/spreadPrediction.ts
+import { SensorData } from '@/types/sensor';
+import { HistoryPoint } from '@/types/history';
+import { ThresholdProfile } from '@/types/thresholds';
+import { MetricRates, SpreadPrediction, WindInput } from '@/types/spread';
+import { getMetricRisk } from './heatmap';
+
+export const SPREAD_HORIZONS_MINUTES = [15, 30, 60];
+
+// Sensors closer than this to a burning sensor steer its predicted spread
+export const NEIGHBOUR_RADIUS_METERS = 3000;
+
+// History used for the rates of change
+export const RATE_WINDOW_MS = 15 * 60 * 1000;
+
+const MIN_FIRE_RADIUS_METERS = 150;
+const MAX_FIRE_RADIUS_METERS = 1000;
+// Surface fire spread in still air, scaled by severity (metres per minute)
+const MIN_BASE_RATE = 1;
+const MAX_BASE_RATE = 10;
+const POLYGON_BEARINGS = 48;
+const METERS_PER_DEGREE_LAT = 111320;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+type Reading = Pick<SensorData, 'temp' | 'smoke' | 'humidity' | 'isFire'>;
+
+// How intensely a sensor reads as burning, 0..1. A sensor reporting fire is never below 0.3.
+export const getFireSeverity = (reading: Reading, profile: ThresholdProfile) => {
+  const severity =
+    0.45 * getMetricRisk('temp', reading, profile) +
+    0.35 * getMetricRisk('smoke', reading, profile) +
+    0.2 * getMetricRisk('humidity', reading, profile);
+  return reading.isFire ? Math.max(0.3, severity) : severity;
+};
+
+// Radius of the fire zone drawn around a burning sensor
+export const getFireRadiusMeters = (severity: number) =>
+  MIN_FIRE_RADIUS_METERS + (MAX_FIRE_RADIUS_METERS - MIN_FIRE_RADIUS_METERS) * clamp01(severity);
+
+// Least-squares slope per minute; robust to uneven reporting intervals
+const slopePerMinute = (points: Array<{ time: number; value: number }>) => {
+  if (points.length < 2) return 0;
+  const meanTime = points.reduce((sum, point) => sum + point.time, 0) / points.length;
+  const meanValue = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach(point => {
+    numerator += (point.time - meanTime) * (point.value - meanValue);
+    denominator += (point.time - meanTime) ** 2;
+  });
+  return denominator === 0 ? 0 : (numerator / denominator) * 60 * 1000;
+};
+
+export const getMetricRates = (points: HistoryPoint[]): MetricRates => ({
+  tempPerMinute: slopePerMinute(points.map(point => ({ time: point.time, value: point.temp }))),
+  smokePerMinute: slopePerMinute(points.map(point => ({ time: point.time, value: point.smoke }))),
+});
+
+export const distanceMeters = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) => {
+  const dy = (b.latitude - a.latitude) * METERS_PER_DEGREE_LAT;
+  const dx = (b.longitude - a.longitude) * METERS_PER_DEGREE_LAT * Math.cos((a.latitude * Math.PI) / 180);
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+// Degrees clockwise from north, from a to b
+const bearingDeg = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }) => {
+  const dy = b.latitude - a.latitude;
+  const dx = (b.longitude - a.longitude) * Math.cos((a.latitude * Math.PI) / 180);
+  return ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+};
+
+const offset = (latitude: number, longitude: number, bearing: number, meters: number): [number, number] => {
+  const radians = (bearing * Math.PI) / 180;
+  const north = Math.cos(radians) * meters;
+  const east = Math.sin(radians) * meters;
+  return [
+    latitude + north / METERS_PER_DEGREE_LAT,
+    longitude + east / (METERS_PER_DEGREE_LAT * Math.cos((latitude * Math.PI) / 180)),
+  ];
+};
+
+// Length-to-breadth ratio of a wind-driven fire: round in still air, at most 8:1
+const lengthToBreadth = (speedKmh: number) => Math.min(8, 1 + 0.25 * (Math.max(0, speedKmh) / 1.609));
+
+// Rising temperature and smoke mean the fire is growing; 0..1
+const getEscalation = (rates: MetricRates, profile: ThresholdProfile) =>
+  0.5 * clamp01(rates.tempPerMinute / 2) + 0.5 * clamp01(rates.smokePerMinute / (0.1 * profile.smokeWarning));
+
+export interface SpreadSensor {
+  sensor: SensorData;
+  profile: ThresholdProfile;
+  rates: MetricRates;
+}
+
+// Projected perimeters as an ellipse stretched downwind from the sensor (the fire
+// sits at the rear focus), pushed further toward neighbours that are heating up.
+// A coarse operator aid, not a fire behaviour model.
+export const predictSpread = (
+  { sensor, profile, rates }: SpreadSensor,
+  neighbours: SpreadSensor[],
+  wind: WindInput,
+  horizons: number[] = SPREAD_HORIZONS_MINUTES
+): SpreadPrediction => {
+  const severity = getFireSeverity(sensor, profile);
+  const dryness = getMetricRisk('humidity', sensor, profile);
+  const escalation = getEscalation(rates, profile);
+
+  const baseRate = MIN_BASE_RATE + (MAX_BASE_RATE - MIN_BASE_RATE) * severity;
+  const windFactor = 1 + 0.05 * Math.max(0, wind.speedKmh);
+  const headRate = baseRate * (1 + dryness) * (1 + escalation) * windFactor;
+
+  const ratio = lengthToBreadth(wind.speedKmh);
+  const eccentricity = Math.sqrt(ratio * ratio - 1) / ratio;
+  const downwind = (wind.directionDeg + 180) % 360;
+
+  // Neighbours that are hot or heating pull the perimeter toward them, fading with distance
+  const pulls = neighbours
+    .map(neighbour => {
+      const distance = distanceMeters(sensor, neighbour.sensor);
+      if (distance === 0 || distance > NEIGHBOUR_RADIUS_METERS) return null;
+      const heat = Math.max(getFireSeverity(neighbour.sensor, neighbour.profile), getEscalation(neighbour.rates, neighbour.profile));
+      return { bearing: bearingDeg(sensor, neighbour.sensor), weight: heat * (1 - distance / NEIGHBOUR_RADIUS_METERS) };
+    })
+    .filter((pull): pull is { bearing: number; weight: number } => pull !== null && pull.weight > 0);
+
+  const directionalRate = (bearing: number) => {
+    const theta = ((bearing - downwind) * Math.PI) / 180;
+    const shape = (1 - eccentricity) / (1 - eccentricity * Math.cos(theta));
+    const boost = pulls.reduce((total, pull) => {
+      const alignment = Math.max(0, Math.cos(((bearing - pull.bearing) * Math.PI) / 180));
+      return total + 0.5 * pull.weight * alignment * alignment;
+    }, 0);
+    return headRate * shape * Math.min(2, 1 + boost);
+  };
+
+  const currentRadiusMeters = getFireRadiusMeters(severity);
+  const bearings = Array.from({ length: POLYGON_BEARINGS }, (_, index) => (index * 360) / POLYGON_BEARINGS);
+  const spreadRates = bearings.map(directionalRate);
+
+  return {
+    deviceId: sensor.deviceId,
+    latitude: sensor.latitude,
+    longitude: sensor.longitude,
+    severity,
+    currentRadiusMeters,
+    headRateMetersPerMinute: headRate,
+    horizons: horizons.map(minutes => {
+      const ring = bearings.map((bearing, index) =>
+        offset(sensor.latitude, sensor.longitude, bearing, currentRadiusMeters + spreadRates[index] * minutes)
+      );
+      return { minutes, polygon: [...ring, ring[0]] };
+    }),
+  };
+};
@@ -0,0 +1,104 @@
+// src/lib/staticMap.ts
+
+// OpenStreetMap tiles, the same source as the live map; the server allows cross-origin canvas use
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_SIZE = 256;
+const TILE_TIMEOUT_MS = 8000;
+
+interface StaticMapOptions {
+  width: number;
+  height: number;
+  zoom: number;
+}
+
+// Web Mercator world pixel coordinates at the given zoom
+const project = (lat: number, lng: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const latRad = (lat * Math.PI) / 180;
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale,
+  };
+};
+
+const loadTile = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    const timer = window.setTimeout(() => reject(new Error(`Timed out loading ${url}`)), TILE_TIMEOUT_MS);
+    image.crossOrigin = 'anonymous';
+    image.onload = () => {
+      window.clearTimeout(timer);
+      resolve(image);
+    };
+    image.onerror = () => {
+      window.clearTimeout(timer);
+      reject(new Error(`Could not load ${url}`));
+    };
+    image.src = url;
+  });
+
+// PNG data URL of the map around a point with a marker on it, or null when the
+// tiles cannot be fetched (offline, blocked) so callers can fall back to coordinates
+export const renderStaticMap = async (
+  lat: number,
+  lng: number,
+  { width, height, zoom }: StaticMapOptions
+): Promise<string | null> => {
+  const center = project(lat, lng, zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { x: number; y: number; url: string }[] = [];
+  for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + width) / TILE_SIZE); x++) {
+    for (let y = Math.floor(top / TILE_SIZE); y <= Math.floor((top + height) / TILE_SIZE); y++) {
+      if (y < 0 || y >= tileCount) continue;
+      // Wrap across the antimeridian
+      const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+      const url = TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(y));
+      tiles.push({ x, y, url });
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  try {
+    const images = await Promise.all(tiles.map(tile => loadTile(tile.url)));
+    images.forEach((image, index) => {
+      ctx.drawImage(image, tiles[index].x * TILE_SIZE - left, tiles[index].y * TILE_SIZE - top);
+    });
+  } catch (error) {
+    console.warn('Static map unavailable:', error);
+    return null;
+  }
+
+  // Marker at the sensor position
+  ctx.beginPath();
+  ctx.arc(width / 2, height / 2, 9, 0, Math.PI * 2);
+  ctx.fillStyle = '#ef4444';
+  ctx.fill();
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+
+  // Attribution required by the tile usage policy
+  const attribution = '© OpenStreetMap contributors';
+  ctx.font = '11px sans-serif';
+  const textWidth = ctx.measureText(attribution).width;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.fillRect(width - textWidth - 8, height - 16, textWidth + 8, 16);
+  ctx.fillStyle = '#333333';
+  ctx.fillText(attribution, width - textWidth - 4, height - 4);
+
+  try {
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    // A tile served without CORS headers taints the canvas
+    console.warn('Static map unavailable:', error);
+    return null;
+  }
+};
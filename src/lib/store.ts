@@ -0,0 +1,49 @@
+import * as React from "react";
+
+export interface Store<T> {
+  getState: () => T;
+  setState: (update: T | ((state: T) => T)) => void;
+  subscribe: (listener: (state: T) => void) => () => void;
+  useStore: () => T;
+}
+
+// In-memory counterpart of createPersistedStore for runtime-only state
+export function createStore<T>(initialState: T): Store<T> {
+  const listeners: Array<(state: T) => void> = [];
+  let memoryState = initialState;
+
+  const getState = () => memoryState;
+
+  const setState = (update: T | ((state: T) => T)) => {
+    const next =
+      typeof update === "function" ? (update as (state: T) => T)(memoryState) : update;
+    if (Object.is(next, memoryState)) return;
+    memoryState = next;
+    listeners.forEach((listener) => {
+      listener(memoryState);
+    });
+  };
+
+  const subscribe = (listener: (state: T) => void) => {
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  };
+
+  function useStore() {
+    const [state, setLocalState] = React.useState<T>(getState);
+
+    React.useEffect(() => {
+      setLocalState(getState());
+      return subscribe(setLocalState);
+    }, []);
+
+    return state;
+  }
+
+  return { getState, setState, subscribe, useStore };
+}
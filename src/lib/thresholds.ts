@@ -0,0 +1,162 @@
+// src/lib/thresholds.ts
+import { z } from 'zod';
+import { SensorData } from '@/types/sensor';
+import { RiskLevel, SensorStatusLevel, ThresholdProfile, ThresholdState } from '@/types/thresholds';
+
+export const DEFAULT_PROFILE_ID = 'standard';
+
+export const BUILT_IN_PROFILES: ThresholdProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Standard',
+    description: 'General purpose limits for mixed forest',
+    tempWarning: 35,
+    tempCritical: 60,
+    smokeWarning: 50,
+    smokeCritical: 100,
+    humidityWarning: 30,
+    humidityCritical: 15,
+  },
+  {
+    id: 'monsoon',
+    name: 'Monsoon',
+    description: 'Wet season, humid air keeps baseline smoke and heat low',
+    tempWarning: 38,
+    tempCritical: 65,
+    smokeWarning: 60,
+    smokeCritical: 120,
+    humidityWarning: 45,
+    humidityCritical: 30,
+  },
+  {
+    id: 'dry-season',
+    name: 'Dry Season',
+    description: 'Pre-monsoon months with dry litter and high ignition risk',
+    tempWarning: 32,
+    tempCritical: 50,
+    smokeWarning: 40,
+    smokeCritical: 80,
+    humidityWarning: 35,
+    humidityCritical: 20,
+  },
+  {
+    id: 'high-altitude',
+    name: 'High Altitude',
+    description: 'Cooler alpine and sub-alpine sensors',
+    tempWarning: 25,
+    tempCritical: 45,
+    smokeWarning: 40,
+    smokeCritical: 80,
+    humidityWarning: 25,
+    humidityCritical: 12,
+  },
+];
+
+export const thresholdProfileSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, 'Name is required'),
+    description: z.string().optional(),
+    tempWarning: z.number().finite(),
+    tempCritical: z.number().finite(),
+    smokeWarning: z.number().min(0),
+    smokeCritical: z.number().min(0),
+    humidityWarning: z.number().min(0).max(100),
+    humidityCritical: z.number().min(0).max(100),
+  })
+  .refine(profile => profile.tempCritical > profile.tempWarning, {
+    message: 'Critical temperature must be above the warning level',
+    path: ['tempCritical'],
+  })
+  .refine(profile => profile.smokeCritical > profile.smokeWarning, {
+    message: 'Critical smoke must be above the warning level',
+    path: ['smokeCritical'],
+  })
+  .refine(profile => profile.humidityCritical < profile.humidityWarning, {
+    message: 'Critical humidity floor must be below the warning floor',
+    path: ['humidityCritical'],
+  });
+
+export const thresholdStateSchema = z.object({
+  profiles: z.array(thresholdProfileSchema).min(1),
+  activeProfileId: z.string(),
+  deviceAssignments: z.record(z.string()),
+});
+
+export const createDefaultThresholdState = (): ThresholdState => ({
+  profiles: BUILT_IN_PROFILES.map(profile => ({ ...profile })),
+  activeProfileId: DEFAULT_PROFILE_ID,
+  deviceAssignments: {},
+});
+
+// Device assignment wins over the global profile; unknown ids fall back safely
+export const resolveProfile = (state: ThresholdState, deviceId?: string): ThresholdProfile => {
+  const assignedId = deviceId ? state.deviceAssignments[deviceId] : undefined;
+  return (
+    state.profiles.find(profile => profile.id === assignedId) ??
+    state.profiles.find(profile => profile.id === state.activeProfileId) ??
+    state.profiles[0] ??
+    BUILT_IN_PROFILES[0]
+  );
+};
+
+type Reading = Pick<SensorData, 'isFire' | 'temp' | 'smoke' | 'humidity' | 'validationIssues'>;
+
+// Normalization fills a missing or invalid field with a placeholder and records an
+// issue for it; such placeholders are not real readings
+export const hasFieldIssue = (reading: Pick<SensorData, 'validationIssues'>, field: keyof SensorData) =>
+  Boolean(reading.validationIssues?.some(issue => issue.startsWith(`${field}:`)));
+
+// Fields without data never raise a warning
+export const isAboveWarning = (reading: Reading, profile: ThresholdProfile) =>
+  (!hasFieldIssue(reading, 'temp') && reading.temp > profile.tempWarning) ||
+  (!hasFieldIssue(reading, 'smoke') && reading.smoke > profile.smokeWarning) ||
+  (!hasFieldIssue(reading, 'humidity') && reading.humidity < profile.humidityWarning);
+
+export const getStatusLevel = (reading: Reading, profile: ThresholdProfile): SensorStatusLevel => {
+  if (reading.isFire) return 'fire';
+  if (isAboveWarning(reading, profile)) return 'warning';
+  return 'normal';
+};
+
+// Threshold level, raised to 'anomaly' when a reading inside the thresholds is
+// still unusual for the sensor. Warnings and fires always take precedence.
+export const getSensorLevel = (sensor: Reading & Pick<SensorData, 'anomaly'>, profile: ThresholdProfile): SensorStatusLevel => {
+  const level = getStatusLevel(sensor, profile);
+  return level === 'normal' && (sensor.anomaly?.findings.length ?? 0) > 0 ? 'anomaly' : level;
+};
+
+export const STATUS_LABELS: Record<SensorStatusLevel, string> = {
+  normal: 'NORMAL',
+  anomaly: 'ANOMALY',
+  warning: 'WARNING',
+  fire: 'FIRE DETECTED',
+};
+
+// Tailwind classes and raw colours for every place a status is drawn
+export const STATUS_STYLES: Record<SensorStatusLevel, { badge: string; text: string; hex: string }> = {
+  normal: { badge: 'bg-forest-success text-white', text: 'text-green-600', hex: '#22c55e' },
+  anomaly: { badge: 'bg-sky-600 text-white', text: 'text-sky-600', hex: '#0284c7' },
+  warning: { badge: 'bg-forest-warning text-white', text: 'text-yellow-600', hex: '#f59e0b' },
+  fire: { badge: 'bg-forest-danger text-white', text: 'text-red-600', hex: '#ef4444' },
+};
+
+// Risk for a metric that gets worse as it rises (temperature, smoke)
+export const getRisingRisk = (value: number, warning: number, critical: number): RiskLevel => {
+  if (value > critical) return 'High';
+  if (value > warning) return 'Medium';
+  return 'Low';
+};
+
+// Risk for a metric that gets worse as it falls (humidity)
+export const getFallingRisk = (value: number, warning: number, critical: number): RiskLevel => {
+  if (value < critical) return 'High';
+  if (value < warning) return 'Medium';
+  return 'Low';
+};
+
+export const RISK_BAR_CLASSES: Record<RiskLevel, string> = {
+  Low: 'bg-green-600',
+  Medium: 'bg-yellow-500',
+  High: 'bg-red-600',
+};
@@ -0,0 +1,183 @@
+// src/lib/zones.ts
+import { z } from 'zod';
+import { SensorData } from '@/types/sensor';
+import { SensorStatusLevel } from '@/types/thresholds';
+import { ForestZone, Position, ZoneAssignment, ZoneLevel, ZoneSummary } from '@/types/zones';
+
+export const ZONE_LEVELS: ZoneLevel[] = ['division', 'range', 'beat'];
+
+export const ZONE_LEVEL_LABELS: Record<ZoneLevel, string> = {
+  division: 'Division',
+  range: 'Range',
+  beat: 'Beat',
+};
+
+const STATUS_RANK: Record<SensorStatusLevel, number> = { normal: 0, anomaly: 1, warning: 2, fire: 3 };
+
+// "Kedarnath range", "Rudraprayag division"
+export const formatZoneName = (zone: ForestZone) => `${zone.name} ${zone.level}`;
+
+// Most specific zone first, e.g. beat before range
+export const getMostSpecificZone = (assignment: ZoneAssignment) =>
+  assignment.beat ?? assignment.range ?? assignment.division;
+
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+const ringSchema = z.array(positionSchema).min(4, 'A polygon ring needs at least 4 positions');
+
+const geometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(ringSchema).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(ringSchema).min(1)).min(1) }),
+]);
+
+const featureSchema = z.object({
+  type: z.literal('Feature'),
+  id: z.union([z.string(), z.number()]).optional(),
+  properties: z.record(z.unknown()).nullable().optional(),
+  geometry: geometrySchema,
+});
+
+const zoneSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  level: z.enum(['division', 'range', 'beat']),
+  polygons: z.array(z.array(z.array(z.tuple([z.number(), z.number()])))),
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+});
+
+// Stored zones; anything unreadable is dropped rather than losing every zone
+export const parseStoredZones = (raw: unknown): ForestZone[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(entry => {
+    const result = zoneSchema.safeParse(entry);
+    return result.success ? [result.data as ForestZone] : [];
+  });
+};
+
+const pickString = (properties: Record<string, unknown>, keys: string[]) => {
+  for (const key of keys) {
+    const value = properties[key] ?? properties[key.toUpperCase()];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+  return undefined;
+};
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const computeBbox = (polygons: Position[][][]): ForestZone['bbox'] => {
+  const positions = polygons.flat(2);
+  return [
+    Math.min(...positions.map(position => position[0])),
+    Math.min(...positions.map(position => position[1])),
+    Math.max(...positions.map(position => position[0])),
+    Math.max(...positions.map(position => position[1])),
+  ];
+};
+
+// Accepts a FeatureCollection or a single Feature with Polygon or MultiPolygon
+// geometry. Each feature needs a name and a level (division, range or beat),
+// read from common property spellings. Throws with the offending feature.
+export const parseZoneGeoJson = (raw: unknown): ForestZone[] => {
+  const collection = raw as { type?: string; features?: unknown[] };
+  const features = collection?.type === 'FeatureCollection' ? collection.features ?? [] : [raw];
+  if (features.length === 0) throw new Error('The file contains no features');
+
+  const zones = features.map((entry, index) => {
+    const result = featureSchema.safeParse(entry);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Feature ${index + 1}: ${issue.path.join('.') || 'feature'} ${issue.message.toLowerCase()}`);
+    }
+    const feature = result.data;
+    const properties = feature.properties ?? {};
+    const name = pickString(properties, ['name', 'zone_name', 'zoneName', 'title']);
+    const levelValue = pickString(properties, ['level', 'zone_type', 'zoneType', 'type'])?.toLowerCase();
+    if (!name) throw new Error(`Feature ${index + 1} has no name property`);
+    if (!levelValue || !ZONE_LEVELS.includes(levelValue as ZoneLevel)) {
+      throw new Error(`Feature ${index + 1} (${name}): level must be division, range or beat`);
+    }
+    const level = levelValue as ZoneLevel;
+
+    const rings = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+    const polygons = rings.map(polygon =>
+      polygon.map(ring => ring.map(position => [position[0], position[1]] as Position))
+    );
+
+    const id = pickString(properties, ['id', 'code']) ?? (feature.id !== undefined ? String(feature.id) : undefined);
+    return {
+      id: `${level}:${slug(id ?? name)}`,
+      name,
+      level,
+      polygons,
+      bbox: computeBbox(polygons),
+    };
+  });
+
+  const seen = new Set<string>();
+  zones.forEach(zone => {
+    if (seen.has(zone.id)) throw new Error(`Two ${zone.level} zones share the id ${zone.id.split(':')[1]}`);
+    seen.add(zone.id);
+  });
+  return zones;
+};
+
+// Ray casting; points exactly on an edge may fall either way
+const pointInRing = (lng: number, lat: number, ring: Position[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const zoneContains = (zone: ForestZone, latitude: number, longitude: number) => {
+  const [minLng, minLat, maxLng, maxLat] = zone.bbox;
+  if (longitude < minLng || longitude > maxLng || latitude < minLat || latitude > maxLat) return false;
+  return zone.polygons.some(
+    ([outer, ...holes]) =>
+      pointInRing(longitude, latitude, outer) && !holes.some(hole => pointInRing(longitude, latitude, hole))
+  );
+};
+
+const bboxArea = (zone: ForestZone) => (zone.bbox[2] - zone.bbox[0]) * (zone.bbox[3] - zone.bbox[1]);
+
+// Overlapping zones of one level resolve to the smallest
+export const assignZones = (zones: ForestZone[], latitude: number, longitude: number): ZoneAssignment => {
+  const assignment: ZoneAssignment = {};
+  zones.forEach(zone => {
+    if (!zoneContains(zone, latitude, longitude)) return;
+    const current = assignment[zone.level];
+    if (!current || bboxArea(zone) < bboxArea(current)) assignment[zone.level] = zone;
+  });
+  return assignment;
+};
+
+export const summarizeZones = (
+  zones: ForestZone[],
+  sensors: SensorData[],
+  getAssignment: (sensor: SensorData) => ZoneAssignment,
+  getLevel: (sensor: SensorData) => SensorStatusLevel
+): ZoneSummary[] => {
+  const summaries = new Map<string, ZoneSummary>(
+    zones.map(zone => [zone.id, { zone, sensorCount: 0, fireCount: 0, warningCount: 0, status: 'normal' }])
+  );
+  sensors.forEach(sensor => {
+    const level = getLevel(sensor);
+    Object.values(getAssignment(sensor)).forEach(zone => {
+      const summary = summaries.get(zone.id);
+      if (!summary) return;
+      summary.sensorCount += 1;
+      if (level === 'fire') summary.fireCount += 1;
+      if (level === 'warning') summary.warningCount += 1;
+      if (STATUS_RANK[level] > STATUS_RANK[summary.status]) summary.status = level;
+    });
+  });
+  return [...summaries.values()];
+};
+
+export const isInZone = (assignment: ZoneAssignment, zoneId: string) =>
+  Object.values(assignment).some(zone => zone.id === zoneId);
@@ -0,0 +1,364 @@
+// src/pages/AlertInbox.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { LogOut, Bell, MapPin, Activity, Search, MessageSquare, ArrowUpCircle, FileText } from 'lucide-react';
+import { useAlerts } from '@/hooks/use-alerts';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { toast } from '@/hooks/use-toast';
+import { getSessionReportPath } from '@/lib/sessionFilters';
+import {
+  ALERT_STATE_LABELS,
+  ALERT_STATE_STYLES,
+  ALERT_STATES,
+  ALERT_TRANSITIONS,
+  isOpenAlert,
+} from '@/lib/alertLifecycle';
+import { AlertEvent, AlertState, FireAlert } from '@/types/alert';
+
+type StateFilter = 'open' | 'all' | AlertState;
+
+const describeEvent = (event: AlertEvent) => {
+  switch (event.type) {
+    case 'raised':
+      return 'Alert raised';
+    case 'escalated':
+      return 'Escalated';
+    case 'sensor_cleared':
+      return 'Sensor cleared';
+    case 'note':
+      return 'Note';
+    case 'transition':
+      return `${ALERT_STATE_LABELS[event.from as AlertState]} → ${ALERT_STATE_LABELS[event.to as AlertState]}`;
+  }
+};
+
+const AlertInbox: React.FC = () => {
+  const navigate = useNavigate();
+  const format = useFormatters();
+  const { settings } = useSettings();
+  const { alerts, openAlerts, setAlertState, noteAlert } = useAlerts();
+  const { getDisplayName } = useSensorRegistry();
+
+  const [stateFilter, setStateFilter] = useState<StateFilter>('open');
+  const [search, setSearch] = useState('');
+  const [escalatedOnly, setEscalatedOnly] = useState(false);
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const [operator, setOperator] = useState(settings.alerts.operatorName);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    setOperator(current => current || settings.alerts.operatorName);
+  }, [settings.alerts.operatorName]);
+
+  const filteredAlerts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return alerts
+      .filter(alert => {
+        if (stateFilter === 'open' && !isOpenAlert(alert)) return false;
+        if (stateFilter !== 'open' && stateFilter !== 'all' && alert.state !== stateFilter) return false;
+        if (escalatedOnly && alert.escalations === 0) return false;
+        return (
+          !query ||
+          alert.deviceId.toLowerCase().includes(query) ||
+          getDisplayName(alert.deviceId).toLowerCase().includes(query)
+        );
+      })
+      .sort((a, b) => new Date(b.lastRaisedAt).getTime() - new Date(a.lastRaisedAt).getTime());
+  }, [alerts, stateFilter, search, escalatedOnly, getDisplayName]);
+
+  const selectedAlert = alerts.find(alert => alert.id === selectedAlertId) ?? null;
+  const operatorName = operator.trim();
+
+  const countByState = (state: AlertState) => alerts.filter(alert => alert.state === state).length;
+
+  const handleTransition = (alert: FireAlert, to: AlertState) => {
+    try {
+      setAlertState(alert.id, to, operatorName, note);
+      setNote('');
+      toast({ title: `Alert marked ${ALERT_STATE_LABELS[to].toLowerCase()}` });
+    } catch (error) {
+      toast({ title: 'Could not update alert', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const handleAddNote = (alert: FireAlert) => {
+    noteAlert(alert.id, operatorName, note);
+    setNote('');
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">Alert Inbox</h1>
+            <p className="text-sm text-muted-foreground">Acknowledge, dispatch and close fire alerts</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => navigate('/')}
+          >
+            Dashboard
+          </Button>
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <LogOut className="w-4 h-4 mr-2" />
+            Logout
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6 space-y-6">
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(['new', 'acknowledged', 'dispatched', 'contained'] as AlertState[]).map(state => (
+            <Card key={state} className="glass-card">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">{ALERT_STATE_LABELS[state]}</p>
+                <p className="text-2xl font-bold text-forest-primary">{countByState(state)}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Filters */}
+        <div className="glass-card p-4 rounded-lg flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={stateFilter} onValueChange={value => setStateFilter(value as StateFilter)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open ({openAlerts.length})</SelectItem>
+                <SelectItem value="all">All ({alerts.length})</SelectItem>
+                {ALERT_STATES.map(state => (
+                  <SelectItem key={state} value={state}>{ALERT_STATE_LABELS[state]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 flex-1 min-w-[12rem]">
+            <Label htmlFor="alert-search">Device</Label>
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-3 text-muted-foreground" />
+              <Input
+                id="alert-search"
+                value={search}
+                onChange={event => setSearch(event.target.value)}
+                placeholder="Search by device id"
+                className="pl-9"
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="alert-escalated" checked={escalatedOnly} onCheckedChange={setEscalatedOnly} />
+            <Label htmlFor="alert-escalated">Escalated only</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Alert list */}
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-forest-primary flex items-center gap-2">
+                <Bell className="w-5 h-5" />
+                Alerts ({filteredAlerts.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3 max-h-[36rem] overflow-y-auto">
+                {filteredAlerts.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">No alerts match these filters</p>
+                ) : (
+                  filteredAlerts.map(alert => (
+                    <div
+                      key={alert.id}
+                      onClick={() => setSelectedAlertId(alert.id)}
+                      className={`p-3 rounded-lg border cursor-pointer transition-all duration-200 hover:shadow-md ${
+                        alert.id === selectedAlertId
+                          ? 'border-forest-primary bg-forest-primary/5'
+                          : 'border-forest-accent/30 hover:border-forest-accent'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <h4 className="font-medium text-forest-primary">{getDisplayName(alert.deviceId)}</h4>
+                        <Badge className={ALERT_STATE_STYLES[alert.state]}>{ALERT_STATE_LABELS[alert.state]}</Badge>
+                      </div>
+                      <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                        <span>Raised {format.dateTime(alert.raisedAt)}</span>
+                        {alert.acknowledgedBy && (
+                          <span>Acknowledged by {alert.acknowledgedBy}</span>
+                        )}
+                        {alert.escalations > 0 && (
+                          <span className="text-forest-danger font-medium">Escalated ×{alert.escalations}</span>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Alert detail */}
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="text-forest-primary">
+                {selectedAlert ? getDisplayName(selectedAlert.deviceId) : 'Alert details'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!selectedAlert ? (
+                <p className="text-muted-foreground text-sm">Select an alert to act on it and see its history</p>
+              ) : (
+                <div className="space-y-5">
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Status:</span>
+                      <Badge className={`ml-2 ${ALERT_STATE_STYLES[selectedAlert.state]}`}>
+                        {ALERT_STATE_LABELS[selectedAlert.state]}
+                      </Badge>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Raised:</span>
+                      <span className="ml-1 font-medium">{format.dateTime(selectedAlert.raisedAt)}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Acknowledged:</span>
+                      <span className="ml-1 font-medium">
+                        {selectedAlert.acknowledgedAt
+                          ? `${selectedAlert.acknowledgedBy}, ${format.dateTime(selectedAlert.acknowledgedAt)}`
+                          : 'Not yet'}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Location:</span>
+                      <span className="ml-1 font-medium">
+                        {selectedAlert.latitude.toFixed(4)}, {selectedAlert.longitude.toFixed(4)}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
+                      onClick={() => navigate(`/?sensor=${selectedAlert.deviceId}`)}
+                    >
+                      <MapPin className="w-4 h-4 mr-1" />
+                      View in Map
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
+                      onClick={() => navigate(`/monitoring/${selectedAlert.deviceId}`)}
+                    >
+                      <Activity className="w-4 h-4 mr-1" />
+                      Live Monitor
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
+                      onClick={() => navigate(getSessionReportPath(selectedAlert.sessionId))}
+                    >
+                      <FileText className="w-4 h-4 mr-1" />
+                      Session Report
+                    </Button>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="inbox-operator">Operator</Label>
+                      <Input
+                        id="inbox-operator"
+                        value={operator}
+                        onChange={event => setOperator(event.target.value)}
+                        placeholder="Your name"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="inbox-note">Note</Label>
+                      <Textarea
+                        id="inbox-note"
+                        value={note}
+                        onChange={event => setNote(event.target.value)}
+                        placeholder="Crew dispatched, what was found, ..."
+                        rows={2}
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {ALERT_TRANSITIONS[selectedAlert.state].map(state => (
+                        <Button
+                          key={state}
+                          size="sm"
+                          disabled={!operatorName}
+                          className={ALERT_STATE_STYLES[state]}
+                          onClick={() => handleTransition(selectedAlert, state)}
+                        >
+                          <ArrowUpCircle className="w-4 h-4 mr-1" />
+                          {ALERT_STATE_LABELS[state]}
+                        </Button>
+                      ))}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!operatorName || !note.trim()}
+                        onClick={() => handleAddNote(selectedAlert)}
+                      >
+                        <MessageSquare className="w-4 h-4 mr-1" />
+                        Add note
+                      </Button>
+                    </div>
+                    {!operatorName && (
+                      <p className="text-xs text-muted-foreground">Enter your name to act on this alert.</p>
+                    )}
+                  </div>
+
+                  {/* Audit trail */}
+                  <div>
+                    <h4 className="font-medium text-forest-primary mb-2">Audit trail</h4>
+                    <ol className="space-y-2 border-l border-forest-accent/50 pl-4">
+                      {[...selectedAlert.events].reverse().map((event, index) => (
+                        <li key={`${event.at}-${index}`} className="text-sm">
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium">{describeEvent(event)}</span>
+                            <span className="text-xs text-muted-foreground">{format.dateTime(event.at)}</span>
+                          </div>
+                          {event.by && <p className="text-xs text-muted-foreground">by {event.by}</p>}
+                          {event.note && <p className="text-muted-foreground">{event.note}</p>}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default AlertInbox;
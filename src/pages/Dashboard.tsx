@@ -1,110 +1,77 @@
 // src/pages/Dashboard.tsx
-import React, { useState, useEffect, useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import LeafletMap, { LeafletMapHandle } from '@/components/LeafletMap';
-import { getFireAlerts } from '@/api/fireAlerts';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { useFireAlerts } from '@/hooks/use-fire-alerts';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { useSensorHealth } from '@/hooks/use-sensor-health';
+import { useSensorAnomalies } from '@/hooks/use-sensor-anomalies';
+import { useFireDanger } from '@/hooks/use-fire-danger';
+import { useSpreadPredictions } from '@/hooks/use-spread-prediction';
+import WindControl from '@/components/WindControl';
+import { normalizeSensors } from '@/api/sensorNormalization';
+import { DANGER_LABELS, DANGER_STYLES, getNetworkDanger } from '@/lib/fireDanger';
 import { SensorData } from '@/types/sensor';
 import { Button } from '@/components/ui/button';
-import { LogOut } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { LogOut, Gauge } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
-import FireAlertPopup from '@/components/FireAlertPopup';
-
-// Convert API data to SensorData format with proper error handling
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-
-  return apiDevices.map(device => {
-    // Safely extract device ID with fallbacks
-    const deviceId =
-      device.deviceId ||
-      device.id ||
-      (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
-
-    // Safely extract ID with fallback to deviceId
-    const id = device._id || device.id || deviceId;
-
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || device.temperature || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp:
-        device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: device.name || `Sensor ${deviceId}`,
-      status: device.isfire || device.isFire ? 'warning' : 'active',
-    };
-  });
-};
 
 const Dashboard: React.FC = () => {
   const [selectedSensorId, setSelectedSensorId] = useState<string>('');
-  const [fireAlerts, setFireAlerts] = useState<SensorData[]>([]);
-  const [showAlertPopup, setShowAlertPopup] = useState(false);
-  const [previousFireCount, setPreviousFireCount] = useState(0);
   const mapRef = useRef<LeafletMapHandle>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Navigation key of the ?sensor= link already focused, so every new link focuses again
+  const focusedLinkRef = useRef<string | null>(null);
+  const { getProfile } = useThresholds();
+  const { withMetadata } = useSensorRegistry();
+  const { settings } = useSettings();
+  const format = useFormatters();
 
   // Query returns AlertData[] (array), not { success, devices }
-  const { data: apiResponse = [], isLoading, error } = useQuery({
-    queryKey: ['fireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 40000, // Refetch every 40 seconds
-  });
+  const { data: apiResponse = [], isLoading, error, dataUpdatedAt } = useFireAlerts(settings.polling.dashboard);
 
-  // Convert the array into SensorData[]
-  const apiSensors: SensorData[] = convertApiToSensorData(apiResponse);
-  const currentFireCount = apiSensors.filter(sensor => sensor.isFire).length;
+  // Convert the array into SensorData[]; memoised so the map only updates when readings change
+  const registeredSensors: SensorData[] = useMemo(
+    () => withMetadata(normalizeSensors(apiResponse, getProfile)),
+    [apiResponse, getProfile, withMetadata]
+  );
+  const checkedSensors = useSensorHealth(registeredSensors);
+  const analyzedSensors = useSensorAnomalies(checkedSensors);
+  const apiSensors = useFireDanger(analyzedSensors);
+  const networkDanger = useMemo(() => getNetworkDanger(apiSensors), [apiSensors]);
+
+  const spreadPredictions = useSpreadPredictions(apiSensors, getProfile);
+
+  // Stable so the map does not treat every render as new props
+  const handleSensorClick = useCallback((sensor: SensorData) => {
+    setSelectedSensorId(sensor.id);
+  }, []);
+
+  // Accepts a sensor id or a device id; returns false while the sensor has not loaded
+  const focusSensor = (sensorId: string) => {
+    const sensor = apiSensors.find(s => s.id === sensorId || s.deviceId === sensorId);
+    if (!sensor) return false;
+    setSelectedSensorId(sensor.id);
+    mapRef.current?.zoomToSensor(sensor);
+    return true;
+  };
 
-  // Check for new fire alerts
+  // Links such as /?sensor=DEV-1 from Sensor Status, alerts and the Alert Inbox
+  const sensorParam = searchParams.get('sensor');
   useEffect(() => {
-    const fireSensors = apiSensors.filter(sensor => sensor.isFire);
-    
-    // Only show popup if there are new fires that weren't in the previous state
-    if (fireSensors.length > 0 && currentFireCount > previousFireCount) {
-      setFireAlerts(fireSensors);
-      setShowAlertPopup(true);
+    if (!sensorParam || focusedLinkRef.current === location.key) return;
+    if (focusSensor(sensorParam)) {
+      focusedLinkRef.current = location.key;
     }
-    
-    // Update the previous fire count
-    setPreviousFireCount(currentFireCount);
-  }, [apiSensors, currentFireCount, previousFireCount]);
-
-  const handleViewInMap = (sensorId: string) => {
-    setSelectedSensorId(sensorId);
-    setShowAlertPopup(false);
-    
-    // Find the sensor in our data
-    const sensor = apiSensors.find(s => s.id === sensorId);
-    if (sensor && mapRef.current) {
-      // Use the ref to zoom to the sensor
-      mapRef.current.zoomToSensor(sensor);
-    }
-  };
-
-  const handleLiveMonitoring = (sensorId: string) => {
-    // Navigate to Live Monitoring page with the specific sensor pre-selected
-    window.location.href = `/monitoring/${sensorId}`;
-  };
-
-  const handleClosePopup = () => {
-    setShowAlertPopup(false);
-  };
+  });
 
   return (
     <div className="min-h-screen">
-      {/* Fire Alert Popup */}
-      {showAlertPopup && fireAlerts.length > 0 && (
-        <FireAlertPopup
-          alerts={fireAlerts}
-          onViewInMap={handleViewInMap}
-          onLiveMonitoring={handleLiveMonitoring}
-          onClose={handleClosePopup}
-        />
-      )}
-
       {/* Header */}
       <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
         <div className="flex items-center gap-4">
@@ -117,6 +84,15 @@ const Dashboard: React.FC = () => {
               Real-time forest fire detection system
             </p>
           </div>
+          {networkDanger && (
+            <Badge
+              className={`${DANGER_STYLES[networkDanger.level].badge} flex items-center gap-1`}
+              title={`Highest at ${networkDanger.sensor.name || networkDanger.sensor.deviceId} (${networkDanger.score}/100)`}
+            >
+              <Gauge className="w-3 h-3" />
+              Fire danger: {DANGER_LABELS[networkDanger.level]} · {networkDanger.atLevel} of {networkDanger.total} sensors
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-4">
 <Button
@@ -151,25 +127,28 @@ const Dashboard: React.FC = () => {
       {/* Main Content */}
       <main className="p-6">
         <div className="glass-card p-6 rounded-lg">
-          <div className="mb-4">
-            <h2 className="text-2xl font-bold text-forest-primary mb-2">
-              Forest Sensor Network
-            </h2>
-            <p className="text-muted-foreground">
-              Monitor sensor locations and forest fire detection across the
-              region
-            </p>
+          <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-bold text-forest-primary mb-2">
+                Forest Sensor Network
+              </h2>
+              <p className="text-muted-foreground">
+                Monitor sensor locations and forest fire detection across the
+                region
+              </p>
+            </div>
+            {/* Wind drives the spread prediction drawn around active fires */}
+            <WindControl />
           </div>
 
           <div className="h-[600px] w-full">
             <LeafletMap
               ref={mapRef}
               sensors={apiSensors}
+              predictions={spreadPredictions}
               selectedSensorId={selectedSensorId}
-              onSensorClick={(sensor) => {
-                console.log('Sensor clicked:', sensor);
-                setSelectedSensorId(sensor.id);
-              }}
+              onSensorClick={handleSensorClick}
+              onZoneClick={zoneId => navigate(`/zones/${encodeURIComponent(zoneId)}`)}
               className="h-full w-full"
             />
           </div>
@@ -191,7 +170,7 @@ const Dashboard: React.FC = () => {
           <div className="mt-4 flex justify-between items-center text-sm text-muted-foreground">
             <span>API Sensors: {apiSensors.length}</span>
             <span>Active Fires: {apiSensors.filter((s) => s.isFire).length}</span>
-            <span>Last Updated: {new Date().toLocaleTimeString()}</span>
+            <span>Last Updated: {dataUpdatedAt ? format.time(dataUpdatedAt) : 'N/A'}</span>
           </div>
         </div>
       </main>
@@ -1,261 +1,174 @@
 // src/pages/LiveMonitoring.tsx
-import React, { useState, useEffect, useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getFireAlerts, getFireAlertByDeviceId } from '@/api/fireAlerts';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { useFireAlert, useFireAlerts } from '@/hooks/use-fire-alerts';
+import { useSensorHistory, useSensorsHistory } from '@/hooks/use-reading-history';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { useSensorAnomalies } from '@/hooks/use-sensor-anomalies';
+import { useFireDanger } from '@/hooks/use-fire-danger';
+import { getSensorLevel, getStatusLevel, STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { explainAnomalies, hasAnomaly } from '@/lib/anomalyDetection';
+import { classifySensorStatus, normalizeSensor, normalizeSensors } from '@/api/sensorNormalization';
+import { HistoryPoint } from '@/types/history';
+import { SensorData } from '@/types/sensor';
+import { SensorReading } from '@/types/session';
+import { useSessions } from '@/hooks/use-sessions';
+import { getReadingCount } from '@/lib/sessionEngine';
+import { getMonitoringPath } from '@/lib/readingHistory';
 import { Button } from '@/components/ui/button';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import SensorComparisonChart, { ComparisonSeries } from '@/components/SensorComparisonChart';
+import FireDangerIndicator from '@/components/FireDangerIndicator';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { LogOut, Thermometer, Droplets, Wind, AlertTriangle, Clock, MapPin, Monitor, Flame } from 'lucide-react';
+import { LogOut, Thermometer, Droplets, Wind, AlertTriangle, Clock, MapPin, Monitor, Flame, Activity, ChevronDown, X, LineChart as LineChartIcon, Pause, Play } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
-import { useParams, useNavigate } from 'react-router-dom';
-import { SensorData } from '@/types/sensor';
-
-interface SensorReading {
-  id: string;
-  deviceId: string;
-  latitude: number;
-  longitude: number;
-  humidity: number;
-  temp: number;
-  smoke: number;
-  isFire: boolean;
-  timestamp: string;
-  name: string;
-  status: string;
-}
-
-interface FireAlertSession {
-  id: string;
-  deviceId: string;
-  startTime: string;
-  endTime: string | null;
-  readings: SensorReading[];
-  maxTemp: number;
-  minTemp: number;
-  avgTemp: number;
-  maxSmoke: number;
-  minSmoke: number;
-  avgSmoke: number;
-  maxHumidity: number;
-  minHumidity: number;
-  avgHumidity: number;
-  status: 'active' | 'completed';
-}
-
-// Convert API data to SensorData format
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-
-  return apiDevices.map(device => {
-    const deviceId = device.deviceId || device.id || (device._id ? `DEV-${device._id.slice(-4)}` : 'DEV-unknown');
-    const id = device._id || device.id || deviceId;
-
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || device.temperature || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp: device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: device.name || `Sensor ${deviceId}`,
-      status: device.isfire || device.isFire ? 'warning' : 'active',
-    };
-  });
-};
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+
+// How far back the reading history list reaches
+const HISTORY_WINDOW_MS = 60 * 60 * 1000;
+// Rows rendered in the history list; older rows stay in the store
+const HISTORY_DISPLAY_LIMIT = 100;
+// More lines than this make the comparison charts unreadable
+const MAX_COMPARED_SENSORS = 8;
+// Trend chart windows, all read from the recorded history
+const TREND_WINDOWS = [
+  { key: '15m', label: '15m', description: 'last 15 minutes', ms: 15 * 60 * 1000 },
+  { key: '1h', label: '1h', description: 'last hour', ms: 60 * 60 * 1000 },
+  { key: '6h', label: '6h', description: 'last 6 hours', ms: 6 * 60 * 60 * 1000 },
+  { key: '24h', label: '24h', description: 'last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', label: '7d', description: 'last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+// Line colour per position in the selection
+const SERIES_COLORS = ['#ef4444', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#4b5563'];
 
 const LiveMonitoring: React.FC = () => {
-  const [selectedSensorId, setSelectedSensorId] = useState<string>('');
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
-  const [sensorReadings, setSensorReadings] = useState<SensorReading[]>([]);
-  const [isMonitoringFire, setIsMonitoringFire] = useState<boolean>(false);
-  const [activeSessions, setActiveSessions] = useState<FireAlertSession[]>([]);
-  const [completedSessions, setCompletedSessions] = useState<FireAlertSession[]>([]);
-  const [currentSession, setCurrentSession] = useState<FireAlertSession | null>(null);
-  const [lastProcessedTimestamp, setLastProcessedTimestamp] = useState<string>('');
   const { sensorId } = useParams();
+  const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const { getProfile } = useThresholds();
+  const { withMetadata } = useSensorRegistry();
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const { activeSessions } = useSessions();
 
   // Fetch all available sensors from API
-  const { data: allSensorsData, isLoading: isLoadingSensors } = useQuery({
-    queryKey: ['allFireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 30000, // Refetch every 30 seconds
-  });
+  const { data: allSensorsData, isLoading: isLoadingSensors } = useFireAlerts(settings.polling.liveMonitoringList);
 
   // Convert API data to sensor format
-  const availableSensors = convertApiToSensorData(allSensorsData || []);
+  const registeredSensors = useMemo(
+    () => withMetadata(normalizeSensors(allSensorsData, getProfile)),
+    [allSensorsData, getProfile, withMetadata]
+  );
+  const availableSensors = useSensorAnomalies(registeredSensors);
+
+  // The selection lives in the URL: /monitoring?ids=a,b,c, or /monitoring/:sensorId
+  // when a fire alert links to a single sensor. The first id is the primary sensor.
+  const idsParam = searchParams.get('ids');
+  const selectedIds = useMemo(
+    () =>
+      idsParam
+        ? [...new Set(idsParam.split(',').map(id => id.trim()).filter(Boolean))].slice(0, MAX_COMPARED_SENSORS)
+        : sensorId
+          ? [sensorId]
+          : [],
+    [idsParam, sensorId]
+  );
+  const selectedSensorId = selectedIds[0] ?? '';
+  const isMonitoringFire = !!sensorId && !idsParam;
 
-  // Get sensor ID from URL parameters if available
+  const sensorsById = useMemo(
+    () => new Map(availableSensors.map(sensor => [sensor.deviceId, sensor])),
+    [availableSensors]
+  );
+  const getSensorName = (deviceId: string) => sensorsById.get(deviceId)?.name || `Sensor ${deviceId}`;
+
+  // Recorded history of every selected sensor for the trend charts
+  const [trendWindowKey, setTrendWindowKey] = useState('1h');
+  const trendWindow = TREND_WINDOWS.find(option => option.key === trendWindowKey) ?? TREND_WINDOWS[1];
+  const comparisonHistory = useSensorsHistory(selectedIds, { windowMs: trendWindow.ms });
+  const comparisonSeries: ComparisonSeries[] = useMemo(
+    () =>
+      selectedIds.map((deviceId, index) => ({
+        deviceId,
+        name: sensorsById.get(deviceId)?.name || `Sensor ${deviceId}`,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        points: comparisonHistory[deviceId] ?? [],
+      })),
+    [selectedIds, sensorsById, comparisonHistory]
+  );
+
+  // Pausing freezes the charts on a snapshot while readings keep being recorded
+  const [paused, setPaused] = useState<{ series: ComparisonSeries[]; at: number } | null>(null);
+  const chartSeries = paused?.series ?? comparisonSeries;
+  const togglePaused = () => setPaused(paused ? null : { series: comparisonSeries, at: Date.now() });
+
+  // A new selection or window starts streaming again
   useEffect(() => {
-    if (sensorId) {
-      setSelectedSensorId(sensorId);
-      setIsMonitoringFire(true); // Auto-enable monitoring for fire alerts
-      setSensorReadings([]); // Clear previous readings
-      setLastProcessedTimestamp(''); // Reset timestamp tracking
-    }
-  }, [sensorId]);
+    setPaused(null);
+  }, [idsParam, sensorId, trendWindowKey]);
 
   // Fetch data for the selected sensor
-  const { data: apiResponse, isLoading, error, refetch } = useQuery({
-    queryKey: ['fireAlerts', selectedSensorId],
-    queryFn: () => selectedSensorId ? getFireAlertByDeviceId(selectedSensorId) : null,
-    refetchInterval: 10000, // Refetch every 10 seconds for live monitoring
-    enabled: !!selectedSensorId, // Only run query when a sensor is selected
-  });
-
-  // Load saved sessions on component mount
-  useEffect(() => {
-    const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-    setCompletedSessions(savedSessions);
-  }, []);
-
-  // Check if reading is a duplicate
-  const isDuplicateReading = useCallback((newReading: SensorReading, existingReadings: SensorReading[]) => {
-    return existingReadings.some(reading => 
-      reading.timestamp === newReading.timestamp &&
-      reading.temp === newReading.temp &&
-      reading.humidity === newReading.humidity &&
-      reading.smoke === newReading.smoke
-    );
-  }, []);
+  const { data: apiResponse, isLoading, error, refetch, dataUpdatedAt } = useFireAlert(
+    selectedSensorId,
+    settings.polling.liveMonitoringDetail
+  );
 
-  // Convert API data to sensor format and store readings history
-  useEffect(() => {
-    if (apiResponse && selectedSensorId && apiResponse.timestamp !== lastProcessedTimestamp) {
-      setLastUpdate(new Date());
-      setLastProcessedTimestamp(apiResponse.timestamp);
-      
-      const newReading = {
-        id: apiResponse.id || Date.now().toString(),
-        deviceId: apiResponse.deviceId,
-        latitude: apiResponse.latitude,
-        longitude: apiResponse.longitude,
-        humidity: apiResponse.humidity,
-        temp: apiResponse.temp,
-        smoke: apiResponse.smoke,
-        isFire: apiResponse.isFire,
-        timestamp: apiResponse.timestamp || new Date().toISOString(),
-        name: `Sensor ${apiResponse.deviceId}`,
-        status: apiResponse.isFire ? 'warning' : 'active'
-      };
-
-      // Always add to history regardless of fire status or monitoring mode
-      setSensorReadings(prev => {
-        // Check if we already have this reading
-        if (isDuplicateReading(newReading, prev)) {
-          return prev;
-        }
-        
-        // Keep only the last 20 readings to prevent excessive growth
-        return [newReading, ...prev].slice(0, 20);
-      });
-    }
-  }, [apiResponse, selectedSensorId, isDuplicateReading, lastProcessedTimestamp]);
+  // Recorded history for the selected sensor, kept in IndexedDB across reloads
+  const { data: history = [] } = useSensorHistory(selectedSensorId || undefined, { windowMs: HISTORY_WINDOW_MS });
 
-  // Handle session tracking with debouncing
-  useEffect(() => {
-    if (sensorReadings.length > 0) {
-      const latestReading = sensorReadings[0];
-      
-      // Create a plain object copy of the reading to avoid reference issues
-      const plainReading = {
-        id: latestReading.id,
-        deviceId: latestReading.deviceId,
-        latitude: latestReading.latitude,
-        longitude: latestReading.longitude,
-        humidity: latestReading.humidity,
-        temp: latestReading.temp,
-        smoke: latestReading.smoke,
-        isFire: latestReading.isFire,
-        timestamp: latestReading.timestamp,
-        name: latestReading.name,
-        status: latestReading.status
-      };
-      
-      // If fire is detected and no active session, start a new session
-      if (plainReading.isFire && !currentSession) {
-        const newSession: FireAlertSession = {
-          id: `session-${Date.now()}`,
-          deviceId: plainReading.deviceId,
-          startTime: plainReading.timestamp,
-          endTime: null,
-          readings: [plainReading],
-          maxTemp: plainReading.temp,
-          minTemp: plainReading.temp,
-          avgTemp: plainReading.temp,
-          maxSmoke: plainReading.smoke,
-          minSmoke: plainReading.smoke,
-          avgSmoke: plainReading.smoke,
-          maxHumidity: plainReading.humidity,
-          minHumidity: plainReading.humidity,
-          avgHumidity: plainReading.humidity,
-          status: 'active'
-        };
-        
-        setCurrentSession(newSession);
-        setActiveSessions(prev => [...prev, newSession]);
-      }
-      
-      // If fire continues and we have an active session, update it (but limit frequency)
-      else if (plainReading.isFire && currentSession) {
-        // Only update if it's been at least 5 seconds since the last reading
-        // or if the values have changed significantly
-        const lastSessionReading = currentSession.readings[0];
-        const timeDiff = new Date(plainReading.timestamp).getTime() - new Date(lastSessionReading.timestamp).getTime();
-        const significantChange = 
-          Math.abs(plainReading.temp - lastSessionReading.temp) > 1 ||
-          Math.abs(plainReading.smoke - lastSessionReading.smoke) > 5 ||
-          Math.abs(plainReading.humidity - lastSessionReading.humidity) > 2;
-        
-        if (timeDiff > 5000 || significantChange) {
-          const updatedSession = {
-            ...currentSession,
-            readings: [plainReading, ...currentSession.readings.slice(0, 49)], // Keep only last 50 readings
-            maxTemp: Math.max(currentSession.maxTemp, plainReading.temp),
-            minTemp: Math.min(currentSession.minTemp, plainReading.temp),
-            maxSmoke: Math.max(currentSession.maxSmoke, plainReading.smoke),
-            minSmoke: Math.min(currentSession.minSmoke, plainReading.smoke),
-            maxHumidity: Math.max(currentSession.maxHumidity, plainReading.humidity),
-            minHumidity: Math.min(currentSession.minHumidity, plainReading.humidity),
-          };
-          
-          // Recalculate averages
-          const totalReadings = updatedSession.readings.length;
-          updatedSession.avgTemp = updatedSession.readings.reduce((sum, r) => sum + r.temp, 0) / totalReadings;
-          updatedSession.avgSmoke = updatedSession.readings.reduce((sum, r) => sum + r.smoke, 0) / totalReadings;
-          updatedSession.avgHumidity = updatedSession.readings.reduce((sum, r) => sum + r.humidity, 0) / totalReadings;
-          
-          setCurrentSession(updatedSession);
-          setActiveSessions(prev => 
-            prev.map(session => 
-              session.id === updatedSession.id ? updatedSession : session
-            )
-          );
-        }
-      }
-      
-      // If fire ended and we had an active session, complete it
-      else if (!plainReading.isFire && currentSession) {
-        const completedSession = {
-          ...currentSession,
-          endTime: plainReading.timestamp,
-          status: 'completed' as const
-        };
-        
-        setCurrentSession(null);
-        setActiveSessions(prev => prev.filter(session => session.id !== completedSession.id));
-        
-        setCompletedSessions(prev => [completedSession, ...prev.slice(0, 9)]); // Keep only last 10 sessions
-        
-        // Save to localStorage for persistence
-        const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-        localStorage.setItem('fireAlertSessions', JSON.stringify([completedSession, ...savedSessions.slice(0, 9)]));
-      }
-    }
-  }, [sensorReadings, currentSession]);
+  // The detail query can be newer than the list, so the selected sensor is checked on its own
+  const selectedSensors: SensorData[] = useMemo(
+    () => (apiResponse && selectedSensorId ? withMetadata([normalizeSensor(apiResponse, getProfile)]) : []),
+    [apiResponse, selectedSensorId, getProfile, withMetadata]
+  );
+  const analyzedSensors = useSensorAnomalies(selectedSensors);
+  const [currentSensor] = useFireDanger(analyzedSensors);
+
+  // Latest reading first, followed by stored history (newest to oldest)
+  const sensorReadings: SensorReading[] = useMemo(() => {
+    const [sensor] = selectedSensors;
+    if (!sensor) return [];
+
+    const profile = getProfile(sensor.deviceId);
+    const latestTime = new Date(sensor.timestamp).getTime();
+    const toReading = (point: HistoryPoint): SensorReading => ({
+      id: sensor.id,
+      deviceId: sensor.deviceId,
+      latitude: sensor.latitude,
+      longitude: sensor.longitude,
+      humidity: point.humidity,
+      temp: point.temp,
+      smoke: point.smoke,
+      isFire: point.isFire,
+      timestamp: new Date(point.time).toISOString(),
+      name: sensor.name,
+      status: classifySensorStatus(point, profile),
+    });
+
+    const latest: SensorReading = {
+      id: sensor.id,
+      deviceId: sensor.deviceId,
+      latitude: sensor.latitude,
+      longitude: sensor.longitude,
+      humidity: sensor.humidity,
+      temp: sensor.temp,
+      smoke: sensor.smoke,
+      isFire: sensor.isFire,
+      timestamp: sensor.timestamp,
+      name: sensor.name,
+      status: sensor.status,
+    };
+
+    const older = history
+      .filter(point => point.time < latestTime)
+      .reverse()
+      .map(toReading);
+    return [latest, ...older];
+  }, [selectedSensors, history, getProfile]);
 
   // Force refetch when sensor is selected from URL
   useEffect(() => {
@@ -264,21 +177,19 @@ const LiveMonitoring: React.FC = () => {
     }
   }, [selectedSensorId, refetch]);
 
-  const getStatusColor = (sensor: SensorReading) => {
-    if (sensor.isFire) return 'text-red-600';
-    if (sensor.temp > 35 || sensor.smoke > 50) return 'text-yellow-600';
-    return 'text-green-600';
-  };
+  const getStatusColor = (sensor: SensorReading) =>
+    STATUS_STYLES[getStatusLevel(sensor, getProfile(sensor.deviceId))].text;
 
-  const getStatusText = (sensor: SensorReading) => {
-    if (sensor.isFire) return 'FIRE DETECTED';
-    if (sensor.temp > 35 || sensor.smoke > 50) return 'WARNING';
-    return 'NORMAL';
-  };
+  const getStatusText = (sensor: SensorReading) =>
+    STATUS_LABELS[getStatusLevel(sensor, getProfile(sensor.deviceId))];
 
-  const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleTimeString();
-  };
+  const currentProfile = getProfile(selectedSensorId);
+
+  // Stored history has no anomaly report, so the anomaly tier only applies to the latest reading
+  const currentLevel = currentSensor ? getSensorLevel(currentSensor, currentProfile) : 'normal';
+  const anomalyExplanations = explainAnomalies(currentSensor?.anomaly, settings);
+
+  const formatTimestamp = (timestamp: string) => format.time(timestamp);
 
   const formatDuration = (startTime: string, endTime: string | null) => {
     const start = new Date(startTime);
@@ -289,14 +200,16 @@ const LiveMonitoring: React.FC = () => {
     return `${minutes}m ${seconds}s`;
   };
 
-  const handleManualSensorSelect = (deviceId: string) => {
-    setSelectedSensorId(deviceId);
-    setIsMonitoringFire(false); // Disable fire monitoring when manually selecting
-    setSensorReadings([]); // Clear previous readings
-    setLastProcessedTimestamp(''); // Reset timestamp tracking
-    // Update URL to reflect the selected sensor
-    navigate(`/monitoring/${deviceId}`);
-  };
+  // Manual selection leaves fire alert mode
+  const setSelection = (deviceIds: string[]) => navigate(getMonitoringPath(deviceIds));
+
+  const toggleSensor = (deviceId: string) =>
+    setSelection(
+      selectedIds.includes(deviceId) ? selectedIds.filter(id => id !== deviceId) : [...selectedIds, deviceId]
+    );
+
+  const makePrimary = (deviceId: string) =>
+    setSelection([deviceId, ...selectedIds.filter(id => id !== deviceId)]);
 
   const handleMainSite = () => {
     navigate('/');
@@ -361,7 +274,7 @@ const LiveMonitoring: React.FC = () => {
             <CardHeader>
               <CardTitle className="text-forest-primary flex items-center gap-2">
                 <Monitor className="w-5 h-5" />
-                Select Sensor for Monitoring
+                Select Sensors for Monitoring
                 {isMonitoringFire && (
                   <span className="flex items-center gap-1 text-sm text-red-600 bg-red-100 px-2 py-1 rounded-full">
                     <Flame className="w-4 h-4" />
@@ -370,39 +283,177 @@ const LiveMonitoring: React.FC = () => {
                 )}
               </CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-3">
               <div className="flex items-center gap-4">
-                <Select value={selectedSensorId} onValueChange={handleManualSensorSelect}>
-                  <SelectTrigger className="w-64">
-                    <SelectValue placeholder="Choose a sensor to monitor" />
-                  </SelectTrigger>
-                  <SelectContent>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" className="w-64 justify-between font-normal">
+                      {selectedIds.length === 0
+                        ? 'Choose sensors to monitor'
+                        : `${selectedIds.length} sensor${selectedIds.length === 1 ? '' : 's'} selected`}
+                      <ChevronDown className="w-4 h-4 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72 p-2" align="start">
                     {isLoadingSensors ? (
-                      <SelectItem value="loading" disabled>Loading sensors...</SelectItem>
+                      <p className="p-2 text-sm text-muted-foreground">Loading sensors...</p>
                     ) : availableSensors.length > 0 ? (
-                      availableSensors.map(sensor => (
-                        <SelectItem key={sensor.deviceId} value={sensor.deviceId}>
-                          {sensor.name || `Sensor ${sensor.deviceId}`}
-                        </SelectItem>
-                      ))
+                      <div className="max-h-72 overflow-y-auto">
+                        {availableSensors.map(sensor => {
+                          const checked = selectedIds.includes(sensor.deviceId);
+                          return (
+                            <label
+                              key={sensor.deviceId}
+                              className="flex items-center gap-2 rounded px-2 py-1.5 text-sm cursor-pointer hover:bg-accent"
+                            >
+                              <Checkbox
+                                checked={checked}
+                                disabled={!checked && selectedIds.length >= MAX_COMPARED_SENSORS}
+                                onCheckedChange={() => toggleSensor(sensor.deviceId)}
+                              />
+                              <span className="flex-1 truncate">{sensor.name || `Sensor ${sensor.deviceId}`}</span>
+                              {hasAnomaly(sensor) && (
+                                <span className={`text-xs font-semibold ${STATUS_STYLES.anomaly.text}`}>
+                                  {STATUS_LABELS.anomaly}
+                                </span>
+                              )}
+                            </label>
+                          );
+                        })}
+                      </div>
                     ) : (
-                      <SelectItem value="no-sensors" disabled>No sensors available</SelectItem>
+                      <p className="p-2 text-sm text-muted-foreground">No sensors available</p>
                     )}
-                  </SelectContent>
-                </Select>
-                
+                    <p className="px-2 pt-2 text-xs text-muted-foreground">Up to {MAX_COMPARED_SENSORS} sensors</p>
+                  </PopoverContent>
+                </Popover>
+
                 {isLoading && <p className="text-sm text-muted-foreground">Loading sensor data...</p>}
                 {error && <p className="text-sm text-red-600">Error loading sensor data</p>}
               </div>
+
+              {selectedIds.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {selectedIds.map((deviceId, index) => (
+                    <Badge
+                      key={deviceId}
+                      variant="outline"
+                      className="gap-1 pr-1"
+                      style={{ borderColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+                    >
+                      {getSensorName(deviceId)}
+                      {index === 0 && selectedIds.length > 1 && <span className="text-muted-foreground">(primary)</span>}
+                      <button
+                        type="button"
+                        className="rounded-full p-0.5 hover:bg-muted"
+                        onClick={() => toggleSensor(deviceId)}
+                        aria-label={`Stop monitoring ${getSensorName(deviceId)}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {/* Current readings of every compared sensor; click one to make it primary */}
+          {selectedIds.length > 1 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+              {selectedIds.map((deviceId, index) => {
+                const sensor = sensorsById.get(deviceId);
+                const level = sensor ? getSensorLevel(sensor, getProfile(deviceId)) : null;
+                return (
+                  <Card
+                    key={deviceId}
+                    className={`glass-card cursor-pointer transition-shadow hover:shadow-md ${index === 0 ? 'ring-2 ring-forest-primary' : ''}`}
+                    style={{ borderTop: `4px solid ${SERIES_COLORS[index % SERIES_COLORS.length]}` }}
+                    onClick={() => makePrimary(deviceId)}
+                  >
+                    <CardContent className="pt-4 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium truncate">{getSensorName(deviceId)}</p>
+                        {level && <Badge className={STATUS_STYLES[level].badge}>{STATUS_LABELS[level]}</Badge>}
+                      </div>
+                      {sensor ? (
+                        <>
+                          <div className="grid grid-cols-3 gap-2 text-sm">
+                            <div className="flex items-center gap-1">
+                              <Thermometer className="w-3 h-3 text-red-500" />
+                              {format.temperature(sensor.temp)}
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Droplets className="w-3 h-3 text-blue-500" />
+                              {sensor.humidity}%
+                            </div>
+                            <div className="flex items-center gap-1">
+                              <Wind className="w-3 h-3 text-gray-500" />
+                              {format.smoke(sensor.smoke)}
+                            </div>
+                          </div>
+                          <p className="text-xs text-muted-foreground">Updated {formatTimestamp(sensor.timestamp)}</p>
+                        </>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No current reading</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Synchronised trends of the selected sensors */}
+          {selectedIds.length > 0 && (
+            <Card className="glass-card">
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+                <CardTitle className="flex items-center gap-2">
+                  <LineChartIcon className="w-5 h-5" />
+                  {selectedIds.length > 1 ? 'Sensor Comparison' : 'Sensor Trends'} ({trendWindow.description})
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={trendWindowKey}
+                    onValueChange={value => value && setTrendWindowKey(value)}
+                  >
+                    {TREND_WINDOWS.map(option => (
+                      <ToggleGroupItem key={option.key} value={option.key}>
+                        {option.label}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <Button size="sm" variant="outline" onClick={togglePaused}>
+                    {paused ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                    {paused ? 'Resume' : 'Pause'}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {paused && (
+                  <p className="mb-4 text-sm text-muted-foreground">
+                    Paused at {format.time(paused.at)}. New readings are still recorded.
+                  </p>
+                )}
+                <SensorComparisonChart
+                  key={trendWindow.key}
+                  series={chartSeries}
+                  windowMs={trendWindow.ms}
+                  profile={currentProfile}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Current Reading Display */}
           {sensorReadings.length > 0 && (
             <Card className="glass-card">
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className={`w-5 h-5 ${getStatusColor(sensorReadings[0])}`} />
+                  <AlertTriangle className={`w-5 h-5 ${STATUS_STYLES[currentLevel].text}`} />
                   Current Reading: {sensorReadings[0].name}
                   {sensorReadings[0].isFire && (
                     <span className="flex items-center gap-1 text-sm text-red-600 bg-red-100 px-2 py-1 rounded-full">
@@ -420,8 +471,8 @@ const LiveMonitoring: React.FC = () => {
                   </div>
                   <div>
                     <p className="text-sm text-muted-foreground">Status</p>
-                    <p className={`text-lg font-semibold ${getStatusColor(sensorReadings[0])}`}>
-                      {getStatusText(sensorReadings[0])}
+                    <p className={`text-lg font-semibold ${STATUS_STYLES[currentLevel].text}`}>
+                      {STATUS_LABELS[currentLevel]}
                     </p>
                   </div>
                   <div>
@@ -438,6 +489,27 @@ const LiveMonitoring: React.FC = () => {
                   </div>
                 </div>
 
+                {currentSensor?.danger && (
+                  <div className="mb-4">
+                    <FireDangerIndicator danger={currentSensor.danger} />
+                  </div>
+                )}
+
+                {/* Why the reading is unusual for this sensor */}
+                {anomalyExplanations.length > 0 && (
+                  <div className="mb-4 p-3 border border-sky-200 rounded-lg bg-sky-50">
+                    <p className={`flex items-center gap-2 text-sm font-semibold ${STATUS_STYLES.anomaly.text}`}>
+                      <Activity className="w-4 h-4" />
+                      Unusual readings for this sensor
+                    </p>
+                    <ul className="mt-1 space-y-1 text-sm text-muted-foreground">
+                      {anomalyExplanations.map(explanation => (
+                        <li key={explanation}>{explanation}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Real-time Metrics */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
                   <Card className="bg-forest-50">
@@ -448,9 +520,9 @@ const LiveMonitoring: React.FC = () => {
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <p className="text-3xl font-bold text-red-600">{sensorReadings[0].temp}°C</p>
+                      <p className="text-3xl font-bold text-red-600">{format.temperature(sensorReadings[0].temp)}</p>
                       <p className="text-sm text-muted-foreground mt-1">
-                        {sensorReadings[0].temp > 35 ? 'Above normal' : 'Normal range'}
+                        {sensorReadings[0].temp > currentProfile.tempWarning ? 'Above normal' : 'Normal range'}
                       </p>
                     </CardContent>
                   </Card>
@@ -465,7 +537,7 @@ const LiveMonitoring: React.FC = () => {
                     <CardContent>
                       <p className="text-3xl font-bold text-blue-600">{sensorReadings[0].humidity}%</p>
                       <p className="text-sm text-muted-foreground mt-1">
-                        {sensorReadings[0].humidity < 30 ? 'Low humidity' : 'Normal range'}
+                        {sensorReadings[0].humidity < currentProfile.humidityWarning ? 'Low humidity' : 'Normal range'}
                       </p>
                     </CardContent>
                   </Card>
@@ -478,9 +550,9 @@ const LiveMonitoring: React.FC = () => {
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <p className="text-3xl font-bold text-gray-600">{sensorReadings[0].smoke} ppm</p>
+                      <p className="text-3xl font-bold text-gray-600">{format.smoke(sensorReadings[0].smoke)}</p>
                       <p className="text-sm text-muted-foreground mt-1">
-                        {sensorReadings[0].smoke > 50 ? 'Elevated levels' : 'Normal levels'}
+                        {sensorReadings[0].smoke > currentProfile.smokeWarning ? 'Elevated levels' : 'Normal levels'}
                       </p>
                     </CardContent>
                   </Card>
@@ -495,12 +567,12 @@ const LiveMonitoring: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Clock className="w-5 h-5" />
-                  Reading History ({sensorReadings.length} records)
+                  Reading History ({sensorReadings.length - 1} records in the last hour)
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4 max-h-96 overflow-y-auto">
-                  {sensorReadings.slice(1).map((reading, index) => (
+                  {sensorReadings.slice(1, HISTORY_DISPLAY_LIMIT + 1).map((reading, index) => (
                     <div key={`${reading.timestamp}-${index}`} className="p-3 border rounded-lg bg-white">
                       <div className="flex justify-between items-start mb-2">
                         <span className="text-sm font-medium">{formatTimestamp(reading.timestamp)}</span>
@@ -510,13 +582,13 @@ const LiveMonitoring: React.FC = () => {
                       </div>
                       <div className="grid grid-cols-3 gap-2 text-sm">
                         <div>
-                          <span className="text-muted-foreground">Temp:</span> {reading.temp}°C
+                          <span className="text-muted-foreground">Temp:</span> {format.temperature(reading.temp)}
                         </div>
                         <div>
                           <span className="text-muted-foreground">Humidity:</span> {reading.humidity}%
                         </div>
                         <div>
-                          <span className="text-muted-foreground">Smoke:</span> {reading.smoke} ppm
+                          <span className="text-muted-foreground">Smoke:</span> {format.smoke(reading.smoke)}
                         </div>
                       </div>
                     </div>
@@ -532,13 +604,16 @@ const LiveMonitoring: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Flame className="w-5 h-5 text-red-600" />
-                  Active Fire Alert Sessions ({activeSessions.length})
+                  Active Fire Alert Sessions Across the Network ({activeSessions.length})
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   {activeSessions.map(session => (
-                    <div key={session.id} className="p-3 border rounded-lg bg-red-50">
+                    <div
+                      key={session.id}
+                      className={`p-3 border rounded-lg bg-red-50 ${session.deviceId === selectedSensorId ? 'border-red-400' : ''}`}
+                    >
                       <div className="flex justify-between items-start mb-2">
                         <h3 className="font-semibold">Device: {session.deviceId}</h3>
                         <span className="text-sm text-red-600 font-semibold">ACTIVE</span>
@@ -551,14 +626,14 @@ const LiveMonitoring: React.FC = () => {
                           <span className="text-muted-foreground">Duration:</span> {formatDuration(session.startTime, session.endTime)}
                         </div>
                         <div>
-                          <span className="text-muted-foreground">Max Temp:</span> {session.maxTemp.toFixed(1)}°C
+                          <span className="text-muted-foreground">Max Temp:</span> {format.temperature(session.maxTemp)}
                         </div>
                         <div>
-                          <span className="text-muted-foreground">Max Smoke:</span> {session.maxSmoke} ppm
+                          <span className="text-muted-foreground">Max Smoke:</span> {format.smoke(session.maxSmoke)}
                         </div>
                       </div>
                       <div className="mt-2 text-sm">
-                        <span className="text-muted-foreground">Readings:</span> {session.readings.length} records
+                        <span className="text-muted-foreground">Readings:</span> {getReadingCount(session)} records
                       </div>
                     </div>
                   ))}
@@ -574,11 +649,11 @@ const LiveMonitoring: React.FC = () => {
                 <div className="flex items-center gap-2">
                   <Clock className="w-4 h-4 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">
-                    Data refreshes every 10 seconds
+                    Data refreshes every {settings.polling.liveMonitoringDetail} seconds
                   </span>
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  Last updated: {lastUpdate.toLocaleTimeString()}
+                  Last updated: {dataUpdatedAt ? format.time(dataUpdatedAt) : 'Never'}
                 </div>
               </div>
             </CardContent>
@@ -590,7 +665,7 @@ const LiveMonitoring: React.FC = () => {
                 <div className="text-center text-muted-foreground">
                   <AlertTriangle className="w-12 h-12 mx-auto mb-4 opacity-50" />
                   <p className="text-lg">Select a sensor to start monitoring</p>
-                  <p>Choose from the dropdown above to view real-time data</p>
+                  <p>Choose one or more sensors above to view and compare real-time data</p>
                 </div>
               </CardContent>
             </Card>
@@ -1,11 +1,11 @@
 // src/pages/Reports.tsx
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
-import { LogOut, Calendar, Clock, Thermometer, Droplets, Wind, MapPin, AlertTriangle, Trash2, BarChart3, Download } from 'lucide-react';
+import { LogOut, Calendar, Clock, Thermometer, Droplets, Wind, MapPin, AlertTriangle, Trash2, BarChart3, Download, Map as MapIcon, Search, ArrowDownWideNarrow, ArrowUpNarrowWide, Link2, Share2, Eye } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,59 +18,191 @@ import {
 } from "@/components/ui/alert-dialog";
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
-  BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area
+  BarChart, Bar, PieChart, Pie, Cell, AreaChart, Area, ReferenceLine
 } from 'recharts';
+import { Input } from '@/components/ui/input';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-interface SensorReading {
-  id: string;
-  deviceId: string;
-  latitude: number;
-  longitude: number;
-  humidity: number;
-  temp: number;
-  smoke: number;
-  isFire: boolean;
-  timestamp: string;
-  name: string;
-  status: string;
-}
-
-interface FireAlertSession {
-  id: string;
-  deviceId: string;
-  startTime: string;
-  endTime: string | null;
-  readings: SensorReading[];
-  maxTemp: number;
-  minTemp: number;
-  avgTemp: number;
-  maxSmoke: number;
-  minSmoke: number;
-  avgSmoke: number;
-  maxHumidity: number;
-  minHumidity: number;
-  avgHumidity: number;
-  status: 'active' | 'completed';
-}
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { useSensorHistory } from '@/hooks/use-reading-history';
+import { classifySensorStatus } from '@/api/sensorNormalization';
+import { convertSmoke, convertTemperature } from '@/lib/format';
+import {
+  getFallingRisk,
+  getRisingRisk,
+  getStatusLevel,
+  RISK_BAR_CLASSES,
+  STATUS_LABELS,
+  STATUS_STYLES,
+} from '@/lib/thresholds';
+import { RiskLevel } from '@/types/thresholds';
+import { SensorReading } from '@/types/session';
+import { useSessions } from '@/hooks/use-sessions';
+import { useZones } from '@/hooks/use-zones';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { getMetadataDetails } from '@/lib/sensorRegistry';
+import { getReadingCount, getSessionLocation } from '@/lib/sessionEngine';
+import { formatZoneName, getMostSpecificZone, isInZone, ZONE_LEVEL_LABELS, ZONE_LEVELS } from '@/lib/zones';
+import { ZoneAssignment } from '@/types/zones';
+import { generateIncidentReport, getIncidentReportFileName } from '@/lib/incidentReport';
+import { toast } from '@/hooks/use-toast';
+import SessionAnalytics from '@/components/SessionAnalytics';
+import { getSessionDay } from '@/lib/sessionAnalytics';
+import {
+  getPageNumbers,
+  getSessionReportPath,
+  matchesSearch,
+  matchesTagFilter,
+  parseSessionFilters,
+  SESSION_SORT_LABELS,
+  SESSION_TABS,
+  SESSIONS_PAGE_SIZE,
+  SessionListFilters,
+  SessionSortKey,
+  SessionTab,
+  SessionTagFilter,
+  sortSessions,
+  toSessionSearchParams,
+} from '@/lib/sessionFilters';
+import { decodeSessionSnapshot, getSessionSnapshotUrl } from '@/lib/sessionSnapshot';
+import { removeSessionAnnotation, useSessionAnnotations } from '@/hooks/use-session-annotations';
+import SessionAnnotationsPanel from '@/components/SessionAnnotationsPanel';
+import {
+  formatSessionTags,
+  getAnnotationSearchText,
+  SESSION_TAG_LABELS,
+  SESSION_TAG_STYLES,
+  SESSION_TAGS,
+} from '@/lib/sessionAnnotations';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
+const RISK_ORDER: RiskLevel[] = ['Low', 'Medium', 'High'];
+
 const Reports: React.FC = () => {
-  const [sessions, setSessions] = useState<FireAlertSession[]>([]);
-  const [selectedSession, setSelectedSession] = useState<FireAlertSession | null>(null);
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [activeTab, setActiveTab] = useState("overview");
   const navigate = useNavigate();
+  const location = useLocation();
+  const { sessionId, tab } = useParams();
+  const { getProfile } = useThresholds();
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const { sessions, deleteSession } = useSessions();
+  const { zones, getAssignment } = useZones();
+  const { registry, getDisplayName } = useSensorRegistry();
+  const { getAnnotation } = useSessionAnnotations();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [generatingReport, setGeneratingReport] = useState(false);
+
+  // The open session and its tab live in the path: /reports/:sessionId/:tab.
+  // /reports/shared#... opens a shared snapshot read-only instead of a stored session.
+  const isShared = sessionId === 'shared';
+  const snapshot = useMemo(() => (isShared ? decodeSessionSnapshot(location.hash) : null), [isShared, location.hash]);
+  const selectedSessionId = isShared ? null : sessionId ?? null;
+  const activeTab: SessionTab = SESSION_TABS.includes(tab as SessionTab) ? (tab as SessionTab) : 'overview';
+
+  // List filters stay in the query string while moving between sessions
+  const openSession = (id: string | null) =>
+    navigate({ pathname: id ? getSessionReportPath(id) : '/reports', search: location.search });
+  const setActiveTab = (value: string) =>
+    navigate(
+      { pathname: getSessionReportPath(sessionId, value as SessionTab), search: location.search, hash: location.hash },
+      { replace: true }
+    );
+
+  // Looked up by id so an active session keeps updating while it is open here
+  // Zones are resolved from where each session was recorded
+  const sessionZones = useMemo(
+    () =>
+      new Map<string, ZoneAssignment>(
+        sessions.map(session => {
+          const location = getSessionLocation(session);
+          return [session.id, location ? getAssignment(location) : {}];
+        })
+      ),
+    [sessions, getAssignment]
+  );
+  // A snapshot carries the zone names it was shared with
+  const snapshotZones = useMemo<ZoneAssignment>(
+    () =>
+      Object.fromEntries(
+        Object.entries(snapshot?.zones ?? {}).map(([level, name]) => [
+          level,
+          { id: `shared-${level}`, name, level, polygons: [], bbox: [0, 0, 0, 0] },
+        ])
+      ),
+    [snapshot]
+  );
+  const getSessionZones = (id: string) => (snapshot ? snapshotZones : sessionZones.get(id) ?? {});
+  const hasZones = zones.length > 0 || Object.keys(snapshotZones).length > 0;
 
-  useEffect(() => {
-    const savedSessions = JSON.parse(localStorage.getItem('fireAlertSessions') || '[]');
-    setSessions(savedSessions);
-  }, []);
+  // Search, filters, sort and page live in the URL so a filtered list can be bookmarked
+  const filters = useMemo(() => parseSessionFilters(searchParams), [searchParams]);
+  // Any change other than the page itself starts again from the first page
+  const updateFilters = (changes: Partial<SessionListFilters>) =>
+    setSearchParams(toSessionSearchParams({ ...filters, page: 1, ...changes }), { replace: true });
+  const setZoneFilter = (zoneId: string) => updateFilters({ zoneId });
+
+  const activeZoneFilter = zones.some(zone => zone.id === filters.zoneId) ? filters.zoneId : 'all';
+  const deviceIds = useMemo(() => [...new Set(sessions.map(session => session.deviceId))].sort(), [sessions]);
+  const visibleSessions = sortSessions(
+    sessions.filter(session => {
+      const metadata = registry[session.deviceId];
+      const day = getSessionDay(session, settings);
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+      if (filters.deviceId !== 'all' && session.deviceId !== filters.deviceId) return false;
+      if (activeZoneFilter !== 'all' && !isInZone(getSessionZones(session.id), activeZoneFilter)) return false;
+      const annotation = getAnnotation(session.id);
+      if (!matchesTagFilter(annotation?.tags, filters.tag)) return false;
+      const searchText = [session.deviceId, metadata?.name, metadata?.notes, getAnnotationSearchText(annotation)];
+      return matchesSearch(searchText.filter(Boolean).join(' '), filters.query);
+    }),
+    filters.sort,
+    filters.direction
+  );
+  const pageCount = Math.max(1, Math.ceil(visibleSessions.length / SESSIONS_PAGE_SIZE));
+  const currentPage = Math.min(filters.page, pageCount);
+  const pagedSessions = visibleSessions.slice((currentPage - 1) * SESSIONS_PAGE_SIZE, currentPage * SESSIONS_PAGE_SIZE);
+  const hasListFilters = Boolean(filters.query || filters.from || filters.to || filters.deviceId !== 'all' || activeZoneFilter !== 'all' || filters.tag !== 'all');
+
+  const goToPage = (page: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (page < 1 || page > pageCount) return;
+    updateFilters({ page });
+  };
+
+  // "3 fires in Kedarnath range": session counts for the most specific zone of each session
+  const zoneFireCounts = useMemo(() => {
+    const counts = new Map<string, { label: string; count: number }>();
+    sessionZones.forEach(assignment => {
+      const zone = getMostSpecificZone(assignment);
+      if (!zone) return;
+      const entry = counts.get(zone.id) ?? { label: formatZoneName(zone), count: 0 };
+      entry.count += 1;
+      counts.set(zone.id, entry);
+    });
+    return [...counts.entries()].sort((a, b) => b[1].count - a[1].count);
+  }, [sessionZones]);
+
+  const selectedSession = snapshot?.session ?? sessions.find(session => session.id === selectedSessionId) ?? null;
+  const getSessionName = (deviceId: string) => (snapshot ? snapshot.sensorName : getDisplayName(deviceId));
+  const selectedDetails = snapshot ? snapshot.details : getMetadataDetails(registry[selectedSession?.deviceId]);
+  const selectedAnnotation = snapshot ? snapshot.annotation : getAnnotation(selectedSession?.id);
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
+    return format.dateTime(dateString);
   };
 
   const getDuration = (start: string, end: string | null) => {
@@ -105,17 +237,14 @@ const Reports: React.FC = () => {
     navigate('/live-monitoring');
   };
 
-  const getStatusColor = (reading: SensorReading) => {
-    if (reading.isFire) return 'text-red-600';
-    if (reading.temp > 35 || reading.smoke > 50) return 'text-yellow-600';
-    return 'text-green-600';
-  };
+  // Readings are judged against the profile assigned to the session's device
+  const profile = snapshot?.profile ?? getProfile(selectedSession?.deviceId);
 
-  const getStatusText = (reading: SensorReading) => {
-    if (reading.isFire) return 'FIRE DETECTED';
-    if (reading.temp > 35 || reading.smoke > 50) return 'WARNING';
-    return 'NORMAL';
-  };
+  const getLevel = (reading: SensorReading) => getStatusLevel(reading, snapshot ? profile : getProfile(reading.deviceId));
+
+  const getStatusColor = (reading: SensorReading) => STATUS_STYLES[getLevel(reading)].text;
+
+  const getStatusText = (reading: SensorReading) => STATUS_LABELS[getLevel(reading)];
 
   const handleDeleteSession = (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent triggering the card click event
@@ -125,13 +254,12 @@ const Reports: React.FC = () => {
 
   const confirmDelete = () => {
     if (sessionToDelete) {
-      const updatedSessions = sessions.filter(session => session.id !== sessionToDelete);
-      setSessions(updatedSessions);
-      localStorage.setItem('fireAlertSessions', JSON.stringify(updatedSessions));
-      
+      deleteSession(sessionToDelete);
+      removeSessionAnnotation(sessionToDelete);
+
       // If the deleted session was selected, clear the selection
-      if (selectedSession && selectedSession.id === sessionToDelete) {
-        setSelectedSession(null);
+      if (selectedSessionId === sessionToDelete) {
+        openSession(null);
       }
       
       setSessionToDelete(null);
@@ -144,74 +272,129 @@ const Reports: React.FC = () => {
     setShowDeleteDialog(false);
   };
 
+  // Stored history covers the whole session; readings embedded in the session are the fallback.
+  // A snapshot only has its own readings, whatever this machine has recorded.
+  const sessionStart = selectedSession ? new Date(selectedSession.startTime).getTime() : 0;
+  const sessionEnd = selectedSession?.endTime ? new Date(selectedSession.endTime).getTime() : Number.MAX_SAFE_INTEGER;
+  const { data: history = [] } = useSensorHistory(snapshot ? undefined : selectedSession?.deviceId, {
+    from: sessionStart,
+    to: sessionEnd,
+  });
+
+  // Newest first, matching the order of readings saved with the session
+  const sessionReadings: SensorReading[] = useMemo(() => {
+    if (!selectedSession) return [];
+    if (history.length === 0) return selectedSession.readings;
+
+    const reference = selectedSession.readings[0];
+    const deviceProfile = getProfile(selectedSession.deviceId);
+    return history
+      .slice()
+      .reverse()
+      .map(point => ({
+        id: reference?.id ?? selectedSession.deviceId,
+        deviceId: selectedSession.deviceId,
+        latitude: reference?.latitude,
+        longitude: reference?.longitude,
+        humidity: point.humidity,
+        temp: point.temp,
+        smoke: point.smoke,
+        isFire: point.isFire,
+        timestamp: new Date(point.time).toISOString(),
+        name: reference?.name ?? selectedSession.deviceId,
+        status: classifySensorStatus(point, deviceProfile),
+      }));
+  }, [selectedSession, history, getProfile]);
+
   // Prepare chart data for the selected session
   const chartData = useMemo(() => {
     if (!selectedSession) return [];
     
-    return selectedSession.readings.map(reading => ({
-      time: new Date(reading.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    return sessionReadings.map(reading => ({
+      time: format.time(reading.timestamp, { seconds: false }),
       timestamp: reading.timestamp,
-      temp: reading.temp,
-      smoke: reading.smoke,
+      temp: convertTemperature(reading.temp, settings),
+      smoke: convertSmoke(reading.smoke, settings),
       humidity: reading.humidity,
       isFire: reading.isFire ? 1 : 0,
-      status: reading.isFire ? 'Fire' : (reading.temp > 35 || reading.smoke > 50 ? 'Warning' : 'Normal')
+      status: getStatusLevel(reading, profile)
     }));
-  }, [selectedSession]);
+  }, [selectedSession, sessionReadings, profile, settings, format]);
 
   // Prepare severity distribution data
   const severityData = useMemo(() => {
     if (!selectedSession) return [];
     
-    const normal = selectedSession.readings.filter(r => !r.isFire && r.temp <= 35 && r.smoke <= 50).length;
-    const warning = selectedSession.readings.filter(r => !r.isFire && (r.temp > 35 || r.smoke > 50)).length;
-    const fire = selectedSession.readings.filter(r => r.isFire).length;
+    const levels = sessionReadings.map(r => getStatusLevel(r, profile));
+    const normal = levels.filter(level => level === 'normal').length;
+    const warning = levels.filter(level => level === 'warning').length;
+    const fire = levels.filter(level => level === 'fire').length;
     
     return [
-      { name: 'Normal', value: normal, color: '#10B981' },
-      { name: 'Warning', value: warning, color: '#F59E0B' },
-      { name: 'Fire', value: fire, color: '#EF4444' }
+      { name: 'Normal', value: normal, color: STATUS_STYLES.normal.hex },
+      { name: 'Warning', value: warning, color: STATUS_STYLES.warning.hex },
+      { name: 'Fire', value: fire, color: STATUS_STYLES.fire.hex }
     ];
-  }, [selectedSession]);
+  }, [selectedSession, sessionReadings, profile]);
 
   // Calculate statistics for the session
   const sessionStats = useMemo(() => {
     if (!selectedSession) return null;
     
-    const fireReadings = selectedSession.readings.filter(r => r.isFire).length;
-    const warningReadings = selectedSession.readings.filter(r => !r.isFire && (r.temp > 35 || r.smoke > 50)).length;
-    const normalReadings = selectedSession.readings.filter(r => !r.isFire && r.temp <= 35 && r.smoke <= 50).length;
+    const levels = sessionReadings.map(r => getStatusLevel(r, profile));
+    const fireReadings = levels.filter(level => level === 'fire').length;
+    const warningReadings = levels.filter(level => level === 'warning').length;
+    const normalReadings = levels.filter(level => level === 'normal').length;
     
     // Find peak fire time
     let peakFireTime = null;
     if (fireReadings > 0) {
-      const fireTimestamps = selectedSession.readings
+      const fireTimestamps = sessionReadings
         .filter(r => r.isFire)
         .map(r => new Date(r.timestamp).getTime());
       
       const avgFireTime = fireTimestamps.reduce((a, b) => a + b, 0) / fireTimestamps.length;
-      peakFireTime = new Date(avgFireTime).toLocaleTimeString();
+      peakFireTime = format.time(avgFireTime);
     }
     
     return {
-      totalReadings: selectedSession.readings.length,
+      totalReadings: sessionReadings.length,
       fireReadings,
       warningReadings,
       normalReadings,
-      firePercentage: (fireReadings / selectedSession.readings.length * 100).toFixed(1),
-      warningPercentage: (warningReadings / selectedSession.readings.length * 100).toFixed(1),
-      normalPercentage: (normalReadings / selectedSession.readings.length * 100).toFixed(1),
+      firePercentage: (fireReadings / sessionReadings.length * 100).toFixed(1),
+      warningPercentage: (warningReadings / sessionReadings.length * 100).toFixed(1),
+      normalPercentage: (normalReadings / sessionReadings.length * 100).toFixed(1),
       peakFireTime
     };
-  }, [selectedSession]);
+  }, [selectedSession, sessionReadings, profile, format]);
+
+  // Risk indicators derived from the session extremes and the active profile
+  const riskLevels = useMemo(() => {
+    if (!selectedSession) return null;
+
+    const temp = getRisingRisk(selectedSession.maxTemp, profile.tempWarning, profile.tempCritical);
+    const smoke = getRisingRisk(selectedSession.maxSmoke, profile.smokeWarning, profile.smokeCritical);
+    const humidity = getFallingRisk(selectedSession.minHumidity, profile.humidityWarning, profile.humidityCritical);
+    const overall = RISK_ORDER[Math.max(...[temp, smoke, humidity].map(level => RISK_ORDER.indexOf(level)))];
+
+    return { temp, smoke, humidity, overall };
+  }, [selectedSession, profile]);
 
   // Function to export session data as CSV
   const exportSessionData = () => {
     if (!selectedSession) return;
     
-    const headers = "Timestamp,Temperature (°C),Humidity (%),Smoke (ppm),Status\n";
-    const csvContent = selectedSession.readings.map(reading => {
-      return `${reading.timestamp},${reading.temp},${reading.humidity},${reading.smoke},${getStatusText(reading)}`;
+    // Zone columns only once zones have been imported
+    const zoneLevels = hasZones ? ZONE_LEVELS : [];
+    const assignment = getSessionZones(selectedSession.id);
+    const zoneHeaders = zoneLevels.map(level => `,${ZONE_LEVEL_LABELS[level]}`).join('');
+    const zoneCells = zoneLevels.map(level => `,"${(assignment[level]?.name ?? '').replace(/"/g, '""')}"`).join('');
+    const tagCell = `"${formatSessionTags(selectedAnnotation?.tags)}"`;
+
+    const headers = `Timestamp,Temperature (${format.temperatureUnit}),Humidity (%),Smoke (${format.smokeUnit}),Status${zoneHeaders},Tags\n`;
+    const csvContent = sessionReadings.map(reading => {
+      return `${reading.timestamp},${convertTemperature(reading.temp, settings)},${reading.humidity},${convertSmoke(reading.smoke, settings)},${getStatusText(reading)}${zoneCells},${tagCell}`;
     }).join("\n");
     
     const blob = new Blob([headers + csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -227,9 +410,73 @@ const Reports: React.FC = () => {
     document.body.removeChild(link);
   };
 
-  // Function to generate a PDF report (placeholder)
-  const generatePDFReport = () => {
-    alert("PDF generation functionality would be implemented here. This would typically use a library like jsPDF or browser print functionality.");
+  // Formal incident report with the same readings, stats and zones shown on this page
+  const generatePDFReport = async () => {
+    if (!selectedSession) return;
+
+    const assignment = getSessionZones(selectedSession.id);
+    const zoneDetails = hasZones
+      ? ZONE_LEVELS.map(level => ({ label: ZONE_LEVEL_LABELS[level], value: assignment[level]?.name ?? 'Outside all zones' }))
+      : [];
+
+    setGeneratingReport(true);
+    try {
+      const doc = await generateIncidentReport({
+        session: selectedSession,
+        readings: sessionReadings,
+        sensorName: getSessionName(selectedSession.deviceId),
+        details: [...zoneDetails, ...selectedDetails],
+        location: getSessionLocation(selectedSession),
+        profile,
+        settings,
+        annotation: selectedAnnotation,
+      });
+      doc.save(getIncidentReportFileName(selectedSession));
+      toast({ title: 'Incident report generated', description: getIncidentReportFileName(selectedSession) });
+    } catch (error) {
+      toast({
+        title: 'Could not generate report',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setGeneratingReport(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string, title: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title, description: 'Paste it into a message or ticket to share this session' });
+    } catch (error) {
+      toast({
+        title: 'Could not copy link',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Opens this session on any machine that has it stored
+  const copySessionLink = () => {
+    if (!selectedSession) return;
+    copyToClipboard(`${window.location.origin}${getSessionReportPath(selectedSession.id, activeTab)}`, 'Session link copied');
+  };
+
+  // Carries a summary and a sample of the readings, for machines that do not have the session
+  const copySnapshotLink = () => {
+    if (!selectedSession) return;
+    const assignment = getSessionZones(selectedSession.id);
+    const url = getSessionSnapshotUrl({
+      session: { ...selectedSession, readings: sessionReadings },
+      sensorName: getSessionName(selectedSession.deviceId),
+      details: selectedDetails,
+      zones: Object.fromEntries(ZONE_LEVELS.flatMap(level => (assignment[level] ? [[level, assignment[level].name]] : []))),
+      profile,
+      annotation: selectedAnnotation,
+      sharedAt: new Date().toISOString(),
+    });
+    copyToClipboard(url, 'Snapshot link copied');
   };
 
   return (
@@ -277,500 +524,737 @@ const Reports: React.FC = () => {
 
       {/* Main Content */}
       <main className="p-6">
-        {sessions.length === 0 ? (
+        {isShared && snapshot && (
+          <div className="mb-6 p-3 rounded-lg border border-forest-accent/30 bg-forest-50 text-sm flex items-center gap-2">
+            <Eye className="w-4 h-4 text-forest-primary" />
+            <span>
+              Read-only snapshot shared {format.dateTime(snapshot.sharedAt)}. It shows a sample of{' '}
+              {snapshot.session.readings.length} readings; live data and the full history stay on the machine it was
+              shared from.
+            </span>
+          </div>
+        )}
+        {sessions.length === 0 && !isShared ? (
           <Card className="glass-card p-6 rounded-lg text-center">
             <h2 className="text-2xl font-bold text-forest-primary mb-4">No Fire Alert Sessions Recorded</h2>
             <p className="text-muted-foreground">Fire alert sessions will appear here after they are detected and resolved.</p>
           </Card>
         ) : (
-          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-            {/* Session List */}
-            <div className="lg:col-span-1">
-              <Card className="glass-card">
-                <CardHeader>
-                  <CardTitle>Fire Alert Sessions ({sessions.length})</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-4 max-h-96 overflow-y-auto">
-                    {sessions.map(session => (
-                      <Card 
-                        key={session.id} 
-                        className={`cursor-pointer p-4 hover:bg-forest-50 relative ${
-                          selectedSession?.id === session.id ? 'bg-forest-50 border-forest-primary' : ''
-                        }`}
-                        onClick={() => setSelectedSession(session)}
-                      >
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="absolute top-2 right-2 h-6 w-6 text-muted-foreground hover:text-destructive"
-                          onClick={(e) => handleDeleteSession(session.id, e)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <h3 className="font-semibold">Device: {session.deviceId}</h3>
-                            <p className="text-sm text-muted-foreground">
-                              {new Date(session.startTime).toLocaleDateString()}
-                            </p>
-                          </div>
-                          <Badge 
-                            className={session.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}
-                          >
-                            {session.status === 'completed' ? 'Completed' : 'Active'}
-                          </Badge>
+          <Tabs defaultValue="sessions">
+            {!isShared && (
+              <TabsList className="mb-6">
+                <TabsTrigger value="sessions">Sessions</TabsTrigger>
+                <TabsTrigger value="analytics">Analytics</TabsTrigger>
+              </TabsList>
+            )}
+            <TabsContent value="sessions">
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Session List */}
+                <div className={isShared ? 'hidden' : 'lg:col-span-1'}>
+                  <Card className="glass-card">
+                    <CardHeader>
+                      <CardTitle>Fire Alert Sessions ({visibleSessions.length})</CardTitle>
+                      <div className="space-y-2 pt-2">
+                        <div className="relative">
+                          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                          <Input
+                            className="pl-8"
+                            placeholder="Search device or notes"
+                            value={filters.query}
+                            onChange={event => updateFilters({ query: event.target.value })}
+                          />
                         </div>
-                        <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
-                          <div className="flex items-center">
-                            <Thermometer className="w-3 h-3 mr-1 text-red-500" />
-                            <span>Max: {session.maxTemp.toFixed(1)}°C</span>
-                          </div>
-                          <div className="flex items-center">
-                            <Wind className="w-3 h-3 mr-1 text-gray-500" />
-                            <span>Max: {session.maxSmoke}ppm</span>
-                          </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            type="date"
+                            aria-label="From"
+                            value={filters.from}
+                            max={filters.to || undefined}
+                            onChange={event => updateFilters({ from: event.target.value })}
+                          />
+                          <Input
+                            type="date"
+                            aria-label="To"
+                            value={filters.to}
+                            min={filters.from || undefined}
+                            onChange={event => updateFilters({ to: event.target.value })}
+                          />
                         </div>
-                        <div className="mt-2 text-sm flex items-center">
-                          <Clock className="w-3 h-3 mr-1" />
-                          Duration: {getDuration(session.startTime, session.endTime)}
-                        </div>
-                        <div className="mt-1 text-xs text-muted-foreground">
-                          Readings: {session.readings.length} records
+                        <Select value={filters.deviceId} onValueChange={deviceId => updateFilters({ deviceId })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All devices</SelectItem>
+                            {deviceIds.map(deviceId => (
+                              <SelectItem key={deviceId} value={deviceId}>{getDisplayName(deviceId)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={filters.tag} onValueChange={tag => updateFilters({ tag: tag as SessionTagFilter })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All tags</SelectItem>
+                            <SelectItem value="untagged">Untagged</SelectItem>
+                            {SESSION_TAGS.map(tag => (
+                              <SelectItem key={tag} value={tag}>{SESSION_TAG_LABELS[tag]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="flex gap-2">
+                          <Select value={filters.sort} onValueChange={sort => updateFilters({ sort: sort as SessionSortKey })}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(SESSION_SORT_LABELS).map(([key, label]) => (
+                                <SelectItem key={key} value={key}>Sort by {label.toLowerCase()}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="shrink-0"
+                            title={filters.direction === 'desc' ? 'Highest or newest first' : 'Lowest or oldest first'}
+                            onClick={() => updateFilters({ direction: filters.direction === 'desc' ? 'asc' : 'desc' })}
+                          >
+                            {filters.direction === 'desc' ? (
+                              <ArrowDownWideNarrow className="h-4 w-4" />
+                            ) : (
+                              <ArrowUpNarrowWide className="h-4 w-4" />
+                            )}
+                          </Button>
                         </div>
-                      </Card>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-
-            {/* Session Details */}
-            <div className="lg:col-span-2">
-              {selectedSession ? (
-                <Card className="glass-card">
-                  <CardHeader className="flex flex-row items-center justify-between">
-                    <div>
-                      <CardTitle>
-                        Fire Alert Details - {selectedSession.deviceId}
-                      </CardTitle>
-                      <div className="flex gap-2 mt-2">
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          onClick={exportSessionData}
-                          className="flex items-center gap-1"
-                        >
-                          <Download className="h-4 w-4" />
-                          Export CSV
-                        </Button>
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          onClick={generatePDFReport}
-                          className="flex items-center gap-1"
-                        >
-                          <Download className="h-4 w-4" />
-                          Generate PDF
-                        </Button>
-                      </div>
-                    </div>
-                    <Badge className={selectedSession.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
-                      {selectedSession.status === 'completed' ? 'Completed' : 'Active'}
-                    </Badge>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="grid grid-cols-2 gap-4 mb-6">
-                      <div>
-                        <p className="text-sm text-muted-foreground">Device ID</p>
-                        <p className="text-lg font-semibold">{selectedSession.deviceId}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Duration</p>
-                        <p className="text-lg font-semibold">
-                          {getDuration(selectedSession.startTime, selectedSession.endTime)}
-                        </p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Start Time</p>
-                        <p className="text-lg font-semibold">{formatDate(selectedSession.startTime)}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">End Time</p>
-                        <p className="text-lg font-semibold">
-                          {selectedSession.endTime ? formatDate(selectedSession.endTime) : 'Ongoing'}
-                        </p>
                       </div>
-                    </div>
-
-                    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                      <TabsList className="grid grid-cols-4 mb-6">
-                        <TabsTrigger value="overview">Overview</TabsTrigger>
-                        <TabsTrigger value="charts">Charts</TabsTrigger>
-                        <TabsTrigger value="analysis">Analysis</TabsTrigger>
-                        <TabsTrigger value="rawdata">Raw Data</TabsTrigger>
-                      </TabsList>
-
-                      {/* Overview Tab */}
-                      <TabsContent value="overview">
-                        <h3 className="text-lg font-semibold mb-4">Sensor Data Summary</h3>
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                          <Card>
-                            <CardHeader className="pb-2">
-                              <CardTitle className="flex items-center gap-2 text-base">
-                                <Thermometer className="w-4 h-4 text-red-500" />
-                                Temperature
-                              </CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              <p className="text-2xl font-bold">{selectedSession.avgTemp.toFixed(1)}°C</p>
-                              <p className="text-sm text-muted-foreground">
-                                Min: {selectedSession.minTemp.toFixed(1)}°C | Max: {selectedSession.maxTemp.toFixed(1)}°C
-                              </p>
-                            </CardContent>
-                          </Card>
-
-                          <Card>
-                            <CardHeader className="pb-2">
-                              <CardTitle className="flex items-center gap-2 text-base">
-                                <Wind className="w-4 h-4 text-gray-500" />
-                                Smoke Level
-                              </CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              <p className="text-2xl font-bold">{selectedSession.avgSmoke.toFixed(1)} ppm</p>
-                              <p className="text-sm text-muted-foreground">
-                                Min: {selectedSession.minSmoke}ppm | Max: {selectedSession.maxSmoke}ppm
-                              </p>
-                            </CardContent>
+                      {zones.length > 0 && (
+                        <div className="space-y-2 pt-2">
+                          <Select value={activeZoneFilter} onValueChange={setZoneFilter}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All zones</SelectItem>
+                              {zones.map(zone => (
+                                <SelectItem key={zone.id} value={zone.id}>{formatZoneName(zone)}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {zoneFireCounts.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {zoneFireCounts.slice(0, 5).map(([zoneId, { label, count }]) => (
+                                <Badge
+                                  key={zoneId}
+                                  variant={activeZoneFilter === zoneId ? 'default' : 'outline'}
+                                  className="cursor-pointer"
+                                  onClick={() => setZoneFilter(activeZoneFilter === zoneId ? 'all' : zoneId)}
+                                >
+                                  {count} fire{count === 1 ? '' : 's'} in {label}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-4">
+                        {visibleSessions.length === 0 && (
+                          <div className="text-sm text-muted-foreground space-y-2">
+                            <p>No sessions match these filters</p>
+                            {hasListFilters && (
+                              <Button size="sm" variant="outline" onClick={() => setSearchParams({}, { replace: true })}>
+                                Clear filters
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                        {pagedSessions.map(session => (
+                          <Card 
+                            key={session.id} 
+                            className={`cursor-pointer p-4 hover:bg-forest-50 relative ${
+                              selectedSession?.id === session.id ? 'bg-forest-50 border-forest-primary' : ''
+                            }`}
+                            onClick={() => openSession(session.id)}
+                          >
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="absolute top-2 right-2 h-6 w-6 text-muted-foreground hover:text-destructive"
+                              onClick={(e) => handleDeleteSession(session.id, e)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <h3 className="font-semibold">
+                                  {registry[session.deviceId]?.name
+                                    ? `${registry[session.deviceId].name} (${session.deviceId})`
+                                    : `Device: ${session.deviceId}`}
+                                </h3>
+                                <p className="text-sm text-muted-foreground">
+                                  {format.date(session.startTime)}
+                                </p>
+                              </div>
+                              <Badge 
+                                className={session.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}
+                              >
+                                {session.status === 'completed' ? 'Completed' : 'Active'}
+                              </Badge>
+                            </div>
+                            <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
+                              <div className="flex items-center">
+                                <Thermometer className="w-3 h-3 mr-1 text-red-500" />
+                                <span>Max: {format.temperature(session.maxTemp)}</span>
+                              </div>
+                              <div className="flex items-center">
+                                <Wind className="w-3 h-3 mr-1 text-gray-500" />
+                                <span>Max: {format.smoke(session.maxSmoke)}</span>
+                              </div>
+                            </div>
+                            <div className="mt-2 text-sm flex items-center">
+                              <Clock className="w-3 h-3 mr-1" />
+                              Duration: {getDuration(session.startTime, session.endTime)}
+                            </div>
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              Readings: {getReadingCount(session)} records
+                            </div>
+                            {getMostSpecificZone(getSessionZones(session.id)) && (
+                              <div className="mt-1 text-xs text-muted-foreground flex items-center">
+                                <MapIcon className="w-3 h-3 mr-1" />
+                                {formatZoneName(getMostSpecificZone(getSessionZones(session.id)))}
+                              </div>
+                            )}
+                            {getAnnotation(session.id)?.tags.length > 0 && (
+                              <div className="mt-2 flex flex-wrap gap-1">
+                                {getAnnotation(session.id).tags.map(tag => (
+                                  <Badge key={tag} variant="outline" className={SESSION_TAG_STYLES[tag]}>
+                                    {SESSION_TAG_LABELS[tag]}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
                           </Card>
+                        ))}
+                        {pageCount > 1 && (
+                          <Pagination>
+                            <PaginationContent className="flex-wrap">
+                              <PaginationItem>
+                                <PaginationPrevious
+                                  href="#"
+                                  className={currentPage === 1 ? 'pointer-events-none opacity-50' : ''}
+                                  onClick={goToPage(currentPage - 1)}
+                                />
+                              </PaginationItem>
+                              {getPageNumbers(currentPage, pageCount).map((page, index) =>
+                                page === null ? (
+                                  <PaginationItem key={`gap-${index}`}>
+                                    <PaginationEllipsis />
+                                  </PaginationItem>
+                                ) : (
+                                  <PaginationItem key={page}>
+                                    <PaginationLink href="#" isActive={page === currentPage} onClick={goToPage(page)}>
+                                      {page}
+                                    </PaginationLink>
+                                  </PaginationItem>
+                                )
+                              )}
+                              <PaginationItem>
+                                <PaginationNext
+                                  href="#"
+                                  className={currentPage === pageCount ? 'pointer-events-none opacity-50' : ''}
+                                  onClick={goToPage(currentPage + 1)}
+                                />
+                              </PaginationItem>
+                            </PaginationContent>
+                          </Pagination>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
 
-                          <Card>
-                            <CardHeader className="pb-2">
-                              <CardTitle className="flex items-center gap-2 text-base">
-                                <Droplets className="w-4 h-4 text-blue-500" />
-                                Humidity
-                              </CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              <p className="text-2xl font-bold">{selectedSession.avgHumidity.toFixed(1)}%</p>
-                              <p className="text-sm text-muted-foreground">
-                                Min: {selectedSession.minHumidity}% | Max: {selectedSession.maxHumidity}%
+                {/* Session Details */}
+                <div className={isShared ? 'lg:col-span-3' : 'lg:col-span-2'}>
+                  {selectedSession ? (
+                    <Card className="glass-card">
+                      <CardHeader className="flex flex-row items-center justify-between">
+                        <div>
+                          <CardTitle>
+                            Fire Alert Details - {getSessionName(selectedSession.deviceId)}
+                          </CardTitle>
+                          <div className="flex gap-2 mt-2">
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={exportSessionData}
+                              className="flex items-center gap-1"
+                            >
+                              <Download className="h-4 w-4" />
+                              Export CSV
+                            </Button>
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              onClick={generatePDFReport}
+                              disabled={generatingReport}
+                              className="flex items-center gap-1"
+                            >
+                              <Download className="h-4 w-4" />
+                              {generatingReport ? 'Generating…' : 'Generate PDF'}
+                            </Button>
+                            {!isShared && (
+                              <>
+                                <Button size="sm" variant="outline" onClick={copySessionLink} className="flex items-center gap-1">
+                                  <Link2 className="h-4 w-4" />
+                                  Copy link
+                                </Button>
+                                <Button size="sm" variant="outline" onClick={copySnapshotLink} className="flex items-center gap-1">
+                                  <Share2 className="h-4 w-4" />
+                                  Share snapshot
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        <Badge className={selectedSession.status === 'completed' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}>
+                          {selectedSession.status === 'completed' ? 'Completed' : 'Active'}
+                        </Badge>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="grid grid-cols-2 gap-4 mb-6">
+                          <div>
+                            <p className="text-sm text-muted-foreground">Device ID</p>
+                            <p className="text-lg font-semibold">{selectedSession.deviceId}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Duration</p>
+                            <p className="text-lg font-semibold">
+                              {getDuration(selectedSession.startTime, selectedSession.endTime)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">Start Time</p>
+                            <p className="text-lg font-semibold">{formatDate(selectedSession.startTime)}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-muted-foreground">End Time</p>
+                            <p className="text-lg font-semibold">
+                              {selectedSession.endTime ? formatDate(selectedSession.endTime) : 'Ongoing'}
+                            </p>
+                            {selectedSession.endReason === 'silent' && (
+                              <p className="text-xs text-muted-foreground">Sensor stopped reporting</p>
+                            )}
+                          </div>
+                          {hasZones && (
+                            <div className="col-span-2">
+                              <p className="text-sm text-muted-foreground">Zone</p>
+                              <p className="text-lg font-semibold">
+                                {ZONE_LEVELS.map(level => getSessionZones(selectedSession.id)[level])
+                                  .filter(Boolean)
+                                  .map(zone => formatZoneName(zone))
+                                  .join(' › ') || 'Outside all zones'}
                               </p>
-                            </CardContent>
-                          </Card>
+                            </div>
+                          )}
+                          {selectedDetails.map(detail => (
+                            <div key={detail.label} className={detail.label === 'Notes' ? 'col-span-2' : ''}>
+                              <p className="text-sm text-muted-foreground">{detail.label}</p>
+                              <p className="text-sm font-medium whitespace-pre-wrap">{detail.value}</p>
+                            </div>
+                          ))}
                         </div>
 
-                        <h3 className="text-lg font-semibold mb-4">Severity Distribution</h3>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                          <Card>
-                            <CardHeader>
-                              <CardTitle className="text-base">Status Distribution</CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              <div className="h-64">
-                                <ResponsiveContainer width="100%" height="100%">
-                                  <PieChart>
-                                    <Pie
-                                      data={severityData}
-                                      cx="50%"
-                                      cy="50%"
-                                      labelLine={false}
-                                      label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
-                                      outerRadius={80}
-                                      fill="#8884d8"
-                                      dataKey="value"
-                                    >
-                                      {severityData.map((entry, index) => (
-                                        <Cell key={`cell-${index}`} fill={entry.color} />
-                                      ))}
-                                    </Pie>
-                                    <Tooltip />
-                                    <Legend />
-                                  </PieChart>
-                                </ResponsiveContainer>
-                              </div>
-                            </CardContent>
-                          </Card>
+                        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+                          <TabsList className="grid grid-cols-5 mb-6">
+                            <TabsTrigger value="overview">Overview</TabsTrigger>
+                            <TabsTrigger value="charts">Charts</TabsTrigger>
+                            <TabsTrigger value="analysis">Analysis</TabsTrigger>
+                            <TabsTrigger value="rawdata">Raw Data</TabsTrigger>
+                            <TabsTrigger value="notes">Notes</TabsTrigger>
+                          </TabsList>
 
-                          <Card>
-                            <CardHeader>
-                              <CardTitle className="text-base">Session Statistics</CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              {sessionStats && (
-                                <div className="space-y-3">
-                                  <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Total Readings:</span>
-                                    <span className="font-medium">{sessionStats.totalReadings}</span>
-                                  </div>
-                                  <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Normal Readings:</span>
-                                    <span className="font-medium text-green-600">
-                                      {sessionStats.normalReadings} ({sessionStats.normalPercentage}%)
-                                    </span>
-                                  </div>
-                                  <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Warning Readings:</span>
-                                    <span className="font-medium text-yellow-600">
-                                      {sessionStats.warningReadings} ({sessionStats.warningPercentage}%)
-                                    </span>
-                                  </div>
-                                  <div className="flex justify-between">
-                                    <span className="text-muted-foreground">Fire Readings:</span>
-                                    <span className="font-medium text-red-600">
-                                      {sessionStats.fireReadings} ({sessionStats.firePercentage}%)
-                                    </span>
+                          {/* Overview Tab */}
+                          <TabsContent value="overview">
+                            <h3 className="text-lg font-semibold mb-4">Sensor Data Summary</h3>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                              <Card>
+                                <CardHeader className="pb-2">
+                                  <CardTitle className="flex items-center gap-2 text-base">
+                                    <Thermometer className="w-4 h-4 text-red-500" />
+                                    Temperature
+                                  </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  <p className="text-2xl font-bold">{format.temperature(selectedSession.avgTemp)}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    Min: {format.temperature(selectedSession.minTemp)} | Max: {format.temperature(selectedSession.maxTemp)}
+                                  </p>
+                                </CardContent>
+                              </Card>
+
+                              <Card>
+                                <CardHeader className="pb-2">
+                                  <CardTitle className="flex items-center gap-2 text-base">
+                                    <Wind className="w-4 h-4 text-gray-500" />
+                                    Smoke Level
+                                  </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  <p className="text-2xl font-bold">{format.smoke(selectedSession.avgSmoke)}</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    Min: {format.smoke(selectedSession.minSmoke)} | Max: {format.smoke(selectedSession.maxSmoke)}
+                                  </p>
+                                </CardContent>
+                              </Card>
+
+                              <Card>
+                                <CardHeader className="pb-2">
+                                  <CardTitle className="flex items-center gap-2 text-base">
+                                    <Droplets className="w-4 h-4 text-blue-500" />
+                                    Humidity
+                                  </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  <p className="text-2xl font-bold">{selectedSession.avgHumidity.toFixed(1)}%</p>
+                                  <p className="text-sm text-muted-foreground">
+                                    Min: {selectedSession.minHumidity}% | Max: {selectedSession.maxHumidity}%
+                                  </p>
+                                </CardContent>
+                              </Card>
+                            </div>
+
+                            <h3 className="text-lg font-semibold mb-4">Severity Distribution</h3>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                              <Card>
+                                <CardHeader>
+                                  <CardTitle className="text-base">Status Distribution</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  <div className="h-64">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                      <PieChart>
+                                        <Pie
+                                          data={severityData}
+                                          cx="50%"
+                                          cy="50%"
+                                          labelLine={false}
+                                          label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%`}
+                                          outerRadius={80}
+                                          fill="#8884d8"
+                                          dataKey="value"
+                                        >
+                                          {severityData.map((entry, index) => (
+                                            <Cell key={`cell-${index}`} fill={entry.color} />
+                                          ))}
+                                        </Pie>
+                                        <Tooltip />
+                                        <Legend />
+                                      </PieChart>
+                                    </ResponsiveContainer>
                                   </div>
-                                  {sessionStats.peakFireTime && (
-                                    <div className="flex justify-between">
-                                      <span className="text-muted-foreground">Peak Fire Time:</span>
-                                      <span className="font-medium">{sessionStats.peakFireTime}</span>
+                                </CardContent>
+                              </Card>
+
+                              <Card>
+                                <CardHeader>
+                                  <CardTitle className="text-base">Session Statistics</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  {sessionStats && (
+                                    <div className="space-y-3">
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Total Readings:</span>
+                                        <span className="font-medium">{sessionStats.totalReadings}</span>
+                                      </div>
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Normal Readings:</span>
+                                        <span className="font-medium text-green-600">
+                                          {sessionStats.normalReadings} ({sessionStats.normalPercentage}%)
+                                        </span>
+                                      </div>
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Warning Readings:</span>
+                                        <span className="font-medium text-yellow-600">
+                                          {sessionStats.warningReadings} ({sessionStats.warningPercentage}%)
+                                        </span>
+                                      </div>
+                                      <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Fire Readings:</span>
+                                        <span className="font-medium text-red-600">
+                                          {sessionStats.fireReadings} ({sessionStats.firePercentage}%)
+                                        </span>
+                                      </div>
+                                      {sessionStats.peakFireTime && (
+                                        <div className="flex justify-between">
+                                          <span className="text-muted-foreground">Peak Fire Time:</span>
+                                          <span className="font-medium">{sessionStats.peakFireTime}</span>
+                                        </div>
+                                      )}
                                     </div>
                                   )}
-                                </div>
-                              )}
-                            </CardContent>
-                          </Card>
-                        </div>
-                      </TabsContent>
-
-                      {/* Charts Tab */}
-                      <TabsContent value="charts">
-                        <h3 className="text-lg font-semibold mb-4">Temperature Trend</h3>
-                        <Card className="mb-6">
-                          <CardContent className="pt-6">
-                            <div className="h-64">
-                              <ResponsiveContainer width="100%" height="100%">
-                                <LineChart data={chartData}>
-                                  <CartesianGrid strokeDasharray="3 3" />
-                                  <XAxis dataKey="time" />
-                                  <YAxis />
-                                  <Tooltip />
-                                  <Legend />
-                                  <Line type="monotone" dataKey="temp" stroke="#ef4444" activeDot={{ r: 8 }} name="Temperature (°C)" />
-                                </LineChart>
-                              </ResponsiveContainer>
+                                </CardContent>
+                              </Card>
                             </div>
-                          </CardContent>
-                        </Card>
-
-                        <h3 className="text-lg font-semibold mb-4">Smoke Level Trend</h3>
-                        <Card className="mb-6">
-                          <CardContent className="pt-6">
-                            <div className="h-64">
-                              <ResponsiveContainer width="100%" height="100%">
-                                <AreaChart data={chartData}>
-                                  <CartesianGrid strokeDasharray="3 3" />
-                                  <XAxis dataKey="time" />
-                                  <YAxis />
-                                  <Tooltip />
-                                  <Legend />
-                                  <Area type="monotone" dataKey="smoke" stroke="#8884d8" fill="#8884d8" name="Smoke (ppm)" />
-                                </AreaChart>
-                              </ResponsiveContainer>
-                            </div>
-                          </CardContent>
-                        </Card>
-
-                        <h3 className="text-lg font-semibold mb-4">Multi-Sensor Comparison</h3>
-                        <Card>
-                          <CardContent className="pt-6">
-                            <div className="h-64">
-                              <ResponsiveContainer width="100%" height="100%">
-                                <BarChart data={chartData.slice(0, 10)}>
-                                  <CartesianGrid strokeDasharray="3 3" />
-                                  <XAxis dataKey="time" />
-                                  <YAxis />
-                                  <Tooltip />
-                                  <Legend />
-                                  <Bar dataKey="temp" fill="#ef4444" name="Temperature (°C)" />
-                                  <Bar dataKey="smoke" fill="#8884d8" name="Smoke (ppm)" />
-                                  <Bar dataKey="humidity" fill="#3b82f6" name="Humidity (%)" />
-                                </BarChart>
-                              </ResponsiveContainer>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      </TabsContent>
-
-                      {/* Analysis Tab */}
-                      <TabsContent value="analysis">
-                        <h3 className="text-lg font-semibold mb-4">Risk Analysis</h3>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                          <Card>
-                            <CardHeader>
-                              <CardTitle className="text-base">Fire Risk Indicators</CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              <div className="space-y-4">
-                                <div>
-                                  <div className="flex justify-between mb-1">
-                                    <span>Temperature Risk</span>
-                                    <span className="font-medium">
-                                      {selectedSession.maxTemp > 60 ? 'High' : 
-                                       selectedSession.maxTemp > 40 ? 'Medium' : 'Low'}
-                                    </span>
-                                  </div>
-                                  <div className="w-full bg-gray-200 rounded-full h-2.5">
-                                    <div 
-                                      className={`h-2.5 rounded-full ${
-                                        selectedSession.maxTemp > 60 ? 'bg-red-600' : 
-                                        selectedSession.maxTemp > 40 ? 'bg-yellow-500' : 'bg-green-600'
-                                      }`} 
-                                      style={{width: `${Math.min(selectedSession.maxTemp, 100)}%`}}
-                                    ></div>
-                                  </div>
+                          </TabsContent>
+
+                          {/* Charts Tab */}
+                          <TabsContent value="charts">
+                            <h3 className="text-lg font-semibold mb-4">Temperature Trend</h3>
+                            <Card className="mb-6">
+                              <CardContent className="pt-6">
+                                <div className="h-64">
+                                  <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData}>
+                                      <CartesianGrid strokeDasharray="3 3" />
+                                      <XAxis dataKey="time" />
+                                      <YAxis />
+                                      <Tooltip />
+                                      <Legend />
+                                      <ReferenceLine y={convertTemperature(profile.tempWarning, settings)} stroke={STATUS_STYLES.warning.hex} strokeDasharray="4 4" ifOverflow="extendDomain" label="Warning" />
+                                      <ReferenceLine y={convertTemperature(profile.tempCritical, settings)} stroke={STATUS_STYLES.fire.hex} strokeDasharray="4 4" ifOverflow="extendDomain" label="Critical" />
+                                      <Line type="monotone" dataKey="temp" stroke="#ef4444" activeDot={{ r: 8 }} name={`Temperature (${format.temperatureUnit})`} />
+                                    </LineChart>
+                                  </ResponsiveContainer>
                                 </div>
+                              </CardContent>
+                            </Card>
 
-                                <div>
-                                  <div className="flex justify-between mb-1">
-                                    <span>Smoke Risk</span>
-                                    <span className="font-medium">
-                                      {selectedSession.maxSmoke > 100 ? 'High' : 
-                                       selectedSession.maxSmoke > 50 ? 'Medium' : 'Low'}
-                                    </span>
+                            <h3 className="text-lg font-semibold mb-4">Smoke Level Trend</h3>
+                            <Card className="mb-6">
+                              <CardContent className="pt-6">
+                                <div className="h-64">
+                                  <ResponsiveContainer width="100%" height="100%">
+                                    <AreaChart data={chartData}>
+                                      <CartesianGrid strokeDasharray="3 3" />
+                                      <XAxis dataKey="time" />
+                                      <YAxis />
+                                      <Tooltip />
+                                      <Legend />
+                                      <ReferenceLine y={convertSmoke(profile.smokeWarning, settings)} stroke={STATUS_STYLES.warning.hex} strokeDasharray="4 4" ifOverflow="extendDomain" label="Warning" />
+                                      <ReferenceLine y={convertSmoke(profile.smokeCritical, settings)} stroke={STATUS_STYLES.fire.hex} strokeDasharray="4 4" ifOverflow="extendDomain" label="Critical" />
+                                      <Area type="monotone" dataKey="smoke" stroke="#8884d8" fill="#8884d8" name={`Smoke (${format.smokeUnit})`} />
+                                    </AreaChart>
+                                  </ResponsiveContainer>
+                                </div>
+                              </CardContent>
+                            </Card>
+
+                            <h3 className="text-lg font-semibold mb-4">Multi-Sensor Comparison</h3>
+                            <Card>
+                              <CardContent className="pt-6">
+                                <div className="h-64">
+                                  <ResponsiveContainer width="100%" height="100%">
+                                    <BarChart data={chartData.slice(0, 10)}>
+                                      <CartesianGrid strokeDasharray="3 3" />
+                                      <XAxis dataKey="time" />
+                                      <YAxis />
+                                      <Tooltip />
+                                      <Legend />
+                                      <Bar dataKey="temp" fill="#ef4444" name={`Temperature (${format.temperatureUnit})`} />
+                                      <Bar dataKey="smoke" fill="#8884d8" name={`Smoke (${format.smokeUnit})`} />
+                                      <Bar dataKey="humidity" fill="#3b82f6" name="Humidity (%)" />
+                                    </BarChart>
+                                  </ResponsiveContainer>
+                                </div>
+                              </CardContent>
+                            </Card>
+                          </TabsContent>
+
+                          {/* Analysis Tab */}
+                          <TabsContent value="analysis">
+                            <h3 className="text-lg font-semibold mb-4">Risk Analysis</h3>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                              <Card>
+                                <CardHeader>
+                                  <CardTitle className="text-base">Fire Risk Indicators</CardTitle>
+                                  <p className="text-xs text-muted-foreground">Threshold profile: {profile.name}</p>
+                                </CardHeader>
+                                <CardContent>
+                                  {riskLevels && (
+                                    <div className="space-y-4">
+                                      {[
+                                        {
+                                          label: 'Temperature Risk',
+                                          level: riskLevels.temp,
+                                          fill: selectedSession.maxTemp / profile.tempCritical * 100,
+                                        },
+                                        {
+                                          label: 'Smoke Risk',
+                                          level: riskLevels.smoke,
+                                          fill: selectedSession.maxSmoke / profile.smokeCritical * 100,
+                                        },
+                                        {
+                                          label: 'Dryness Risk',
+                                          level: riskLevels.humidity,
+                                          fill: (100 - selectedSession.minHumidity) / (100 - profile.humidityCritical) * 100,
+                                        },
+                                        {
+                                          label: 'Overall Risk Level',
+                                          level: riskLevels.overall,
+                                          fill: (RISK_ORDER.indexOf(riskLevels.overall) + 1) / RISK_ORDER.length * 100,
+                                        },
+                                      ].map(indicator => (
+                                        <div key={indicator.label}>
+                                          <div className="flex justify-between mb-1">
+                                            <span>{indicator.label}</span>
+                                            <span className="font-medium">{indicator.level}</span>
+                                          </div>
+                                          <div className="w-full bg-gray-200 rounded-full h-2.5">
+                                            <div
+                                              className={`h-2.5 rounded-full ${RISK_BAR_CLASSES[indicator.level]}`}
+                                              style={{width: `${Math.max(0, Math.min(indicator.fill, 100))}%`}}
+                                            ></div>
+                                          </div>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  )}
+                                </CardContent>
+                              </Card>
+
+                              <Card>
+                                <CardHeader>
+                                  <CardTitle className="text-base">Environmental Impact</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                  <div className="space-y-4">
+                                    <div className="flex justify-between">
+                                      <span className="text-muted-foreground">Potential Area Affected:</span>
+                                      <span className="font-medium">
+                                        {riskLevels?.temp === 'High' ? 'Large (5+ acres)' : 
+                                         riskLevels?.temp === 'Medium' ? 'Medium (1-5 acres)' : 'Small (<1 acre)'}
+                                      </span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                      <span className="text-muted-foreground">Response Time Needed:</span>
+                                      <span className="font-medium">
+                                        {riskLevels?.overall === 'High' ? 'Immediate (<15 mins)' : 
+                                         riskLevels?.overall === 'Medium' ? 'Urgent (15-30 mins)' : 'Standard (30+ mins)'}
+                                      </span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                      <span className="text-muted-foreground">Recommended Action:</span>
+                                      <span className="font-medium">
+                                        {riskLevels?.overall === 'High' ? 'Evacuate and deploy fire services' : 
+                                         riskLevels?.overall === 'Medium' ? 'Increase monitoring and prepare response' : 'Continue standard monitoring'}
+                                      </span>
+                                    </div>
                                   </div>
-                                  <div className="w-full bg-gray-200 rounded-full h-2.5">
-                                    <div 
-                                      className={`h-2.5 rounded-full ${
-                                        selectedSession.maxSmoke > 100 ? 'bg-red-600' : 
-                                        selectedSession.maxSmoke > 50 ? 'bg-yellow-500' : 'bg-green-600'
-                                      }`} 
-                                      style={{width: `${Math.min(selectedSession.maxSmoke, 100)}%`}}
-                                    ></div>
+                                </CardContent>
+                              </Card>
+                            </div>
+
+                            <h3 className="text-lg font-semibold mb-4">Pattern Recognition</h3>
+                            <Card>
+                              <CardHeader>
+                                <CardTitle className="text-base">Fire Development Pattern</CardTitle>
+                              </CardHeader>
+                              <CardContent>
+                                {sessionStats && sessionStats.fireReadings > 0 ? (
+                                  <div className="space-y-3">
+                                    <p>The data indicates a fire event that:</p>
+                                    <ul className="list-disc pl-5 space-y-1">
+                                      <li>Started at approximately {formatDate(selectedSession.startTime)}</li>
+                                      <li>Lasted for {getDuration(selectedSession.startTime, selectedSession.endTime)}</li>
+                                      <li>Reached peak intensity around {sessionStats.peakFireTime || 'unknown time'}</li>
+                                      <li>Showed {sessionReadings.some(r => r.temp > profile.tempCritical) ? 'high' : 'moderate'} temperature escalation</li>
+                                    </ul>
+                                    <p className="mt-2 text-sm text-muted-foreground">
+                                      This pattern suggests a {sessionReadings.some(r => r.temp > profile.tempCritical) ? 'rapidly developing' : 'gradual'} fire that may have been influenced by weather conditions and available fuel sources.
+                                    </p>
                                   </div>
-                                </div>
+                                ) : (
+                                  <p>No significant fire pattern detected in this session. The readings indicate normal environmental conditions with occasional warnings.</p>
+                                )}
+                              </CardContent>
+                            </Card>
+                          </TabsContent>
 
-                                <div>
-                                  <div className="flex justify-between mb-1">
-                                    <span>Overall Risk Level</span>
-                                    <span className="font-medium">
-                                      {selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'High' : 
-                                       selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'Medium' : 'Low'}
+                          {/* Raw Data Tab */}
+                          <TabsContent value="rawdata">
+                            <h3 className="text-lg font-semibold mb-4">All Readings ({sessionReadings.length} records)</h3>
+                            <div className="space-y-2 max-h-96 overflow-y-auto">
+                              {sessionReadings.map((reading, index) => (
+                                <div key={`${reading.timestamp}-${index}`} className="p-3 border rounded-lg bg-white">
+                                  <div className="flex justify-between items-start mb-2">
+                                    <span className="text-sm font-medium">
+                                      {format.time(reading.timestamp)}
+                                    </span>
+                                    <span className={`text-sm font-semibold ${getStatusColor(reading)}`}>
+                                      {getStatusText(reading)}
                                     </span>
                                   </div>
-                                  <div className="w-full bg-gray-200 rounded-full h-2.5">
-                                    <div 
-                                      className={`h-2.5 rounded-full ${
-                                        selectedSession.maxTemp > 60 || selectedSession.maxSmoke > 100 ? 'bg-red-600' : 
-                                        selectedSession.maxTemp > 40 || selectedSession.maxSmoke > 50 ? 'bg-yellow-500' : 'bg-green-600'
-                                      }`} 
-                                      style={{width: `${Math.min(
-                                        (selectedSession.maxTemp / 100 * 50) + (selectedSession.maxSmoke / 200 * 50), 
-                                        100
-                                      )}%`}}
-                                    ></div>
+                                  <div className="grid grid-cols-3 gap-2 text-sm">
+                                    <div>
+                                      <span className="text-muted-foreground">Temp:</span> {format.temperature(reading.temp)}
+                                    </div>
+                                    <div>
+                                      <span className="text-muted-foreground">Humidity:</span> {reading.humidity}%
+                                    </div>
+                                    <div>
+                                      <span className="text-muted-foreground">Smoke:</span> {format.smoke(reading.smoke)}
+                                    </div>
                                   </div>
+                                  {reading.latitude && reading.longitude && (
+                                    <div className="mt-2 text-xs text-muted-foreground">
+                                      Location: {reading.latitude.toFixed(4)}, {reading.longitude.toFixed(4)}
+                                    </div>
+                                  )}
                                 </div>
-                              </div>
-                            </CardContent>
-                          </Card>
-
-                          <Card>
-                            <CardHeader>
-                              <CardTitle className="text-base">Environmental Impact</CardTitle>
-                            </CardHeader>
-                            <CardContent>
-                              <div className="space-y-4">
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Potential Area Affected:</span>
-                                  <span className="font-medium">
-                                    {selectedSession.maxTemp > 60 ? 'Large (5+ acres)' : 
-                                     selectedSession.maxTemp > 40 ? 'Medium (1-5 acres)' : 'Small (<1 acre)'}
-                                  </span>
-                                </div>
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Response Time Needed:</span>
-                                  <span className="font-medium">
-                                    {selectedSession.maxTemp > 60 ? 'Immediate (<15 mins)' : 
-                                     selectedSession.maxTemp > 40 ? 'Urgent (15-30 mins)' : 'Standard (30+ mins)'}
-                                  </span>
-                                </div>
-                                <div className="flex justify-between">
-                                  <span className="text-muted-foreground">Recommended Action:</span>
-                                  <span className="font-medium">
-                                    {selectedSession.maxTemp > 60 ? 'Evacuate and deploy fire services' : 
-                                     selectedSession.maxTemp > 40 ? 'Increase monitoring and prepare response' : 'Continue standard monitoring'}
-                                  </span>
-                                </div>
-                              </div>
-                            </CardContent>
-                          </Card>
-                        </div>
-
-                        <h3 className="text-lg font-semibold mb-4">Pattern Recognition</h3>
-                        <Card>
-                          <CardHeader>
-                            <CardTitle className="text-base">Fire Development Pattern</CardTitle>
-                          </CardHeader>
-                          <CardContent>
-                            {sessionStats && sessionStats.fireReadings > 0 ? (
-                              <div className="space-y-3">
-                                <p>The data indicates a fire event that:</p>
-                                <ul className="list-disc pl-5 space-y-1">
-                                  <li>Started at approximately {formatDate(selectedSession.startTime)}</li>
-                                  <li>Lasted for {getDuration(selectedSession.startTime, selectedSession.endTime)}</li>
-                                  <li>Reached peak intensity around {sessionStats.peakFireTime || 'unknown time'}</li>
-                                  <li>Showed {selectedSession.readings.some(r => r.temp > 70) ? 'high' : 'moderate'} temperature escalation</li>
-                                </ul>
-                                <p className="mt-2 text-sm text-muted-foreground">
-                                  This pattern suggests a {selectedSession.readings.some(r => r.temp > 70) ? 'rapidly developing' : 'gradual'} fire that may have been influenced by weather conditions and available fuel sources.
-                                </p>
-                              </div>
-                            ) : (
-                              <p>No significant fire pattern detected in this session. The readings indicate normal environmental conditions with occasional warnings.</p>
-                            )}
-                          </CardContent>
-                        </Card>
-                      </TabsContent>
-
-                      {/* Raw Data Tab */}
-                      <TabsContent value="rawdata">
-                        <h3 className="text-lg font-semibold mb-4">All Readings ({selectedSession.readings.length} records)</h3>
-                        <div className="space-y-2 max-h-96 overflow-y-auto">
-                          {selectedSession.readings.map((reading, index) => (
-                            <div key={`${reading.timestamp}-${index}`} className="p-3 border rounded-lg bg-white">
-                              <div className="flex justify-between items-start mb-2">
-                                <span className="text-sm font-medium">
-                                  {new Date(reading.timestamp).toLocaleTimeString()}
-                                </span>
-                                <span className={`text-sm font-semibold ${getStatusColor(reading)}`}>
-                                  {getStatusText(reading)}
-                                </span>
-                              </div>
-                              <div className="grid grid-cols-3 gap-2 text-sm">
-                                <div>
-                                  <span className="text-muted-foreground">Temp:</span> {reading.temp}°C
-                                </div>
-                                <div>
-                                  <span className="text-muted-foreground">Humidity:</span> {reading.humidity}%
-                                </div>
-                                <div>
-                                  <span className="text-muted-foreground">Smoke:</span> {reading.smoke} ppm
-                                </div>
-                              </div>
-                              {reading.latitude && reading.longitude && (
-                                <div className="mt-2 text-xs text-muted-foreground">
-                                  Location: {reading.latitude.toFixed(4)}, {reading.longitude.toFixed(4)}
-                                </div>
-                              )}
+                              ))}
                             </div>
-                          ))}
-                        </div>
-                      </TabsContent>
-                    </Tabs>
-                  </CardContent>
-                </Card>
-              ) : (
-                <Card className="glass-card p-6 rounded-lg text-center">
-                  <AlertTriangle className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                  <h2 className="text-xl font-bold text-forest-primary mb-2">Select a Session</h2>
-                  <p className="text-muted-foreground">Choose a fire alert session from the list to view details</p>
-                </Card>
-              )}
-            </div>
-          </div>
+                          </TabsContent>
+
+                          {/* Notes Tab */}
+                          <TabsContent value="notes">
+                            <SessionAnnotationsPanel
+                              sessionId={selectedSession.id}
+                              annotation={selectedAnnotation}
+                              readOnly={isShared}
+                            />
+                          </TabsContent>
+                        </Tabs>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <Card className="glass-card p-6 rounded-lg text-center">
+                      <AlertTriangle className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                      {isShared ? (
+                        <>
+                          <h2 className="text-xl font-bold text-forest-primary mb-2">Snapshot Unavailable</h2>
+                          <p className="text-muted-foreground">This snapshot link is incomplete or was made by a newer version</p>
+                        </>
+                      ) : selectedSessionId ? (
+                        <>
+                          <h2 className="text-xl font-bold text-forest-primary mb-2">Session Not Found</h2>
+                          <p className="text-muted-foreground">
+                            This session is not stored on this machine. Ask for a snapshot link to view it here.
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <h2 className="text-xl font-bold text-forest-primary mb-2">Select a Session</h2>
+                          <p className="text-muted-foreground">Choose a fire alert session from the list to view details</p>
+                        </>
+                      )}
+                    </Card>
+                  )}
+                </div>
+              </div>
+            </TabsContent>
+            <TabsContent value="analytics">
+              <SessionAnalytics
+                sessions={sessions}
+                zones={zones}
+                getSessionZones={getSessionZones}
+                getDisplayName={getDisplayName}
+                getSessionTags={sessionId => getAnnotation(sessionId)?.tags}
+              />
+            </TabsContent>
+          </Tabs>
         )}
 
         {/* Delete Confirmation Dialog */}
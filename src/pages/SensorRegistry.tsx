@@ -0,0 +1,231 @@
+// src/pages/SensorRegistry.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { LogOut, Upload, Download, Plus, Pencil, Trash2, Search } from 'lucide-react';
+import SensorMetadataDialog from '@/components/SensorMetadataDialog';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useSettings } from '@/hooks/use-settings';
+import { useFireAlerts } from '@/hooks/use-fire-alerts';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { toast } from '@/hooks/use-toast';
+import { normalizeSensors } from '@/api/sensorNormalization';
+import { downloadCsv } from '@/lib/csv';
+import { SensorMetadataInput } from '@/lib/sensorRegistry';
+import { getStatusLevel, STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { SensorData } from '@/types/sensor';
+
+const SensorRegistry: React.FC = () => {
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const { getProfile } = useThresholds();
+  const { registry, saveMetadata, removeMetadata, importRegistryCsv, exportRegistryCsv } = useSensorRegistry();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+  // null when closed, '' when registering a sensor that has not reported yet
+  const [editingDeviceId, setEditingDeviceId] = useState<string | null>(null);
+
+  const { data: apiResponse, isLoading } = useFireAlerts(settings.polling.sensorStatus);
+  const liveSensors = useMemo(() => normalizeSensors(apiResponse, getProfile), [apiResponse, getProfile]);
+
+  // Devices reporting live plus any that only exist in the registry
+  const rows = useMemo(() => {
+    const live = new Map<string, SensorData>(liveSensors.map(sensor => [sensor.deviceId, sensor]));
+    const deviceIds = new Set<string>([...live.keys(), ...Object.keys(registry)]);
+    const query = search.trim().toLowerCase();
+    return [...deviceIds]
+      .sort()
+      .map(deviceId => ({ deviceId, sensor: live.get(deviceId), metadata: registry[deviceId] }))
+      .filter(
+        row =>
+          !query ||
+          [row.deviceId, row.metadata?.name, row.metadata?.ranger, row.metadata?.hardwareRevision]
+            .some(value => value?.toLowerCase().includes(query))
+      );
+  }, [liveSensors, registry, search]);
+
+  const registeredCount = Object.keys(registry).length;
+
+  const handleSave = (values: SensorMetadataInput) => {
+    try {
+      saveMetadata(values);
+      setEditingDeviceId(null);
+      toast({ title: 'Sensor details saved', description: values.deviceId });
+    } catch (error) {
+      toast({
+        title: 'Could not save sensor details',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemove = (deviceId: string) => {
+    removeMetadata(deviceId);
+    toast({ title: 'Sensor details cleared', description: deviceId });
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = importRegistryCsv(await file.text());
+      toast({ title: 'Registry imported', description: `${count} sensor${count === 1 ? '' : 's'} updated from ${file.name}` });
+    } catch (error) {
+      toast({
+        title: 'Could not import registry',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(exportRegistryCsv(), `sensor-registry-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">Sensor Registry</h1>
+            <p className="text-sm text-muted-foreground">Names, installation details and owners of deployed sensors</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => navigate('/sensors')}
+          >
+            Sensor Status
+          </Button>
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <LogOut className="w-4 h-4 mr-2" />
+            Logout
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6 space-y-6">
+        <Card className="glass-card">
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4 space-y-0">
+            <CardTitle className="text-forest-primary">
+              Sensors ({rows.length}) · {registeredCount} registered
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-3 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={event => setSearch(event.target.value)}
+                  placeholder="Device, name or ranger"
+                  className="pl-9 w-56"
+                />
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setEditingDeviceId('')}>
+                <Plus className="w-4 h-4 mr-2" />
+                Register sensor
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+              <Button size="sm" variant="outline" onClick={handleExport} disabled={registeredCount === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+              <input ref={inputRef} type="file" accept="text/csv,.csv" className="hidden" onChange={handleFile} />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {rows.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                {isLoading ? 'Loading sensor data...' : 'No sensors found'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Device ID</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Installed</TableHead>
+                    <TableHead>Height</TableHead>
+                    <TableHead>Ranger</TableHead>
+                    <TableHead>Hardware</TableHead>
+                    <TableHead>Live status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ deviceId, sensor, metadata }) => {
+                    const level = sensor ? getStatusLevel(sensor, getProfile(deviceId)) : null;
+                    return (
+                      <TableRow key={deviceId}>
+                        <TableCell className="font-medium">{deviceId}</TableCell>
+                        <TableCell>
+                          {metadata?.name ?? <span className="text-muted-foreground">Sensor {deviceId}</span>}
+                          {metadata?.notes && (
+                            <p className="text-xs text-muted-foreground truncate max-w-56" title={metadata.notes}>
+                              {metadata.notes}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>{metadata?.installDate ?? '--'}</TableCell>
+                        <TableCell>{metadata?.mountingHeightM !== undefined ? `${metadata.mountingHeightM} m` : '--'}</TableCell>
+                        <TableCell>{metadata?.ranger ?? '--'}</TableCell>
+                        <TableCell>{metadata?.hardwareRevision ?? '--'}</TableCell>
+                        <TableCell>
+                          {level ? (
+                            <Badge className={STATUS_STYLES[level].badge}>{STATUS_LABELS[level]}</Badge>
+                          ) : (
+                            <Badge variant="outline">Not reporting</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingDeviceId(deviceId)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            disabled={!metadata}
+                            onClick={() => handleRemove(deviceId)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <SensorMetadataDialog
+        deviceId={editingDeviceId}
+        metadata={editingDeviceId ? registry[editingDeviceId] : undefined}
+        onSave={handleSave}
+        onClose={() => setEditingDeviceId(null)}
+      />
+    </div>
+  );
+};
+
+export default SensorRegistry;
@@ -1,62 +1,58 @@
-import React, { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import SensorStats from '@/components/SensorStats';
 import SensorList from '@/components/SensorList';
 import SensorPopup from '@/components/SensorPopup';
-import { getFireAlerts } from '@/api/fireAlerts';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useSettings } from '@/hooks/use-settings';
+import { useFireAlerts } from '@/hooks/use-fire-alerts';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { useSensorHealth } from '@/hooks/use-sensor-health';
+import { useSensorAnomalies } from '@/hooks/use-sensor-anomalies';
+import { useFireDanger } from '@/hooks/use-fire-danger';
+import { useZones } from '@/hooks/use-zones';
+import { getSensorLevel } from '@/lib/thresholds';
+import { countByHealth } from '@/lib/sensorHealth';
+import { getMonitoringPath } from '@/lib/readingHistory';
+import { summarizeZones } from '@/lib/zones';
+import { normalizeSensors } from '@/api/sensorNormalization';
 import { SensorData, SensorStats as SensorStatsType } from '@/types/sensor';
 import { Button } from '@/components/ui/button';
 import { LogOut } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
 
-// Convert API data to SensorData format with proper error handling
-const convertApiToSensorData = (apiDevices: any[]): SensorData[] => {
-  if (!apiDevices || !Array.isArray(apiDevices)) return [];
-  
-  return apiDevices.map(device => {
-    // Handle cases where device properties might be missing
-    const deviceId = device.deviceId || device._id || 'unknown';
-    const id = device._id || device.id || `dev-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      id: id,
-      deviceId: deviceId,
-      latitude: device.latitude || 0,
-      longitude: device.longitude || 0,
-      humidity: device.humidity || 0,
-      temp: device.temp || 0,
-      smoke: device.smoke || 0,
-      isFire: device.isfire || device.isFire || false,
-      timestamp: device.lastUpdate || device.timestamp || new Date().toISOString(),
-      name: `Sensor ${deviceId}`,
-      status: (device.isfire || device.isFire || device.temp > 35 || device.smoke > 50) ? 'warning' : 'active'
-    };
-  });
-};
-
 const SensorStatus: React.FC = () => {
   const navigate = useNavigate();
   const [selectedSensor, setSelectedSensor] = useState<SensorData | null>(null);
   const [isPopupOpen, setIsPopupOpen] = useState(false);
+  const { getProfile } = useThresholds();
+  const { withMetadata } = useSensorRegistry();
+  const { settings } = useSettings();
+  const { zones, getAssignment } = useZones();
 
-  const { data: apiResponse, isLoading, error } = useQuery({
-    queryKey: ['fireAlerts'],
-    queryFn: getFireAlerts,
-    refetchInterval: 5000,
-  });
+  const { data: apiResponse, isLoading, error } = useFireAlerts(settings.polling.sensorStatus);
 
-  // Extract devices from API response or use empty array
-  const apiDevices = apiResponse && Array.isArray(apiResponse) ? apiResponse : [];
-  const allSensors = convertApiToSensorData(apiDevices);
+  const registeredSensors = useMemo(
+    () => withMetadata(normalizeSensors(apiResponse, getProfile)),
+    [apiResponse, getProfile, withMetadata]
+  );
+  const checkedSensors = useSensorHealth(registeredSensors);
+  const analyzedSensors = useSensorAnomalies(checkedSensors);
+  const allSensors = useFireDanger(analyzedSensors);
 
   const stats: SensorStatsType = {
     totalSensors: allSensors.length,
     activeSensors: allSensors.filter(s => s.status === 'active').length,
     fireDetected: allSensors.filter(s => s.isFire).length,
-    warningStatus: allSensors.filter(s => s.status === 'warning').length
+    warningStatus: allSensors.filter(s => s.status === 'warning').length,
+    health: countByHealth(allSensors),
   };
 
+  const zoneSummaries = useMemo(
+    () => summarizeZones(zones, allSensors, getAssignment, sensor => getSensorLevel(sensor, getProfile(sensor.deviceId))),
+    [zones, allSensors, getAssignment, getProfile]
+  );
+
   const handleSensorClick = (sensor: SensorData) => {
     setSelectedSensor(sensor);
     setIsPopupOpen(true);
@@ -67,8 +63,8 @@ const SensorStatus: React.FC = () => {
     setIsPopupOpen(false);
   };
 
-  const handleLiveTracking = (sensorId: string) => {
-    navigate(`/monitoring?sensor=${sensorId}`);
+  const handleLiveTracking = (deviceId: string) => {
+    navigate(getMonitoringPath([deviceId]));
     setIsPopupOpen(false);
   };
 
@@ -103,7 +99,7 @@ const SensorStatus: React.FC = () => {
           {/* Stats Section */}
           <div className="glass-card p-6 rounded-lg">
             <h2 className="text-2xl font-bold text-forest-primary mb-6">Sensor Overview</h2>
-            <SensorStats stats={stats} />
+            <SensorStats stats={stats} zones={zoneSummaries} onZoneClick={zoneId => navigate(`/zones/${encodeURIComponent(zoneId)}`)} />
           </div>
 
           {/* Sensor List */}
@@ -1,9 +1,469 @@
-import React from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Control, FieldPath, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
-import { LogOut } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { LogOut, Download, Upload, RotateCcw, Save, FileJson, X, Database, Trash2, Archive, Bell, Volume2, VolumeX } from 'lucide-react';
 import { SidebarTrigger } from '@/components/ui/sidebar';
+import ThresholdProfileSettings from '@/components/ThresholdProfileSettings';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import {
+  getEnvDataSourceKind,
+  parseReplayFile,
+  replayRecordingStore,
+  resetDataSource,
+  simulatorScenarioStore,
+} from '@/api/dataSources';
+import { BUILT_IN_SCENARIOS, parseScenario, Scenario } from '@/lib/simulator/scenario';
+import { toast } from '@/hooks/use-toast';
+import { settingsSchema, TIME_ZONES } from '@/lib/settings';
+import { clearHistory, compactHistory, getHistoryStats, HistoryStats } from '@/lib/readingHistory';
+import { historyKeys } from '@/api/queryKeys';
+import { createSiren, Siren } from '@/lib/siren';
+import { getNotificationPermission, requestNotificationPermission } from '@/lib/alertNotifications';
+import { AppSettings, SirenPattern } from '@/types/settings';
+
+interface FieldProps {
+  control: Control<AppSettings>;
+  name: FieldPath<AppSettings>;
+  label: string;
+  description?: string;
+}
+
+const NumberField: React.FC<FieldProps & { step?: string }> = ({ control, name, label, description, step = 'any' }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input
+            type="number"
+            step={step}
+            value={Number.isFinite(field.value) ? (field.value as number) : ''}
+            onChange={event => field.onChange(event.target.valueAsNumber)}
+            onBlur={field.onBlur}
+          />
+        </FormControl>
+        {description && <FormDescription>{description}</FormDescription>}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const SelectField: React.FC<FieldProps & { options: { value: string; label: string }[] }> = ({
+  control,
+  name,
+  label,
+  description,
+  options,
+}) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <Select value={field.value as string} onValueChange={field.onChange}>
+          <FormControl>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+          </FormControl>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {description && <FormDescription>{description}</FormDescription>}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+const SwitchField: React.FC<FieldProps> = ({ control, name, label, description }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+        <div>
+          <FormLabel>{label}</FormLabel>
+          {description && <FormDescription>{description}</FormDescription>}
+        </div>
+        <FormControl>
+          <Switch checked={field.value as boolean} onCheckedChange={field.onChange} />
+        </FormControl>
+      </FormItem>
+    )}
+  />
+);
+
+const TimeField: React.FC<FieldProps> = ({ control, name, label, description }) => (
+  <FormField
+    control={control}
+    name={name}
+    render={({ field }) => (
+      <FormItem>
+        <FormLabel>{label}</FormLabel>
+        <FormControl>
+          <Input type="time" {...field} value={field.value as string} />
+        </FormControl>
+        {description && <FormDescription>{description}</FormDescription>}
+        <FormMessage />
+      </FormItem>
+    )}
+  />
+);
+
+// Upload and clear the recording played back by the replay data source
+const ReplayRecordingControls: React.FC<{ onChange: () => void }> = ({ onChange }) => {
+  const recording = replayRecordingStore.useStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseReplayFile(await file.text(), file.name);
+      replayRecordingStore.setState(parsed);
+      resetDataSource('replay');
+      onChange();
+      toast({ title: 'Recording loaded', description: `${parsed.records.length} readings from ${parsed.name}` });
+    } catch (error) {
+      toast({
+        title: 'Could not load recording',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleClear = () => {
+    replayRecordingStore.setState(null);
+    resetDataSource('replay');
+    onChange();
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <FileJson className="w-4 h-4 text-forest-primary" />
+        {recording ? (
+          <span>
+            {recording.name}: {recording.records.length} readings over {Math.round(recording.durationMs / 60000)} min
+          </span>
+        ) : (
+          <span className="text-muted-foreground">No recording loaded</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Load recording
+        </Button>
+        {recording && (
+          <Button type="button" size="sm" variant="ghost" onClick={handleClear}>
+            <X className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        )}
+        <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+    </div>
+  );
+};
+
+// Upload a scripted scenario for the simulator, or download the selected one as a starting point
+const SimulatorScenarioControls: React.FC<{ scenarioId: string; onLoaded: (scenario: Scenario) => void }> = ({
+  scenarioId,
+  onLoaded,
+}) => {
+  const custom = simulatorScenarioStore.useStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseScenario(JSON.parse(await file.text()));
+      simulatorScenarioStore.setState(parsed);
+      onLoaded(parsed);
+      toast({ title: 'Scenario loaded', description: `${parsed.name}. Save settings to run it.` });
+    } catch (error) {
+      toast({
+        title: 'Could not load scenario',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDownload = () => {
+    const scenario = scenarioId === 'custom' && custom
+      ? custom
+      : BUILT_IN_SCENARIOS.find(s => s.id === scenarioId) ?? BUILT_IN_SCENARIOS[0];
+    const blob = new Blob([JSON.stringify(scenario, null, 2)], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', `scenario-${scenario.id}.json`);
+    link.style.visibility = 'hidden';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <FileJson className="w-4 h-4 text-forest-primary" />
+        {custom ? (
+          <span>
+            Custom scenario: {custom.name} ({custom.fires.length} fires, {custom.faults.length} faults)
+          </span>
+        ) : (
+          <span className="text-muted-foreground">No custom scenario loaded</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Load scenario
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download selected
+        </Button>
+        <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+    </div>
+  );
+};
+
+// Siren preview and the browser permission needed for system notifications
+const NotificationControls: React.FC<{ pattern: SirenPattern; volume: number }> = ({ pattern, volume }) => {
+  const sirenRef = useRef<Siren | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [permission, setPermission] = useState(getNotificationPermission);
+
+  useEffect(() => () => sirenRef.current?.stop(), []);
+
+  // Stop the preview automatically after a few seconds
+  useEffect(() => {
+    if (!previewing) return;
+    sirenRef.current = sirenRef.current ?? createSiren();
+    sirenRef.current.start(pattern, volume);
+    const timer = window.setTimeout(() => setPreviewing(false), 4000);
+    return () => {
+      window.clearTimeout(timer);
+      sirenRef.current?.stop();
+    };
+  }, [previewing, pattern, volume]);
+
+  const handleRequestPermission = async () => {
+    const result = await requestNotificationPermission();
+    setPermission(result);
+    if (result === 'denied') {
+      toast({
+        title: 'Notifications blocked',
+        description: 'Allow notifications for this site in your browser settings.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-dashed p-3">
+      <p className="text-sm text-muted-foreground">
+        Browser permission:{' '}
+        <span className="font-medium text-foreground">
+          {permission === 'unsupported' ? 'not supported' : permission}
+        </span>
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => setPreviewing(current => !current)}>
+          {previewing ? <VolumeX className="w-4 h-4 mr-2" /> : <Volume2 className="w-4 h-4 mr-2" />}
+          {previewing ? 'Stop' : 'Test siren'}
+        </Button>
+        {permission === 'default' && (
+          <Button type="button" size="sm" variant="outline" onClick={handleRequestPermission}>
+            <Bell className="w-4 h-4 mr-2" />
+            Allow notifications
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Size of the IndexedDB reading history, with manual compaction and clearing
+const HistoryStorageControls: React.FC = () => {
+  const { settings } = useSettings();
+  const format = useFormatters();
+  const queryClient = useQueryClient();
+  const [stats, setStats] = useState<HistoryStats | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const refresh = useCallback(() => {
+    getHistoryStats()
+      .then(setStats)
+      .catch(() => setUnavailable(true));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCompact = async () => {
+    try {
+      const result = await compactHistory(settings.history);
+      queryClient.invalidateQueries({ queryKey: historyKeys.all });
+      toast({
+        title: 'History compacted',
+        description: `${result.rawRolledUp} readings and ${result.minutesRolledUp} minute rollups aggregated, ${result.hoursDeleted} expired`,
+      });
+    } finally {
+      refresh();
+    }
+  };
+
+  const handleClear = async () => {
+    await clearHistory();
+    queryClient.invalidateQueries({ queryKey: historyKeys.all });
+    refresh();
+    toast({ title: 'Reading history cleared' });
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <Database className="w-4 h-4 text-forest-primary" />
+        {unavailable ? (
+          <span className="text-muted-foreground">IndexedDB is not available; history is not being stored</span>
+        ) : stats ? (
+          <span>
+            {stats.readings} raw readings, {stats.rollups} rollups
+            {stats.oldest !== null && `, oldest from ${format.dateTime(stats.oldest)}`}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Reading history size...</span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={handleCompact} disabled={unavailable}>
+          <Archive className="w-4 h-4 mr-2" />
+          Compact now
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={handleClear} disabled={unavailable}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Clear history
+        </Button>
+      </div>
+    </div>
+  );
+};
 
 const Settings: React.FC = () => {
+  const { settings, updateSettings, resetSettings, importSettings, exportSettings } = useSettings();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const customScenario = simulatorScenarioStore.useStore();
+
+  const form = useForm<AppSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings,
+  });
+
+  // Keep the form in step with changes from imports, resets or other tabs
+  useEffect(() => {
+    form.reset(settings);
+  }, [settings, form]);
+
+  const handleSave = (values: AppSettings) => {
+    const sourceChanged =
+      values.api.baseUrl !== settings.api.baseUrl ||
+      values.dataSource.kind !== settings.dataSource.kind ||
+      JSON.stringify(values.simulator) !== JSON.stringify(settings.simulator);
+    updateSettings(values);
+    // Drop cached readings so nothing from the previous source lingers
+    if (sourceChanged) {
+      queryClient.resetQueries();
+    }
+    toast({ title: 'Settings saved' });
+  };
+
+  // Select an uploaded scenario and take its seed and sensor count when it pins them
+  const handleScenarioLoaded = (scenario: Scenario) => {
+    form.setValue('simulator.scenarioId', 'custom', { shouldDirty: true });
+    if (scenario.seed !== undefined) {
+      form.setValue('simulator.seed', scenario.seed, { shouldDirty: true });
+    }
+    if (scenario.sensorCount !== undefined) {
+      form.setValue('simulator.sensorCount', scenario.sensorCount, { shouldDirty: true });
+    }
+  };
+
+  const handleReset = () => {
+    resetSettings();
+    queryClient.resetQueries();
+    toast({ title: 'Settings restored to defaults' });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSettings()], { type: 'application/json;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', `vanrakshak-settings-v${settings.version}.json`);
+    link.style.visibility = 'hidden';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      importSettings(await file.text());
+      queryClient.resetQueries();
+      toast({ title: 'Settings imported', description: file.name });
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const { control } = form;
+  const watchedPattern = form.watch('notifications.sirenPattern');
+  const watchedVolume = form.watch('notifications.volume');
+
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -28,13 +488,433 @@ const Settings: React.FC = () => {
 
       {/* Main Content */}
       <main className="p-6">
-        <div className="glass-card p-6 rounded-lg text-center">
-          <h2 className="text-2xl font-bold text-forest-primary mb-4">Settings Coming Soon</h2>
-          <p className="text-muted-foreground">This feature will be available in the next update.</p>
+        <div className="space-y-6">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+              {/* Actions */}
+              <div className="glass-card p-4 rounded-lg flex flex-wrap items-center gap-2">
+                <Button type="submit" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+                  <Save className="w-4 h-4 mr-2" />
+                  Save settings
+                </Button>
+                <Button type="button" variant="outline" onClick={handleExport}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export JSON
+                </Button>
+                <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import JSON
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+                <Button type="button" variant="ghost" onClick={handleReset} className="ml-auto">
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore defaults
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                {/* API */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">API Endpoint</CardTitle>
+                    <CardDescription>Where sensor readings are fetched from.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <FormField
+                      control={control}
+                      name="api.baseUrl"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Base URL</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="https://example.com/api/fire-alerts" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Data source */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Data Source</CardTitle>
+                    <CardDescription>
+                      Run against the live API, the in-browser simulator or a recorded file.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <SelectField
+                      control={control}
+                      name="dataSource.kind"
+                      label="Source"
+                      description={`"Default" uses VITE_DATA_SOURCE (currently ${getEnvDataSourceKind()}).`}
+                      options={[
+                        { value: 'default', label: 'Default' },
+                        { value: 'rest', label: 'REST API' },
+                        { value: 'simulator', label: 'In-browser simulator' },
+                        { value: 'replay', label: 'Replay from file' },
+                      ]}
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <NumberField control={control} name="dataSource.replaySpeed" label="Replay speed (x)" />
+                      <SwitchField control={control} name="dataSource.replayLoop" label="Loop replay" />
+                    </div>
+                    <ReplayRecordingControls onChange={() => queryClient.resetQueries()} />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <SelectField
+                        control={control}
+                        name="simulator.scenarioId"
+                        label="Simulator scenario"
+                        options={[
+                          ...BUILT_IN_SCENARIOS.map(scenario => ({ value: scenario.id, label: scenario.name })),
+                          ...(customScenario ? [{ value: 'custom', label: `Custom: ${customScenario.name}` }] : []),
+                        ]}
+                      />
+                      <NumberField control={control} name="simulator.speed" label="Simulator speed (x)" />
+                      <NumberField
+                        control={control}
+                        name="simulator.seed"
+                        label="Seed"
+                        step="1"
+                        description="The same seed and scenario always produce the same readings."
+                      />
+                      <NumberField control={control} name="simulator.sensorCount" label="Virtual sensors" step="1" />
+                    </div>
+                    <SimulatorScenarioControls
+                      scenarioId={form.watch('simulator.scenarioId')}
+                      onLoaded={handleScenarioLoaded}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Realtime */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Realtime Updates</CardTitle>
+                    <CardDescription>
+                      Receive pushed sensor updates. Pages fall back to polling whenever the stream is down.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <SelectField
+                      control={control}
+                      name="realtime.transport"
+                      label="Transport"
+                      options={[
+                        { value: 'off', label: 'Off (polling only)' },
+                        { value: 'sse', label: 'Server-sent events' },
+                        { value: 'websocket', label: 'WebSocket' },
+                      ]}
+                    />
+                    <FormField
+                      control={control}
+                      name="realtime.url"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Stream URL</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="http://localhost:8787/stream" />
+                          </FormControl>
+                          <FormDescription>
+                            Run <code>npm run dev:stream</code> for a local server at /stream (SSE) and /ws (WebSocket).
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Polling */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Polling Intervals</CardTitle>
+                    <CardDescription>How often each page refreshes, in seconds.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <NumberField control={control} name="polling.dashboard" label="Dashboard map" step="1" />
+                    <NumberField control={control} name="polling.sensorStatus" label="Sensor status" step="1" />
+                    <NumberField control={control} name="polling.liveMonitoringList" label="Live monitoring sensor list" step="1" />
+                    <NumberField control={control} name="polling.liveMonitoringDetail" label="Live monitoring selected sensor" step="1" />
+                  </CardContent>
+                </Card>
+
+                {/* Sessions */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Fire Alert Sessions</CardTitle>
+                    <CardDescription>
+                      Sessions are recorded for every sensor in the background. These settings stop brief
+                      spikes from opening sessions and flapping readings from closing them early.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <NumberField
+                      control={control}
+                      name="sessions.openConfirmReadings"
+                      label="Fire readings to open"
+                      step="1"
+                      description="Consecutive fire readings before a session starts."
+                    />
+                    <NumberField
+                      control={control}
+                      name="sessions.closeConfirmSeconds"
+                      label="Clear time to close (seconds)"
+                      step="1"
+                      description="How long a sensor must stay clear before its session ends."
+                    />
+                    <NumberField
+                      control={control}
+                      name="sessions.closeAfterSilentMinutes"
+                      label="Close after silence (minutes)"
+                      step="1"
+                      description="End a session when its sensor stops reporting. Set to 0 to keep it open."
+                    />
+                    <SwitchField
+                      control={control}
+                      name="sessions.requireClearLevels"
+                      label="Wait for normal levels"
+                      description="Keep a session open while temperature, smoke or humidity are still at warning level."
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Alerts */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Alert Escalation</CardTitle>
+                    <CardDescription>
+                      Every fire session raises an alert in the Alert Inbox. Alerts nobody acknowledges are
+                      raised again until someone does.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <NumberField
+                      control={control}
+                      name="alerts.escalateAfterMinutes"
+                      label="Re-raise after (minutes)"
+                      description="Set to 0 to never re-raise an unacknowledged alert."
+                    />
+                    <FormField
+                      control={control}
+                      name="alerts.operatorName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Operator name</FormLabel>
+                          <FormControl>
+                            <Input {...field} placeholder="e.g. Range Officer Negi" />
+                          </FormControl>
+                          <FormDescription>Recorded against acknowledgements and status changes.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Health */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Sensor Health</CardTitle>
+                    <CardDescription>
+                      Sensors that stop reporting are marked stale, then offline. Sensors whose readings stop
+                      changing or fall outside what the hardware can measure are marked faulty.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <NumberField control={control} name="health.staleAfterMinutes" label="Stale after (minutes)" />
+                    <NumberField control={control} name="health.offlineAfterMinutes" label="Offline after (minutes)" />
+                    <NumberField
+                      control={control}
+                      name="health.flatlineMinutes"
+                      label="Flat-line after (minutes)"
+                      description="Set to 0 to skip the flat-line check."
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* Anomaly detection */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Anomaly Detection</CardTitle>
+                    <CardDescription>
+                      Each sensor learns its usual readings for every hour of the day from the last week of
+                      history. Readings far from that baseline, or rising quickly, are marked as anomalies
+                      before the device reports fire.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <SwitchField control={control} name="anomaly.enabled" label="Detect anomalies" />
+                    <NumberField
+                      control={control}
+                      name="anomaly.zScore"
+                      label="Deviation (standard deviations)"
+                      description="How far from the hourly baseline a reading must be."
+                    />
+                    <NumberField control={control} name="anomaly.riseWindowMinutes" label="Rapid change window (minutes)" />
+                    <NumberField control={control} name="anomaly.tempRiseC" label="Temperature rise (°C)" />
+                    <NumberField control={control} name="anomaly.smokeRisePpm" label="Smoke rise (ppm)" />
+                    <NumberField control={control} name="anomaly.humidityDropPct" label="Humidity drop (%)" />
+                  </CardContent>
+                </Card>
+
+                {/* History */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Reading History</CardTitle>
+                    <CardDescription>
+                      Every reading is stored in this browser. Older data is averaged into minute, then hour
+                      buckets (with min and max kept) before it expires.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <NumberField control={control} name="history.rawHours" label="Keep raw readings (hours)" />
+                      <NumberField control={control} name="history.minuteDays" label="Keep minute averages (days)" />
+                      <NumberField control={control} name="history.hourDays" label="Keep hour averages (days)" />
+                    </div>
+                    <HistoryStorageControls />
+                  </CardContent>
+                </Card>
+
+                {/* Units and dates */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Units &amp; Time</CardTitle>
+                    <CardDescription>How readings and timestamps are displayed.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <SelectField
+                      control={control}
+                      name="units.temperature"
+                      label="Temperature"
+                      options={[
+                        { value: 'celsius', label: 'Celsius (°C)' },
+                        { value: 'fahrenheit', label: 'Fahrenheit (°F)' },
+                      ]}
+                    />
+                    <SelectField
+                      control={control}
+                      name="units.smoke"
+                      label="Smoke"
+                      options={[
+                        { value: 'ppm', label: 'Parts per million (ppm)' },
+                        { value: 'ppb', label: 'Parts per billion (ppb)' },
+                      ]}
+                    />
+                    <SelectField
+                      control={control}
+                      name="display.timeZone"
+                      label="Time zone"
+                      options={TIME_ZONES.map(zone => ({ value: zone, label: zone === 'local' ? 'Browser local time' : zone }))}
+                    />
+                    <SelectField
+                      control={control}
+                      name="display.dateFormat"
+                      label="Date format"
+                      options={[
+                        { value: 'locale', label: 'Browser default' },
+                        { value: 'dd/MM/yyyy', label: 'DD/MM/YYYY' },
+                        { value: 'MM/dd/yyyy', label: 'MM/DD/YYYY' },
+                        { value: 'yyyy-MM-dd', label: 'YYYY-MM-DD' },
+                      ]}
+                    />
+                    <div className="md:col-span-2">
+                      <SwitchField control={control} name="display.hour12" label="12-hour clock" />
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Map */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Default Map View</CardTitle>
+                    <CardDescription>Initial center and zoom of the sensor map.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <NumberField control={control} name="map.centerLat" label="Latitude" />
+                    <NumberField control={control} name="map.centerLng" label="Longitude" />
+                    <NumberField control={control} name="map.zoom" label="Zoom" step="1" />
+                  </CardContent>
+                </Card>
+
+                {/* Notifications */}
+                <Card className="glass-card">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Sound &amp; Notifications</CardTitle>
+                    <CardDescription>How new fire alerts get your attention.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <SwitchField
+                      control={control}
+                      name="notifications.soundEnabled"
+                      label="Alert siren"
+                      description="Loops until the alert is acknowledged or the popup is closed."
+                    />
+                    <SelectField
+                      control={control}
+                      name="notifications.sirenPattern"
+                      label="Siren sound"
+                      options={[
+                        { value: 'wail', label: 'Wail (slow rise and fall)' },
+                        { value: 'yelp', label: 'Yelp (fast sweep)' },
+                        { value: 'beep', label: 'Beep' },
+                      ]}
+                    />
+                    <FormField
+                      control={control}
+                      name="notifications.volume"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Volume ({field.value}%)</FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={0}
+                              max={100}
+                              step={5}
+                              value={[field.value]}
+                              onValueChange={([value]) => field.onChange(value)}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    <SwitchField
+                      control={control}
+                      name="notifications.browserNotifications"
+                      label="Browser notifications"
+                      description="Show a system notification when a fire is detected or escalated while this tab is in the background."
+                    />
+                    <NotificationControls pattern={watchedPattern} volume={watchedVolume} />
+                    <SwitchField
+                      control={control}
+                      name="notifications.quietHours.enabled"
+                      label="Quiet hours"
+                      description="Mute the siren and make notifications silent during these hours. The popup and flashing tab still show."
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <TimeField control={control} name="notifications.quietHours.start" label="From" />
+                      <TimeField control={control} name="notifications.quietHours.end" label="Until" />
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </form>
+          </Form>
+
+          <ThresholdProfileSettings />
         </div>
       </main>
     </div>
   );
 };
 
-export default Settings;
\ No newline at end of file
+export default Settings;
@@ -0,0 +1,327 @@
+// src/pages/Zones.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { SidebarTrigger } from '@/components/ui/sidebar';
+import { LogOut, Upload, Trash2, ArrowLeft, Flame, FileText } from 'lucide-react';
+import LeafletMap from '@/components/LeafletMap';
+import SensorStats from '@/components/SensorStats';
+import SensorList from '@/components/SensorList';
+import SensorPopup from '@/components/SensorPopup';
+import { useThresholds } from '@/hooks/use-thresholds';
+import { useFormatters, useSettings } from '@/hooks/use-settings';
+import { useFireAlerts } from '@/hooks/use-fire-alerts';
+import { useSensorRegistry } from '@/hooks/use-sensor-registry';
+import { useSensorHealth } from '@/hooks/use-sensor-health';
+import { useSensorAnomalies } from '@/hooks/use-sensor-anomalies';
+import { useFireDanger } from '@/hooks/use-fire-danger';
+import { useSessions } from '@/hooks/use-sessions';
+import { useZones } from '@/hooks/use-zones';
+import { toast } from '@/hooks/use-toast';
+import { normalizeSensors } from '@/api/sensorNormalization';
+import { getSensorLevel, STATUS_LABELS, STATUS_STYLES } from '@/lib/thresholds';
+import { getSessionLocation } from '@/lib/sessionEngine';
+import { getSessionReportPath } from '@/lib/sessionFilters';
+import { countByHealth } from '@/lib/sensorHealth';
+import { getMonitoringPath } from '@/lib/readingHistory';
+import { formatZoneName, isInZone, summarizeZones, ZONE_LEVEL_LABELS, ZONE_LEVELS } from '@/lib/zones';
+import { SensorData, SensorStats as SensorStatsType } from '@/types/sensor';
+import { ZoneSummary } from '@/types/zones';
+
+const getStats = (sensors: SensorData[]): SensorStatsType => ({
+  totalSensors: sensors.length,
+  activeSensors: sensors.filter(s => s.status === 'active').length,
+  fireDetected: sensors.filter(s => s.isFire).length,
+  warningStatus: sensors.filter(s => s.status === 'warning').length,
+  health: countByHealth(sensors),
+});
+
+const describeSummary = (summary: ZoneSummary) => {
+  const parts = [`${summary.sensorCount} sensor${summary.sensorCount === 1 ? '' : 's'}`];
+  if (summary.fireCount > 0) parts.push(`${summary.fireCount} fire${summary.fireCount === 1 ? '' : 's'}`);
+  if (summary.warningCount > 0) parts.push(`${summary.warningCount} warning`);
+  return parts.join(' · ');
+};
+
+const Zones: React.FC = () => {
+  const navigate = useNavigate();
+  const { zoneId } = useParams<{ zoneId: string }>();
+  const format = useFormatters();
+  const { settings } = useSettings();
+  const { getProfile } = useThresholds();
+  const { withMetadata } = useSensorRegistry();
+  const { sessions } = useSessions();
+  const { zones, getAssignment, importZones, clearZones } = useZones();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedSensor, setSelectedSensor] = useState<SensorData | null>(null);
+
+  const { data: apiResponse, isLoading } = useFireAlerts(settings.polling.sensorStatus);
+  const registeredSensors = useMemo(
+    () => withMetadata(normalizeSensors(apiResponse, getProfile)),
+    [apiResponse, getProfile, withMetadata]
+  );
+  const checkedSensors = useSensorHealth(registeredSensors);
+  const analyzedSensors = useSensorAnomalies(checkedSensors);
+  const allSensors = useFireDanger(analyzedSensors);
+
+  const getLevel = (sensor: SensorData) => getSensorLevel(sensor, getProfile(sensor.deviceId));
+
+  const zone = zoneId ? zones.find(z => z.id === zoneId) ?? null : null;
+
+  const zoneSensors = useMemo(
+    () => (zone ? allSensors.filter(sensor => isInZone(getAssignment(sensor), zone.id)) : allSensors),
+    [zone, allSensors, getAssignment]
+  );
+
+  // Network-wide on the overview; inside a zone only its sensors count, so the
+  // breakdown shows the ranges and beats within it
+  const summaries = summarizeZones(zones, zoneSensors, getAssignment, getLevel);
+  const childSummaries = zone
+    ? summaries.filter(s => ZONE_LEVELS.indexOf(s.zone.level) > ZONE_LEVELS.indexOf(zone.level) && s.sensorCount > 0)
+    : [];
+
+  const zoneSessions = useMemo(() => {
+    if (!zone) return [];
+    return sessions
+      .filter(session => {
+        const location = getSessionLocation(session);
+        return location !== null && isInZone(getAssignment(location), zone.id);
+      })
+      .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+  }, [zone, sessions, getAssignment]);
+
+  const openZone = (id: string) => navigate(`/zones/${encodeURIComponent(id)}`);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importZones(await file.text());
+      toast({ title: 'Zones imported', description: `${imported.length} zone${imported.length === 1 ? '' : 's'} from ${file.name}` });
+    } catch (error) {
+      toast({
+        title: 'Could not import zones',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleClear = () => {
+    clearZones();
+    toast({ title: 'Zones cleared' });
+  };
+
+  const title = zone ? formatZoneName(zone) : 'Forest Zones';
+  const subtitle = zone ? `${ZONE_LEVEL_LABELS[zone.level]} dashboard` : 'Divisions, ranges and beats';
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="h-16 glass border-b border-forest-accent/30 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <SidebarTrigger className="text-forest-primary" />
+          <div>
+            <h1 className="text-xl font-bold text-forest-primary">{title}</h1>
+            <p className="text-sm text-muted-foreground">{subtitle}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          {zoneId && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-forest-primary text-forest-primary hover:bg-forest-primary hover:text-white"
+              onClick={() => navigate('/zones')}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              All zones
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-forest-accent text-forest-primary hover:bg-forest-accent"
+            onClick={() => navigate('/')}
+          >
+            Dashboard
+          </Button>
+          <Button size="sm" className="bg-forest-primary text-white hover:bg-forest-primary/90">
+            <LogOut className="w-4 h-4 mr-2" />
+            Logout
+          </Button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-6 space-y-6">
+        {zoneId && !zone ? (
+          <div className="glass-card p-6 rounded-lg text-center">
+            <p className="text-muted-foreground">This zone no longer exists. It may have been replaced by a new import.</p>
+          </div>
+        ) : (
+          <>
+            {!zone && (
+              <Card className="glass-card">
+                <CardHeader>
+                  <CardTitle className="text-forest-primary">Zone boundaries</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Import a GeoJSON FeatureCollection of Polygon or MultiPolygon features. Each feature needs a
+                    <code className="mx-1">name</code> and a <code className="mx-1">level</code> property of division,
+                    range or beat. Importing replaces the current zones.
+                  </p>
+                  <div className="flex gap-2">
+                    <Button type="button" size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import GeoJSON
+                    </Button>
+                    {zones.length > 0 && (
+                      <Button type="button" size="sm" variant="ghost" onClick={handleClear}>
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Clear zones
+                      </Button>
+                    )}
+                    <input
+                      ref={inputRef}
+                      type="file"
+                      accept="application/geo+json,application/json,.geojson,.json"
+                      className="hidden"
+                      onChange={handleFile}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {zone && (
+              <div className="glass-card p-6 rounded-lg">
+                <h2 className="text-2xl font-bold text-forest-primary mb-6">Zone Overview</h2>
+                <SensorStats stats={getStats(zoneSensors)} zones={childSummaries} onZoneClick={openZone} />
+              </div>
+            )}
+
+            <Card className="glass-card">
+              <CardContent className="p-0">
+                <LeafletMap
+                  key={zone?.id ?? 'all'}
+                  sensors={zoneSensors}
+                  onSensorClick={setSelectedSensor}
+                  onZoneClick={openZone}
+                  className="h-[420px]"
+                />
+              </CardContent>
+            </Card>
+
+            {!zone &&
+              ZONE_LEVELS.map(level => {
+                const levelSummaries = summaries
+                  .filter(summary => summary.zone.level === level)
+                  .sort((a, b) => a.zone.name.localeCompare(b.zone.name));
+                if (levelSummaries.length === 0) return null;
+                return (
+                  <div key={level} className="space-y-3">
+                    <h2 className="text-lg font-semibold text-forest-primary">{ZONE_LEVEL_LABELS[level]}s</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {levelSummaries.map(summary => (
+                        <Card
+                          key={summary.zone.id}
+                          className="glass-card cursor-pointer hover:border-forest-accent"
+                          onClick={() => openZone(summary.zone.id)}
+                        >
+                          <CardContent className="p-4 flex items-center justify-between">
+                            <div>
+                              <p className="font-medium text-forest-primary">{summary.zone.name}</p>
+                              <p className="text-xs text-muted-foreground">{describeSummary(summary)}</p>
+                            </div>
+                            {summary.sensorCount > 0 ? (
+                              <Badge className={STATUS_STYLES[summary.status].badge}>{STATUS_LABELS[summary.status]}</Badge>
+                            ) : (
+                              <Badge variant="outline">No sensors</Badge>
+                            )}
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
+            {!zone && zones.length === 0 && (
+              <div className="glass-card p-6 rounded-lg text-center">
+                <p className="text-muted-foreground">No zones imported yet.</p>
+              </div>
+            )}
+
+            {zone && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <SensorList sensors={zoneSensors} onSensorClick={setSelectedSensor} />
+
+                <Card className="glass-card border-forest-accent/30">
+                  <CardHeader>
+                    <CardTitle className="text-forest-primary">Fire sessions in this {zone.level}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3 max-h-96 overflow-y-auto">
+                      {zoneSessions.length === 0 ? (
+                        <p className="text-muted-foreground text-sm">No fire sessions recorded here</p>
+                      ) : (
+                        zoneSessions.map(session => (
+                          <div
+                            key={session.id}
+                            className="p-3 rounded-lg border border-forest-accent/30 flex items-center justify-between"
+                          >
+                            <div>
+                              <p className="font-medium text-forest-primary flex items-center gap-1">
+                                <Flame className="w-4 h-4 text-forest-danger" />
+                                Sensor {session.deviceId}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {format.dateTime(session.startTime)}
+                                {session.endTime ? ` – ${format.time(session.endTime)}` : ' – ongoing'}
+                                {` · max ${format.temperature(session.maxTemp)}`}
+                              </p>
+                            </div>
+                            {session.status === 'active' ? (
+                              <Badge className="bg-forest-danger text-white">Active</Badge>
+                            ) : (
+                              <Button size="sm" variant="ghost" onClick={() => navigate(getSessionReportPath(session.id))}>
+                                <FileText className="w-4 h-4 mr-1" />
+                                Report
+                              </Button>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
+            {isLoading && (
+              <div className="glass-card p-6 rounded-lg text-center">
+                <p className="text-muted-foreground">Loading sensor data...</p>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <SensorPopup
+        sensor={selectedSensor}
+        isOpen={selectedSensor !== null}
+        onClose={() => setSelectedSensor(null)}
+        onViewInMap={sensorId => navigate(`/?sensor=${sensorId}`)}
+        onLiveTracking={deviceId => navigate(getMonitoringPath([deviceId]))}
+      />
+    </div>
+  );
+};
+
+export default Zones;
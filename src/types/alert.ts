@@ -0,0 +1,38 @@
+export type AlertState = 'new' | 'acknowledged' | 'dispatched' | 'contained' | 'resolved' | 'false_alarm';
+
+export type AlertEventType = 'raised' | 'escalated' | 'transition' | 'note' | 'sensor_cleared';
+
+// One entry in an alert's audit trail; never edited once written
+export interface AlertEvent {
+  at: string;
+  type: AlertEventType;
+  // Operator name for actions taken in the dashboard, absent for system events
+  by?: string;
+  // Set on transitions
+  from?: AlertState;
+  to?: AlertState;
+  note?: string;
+}
+
+// Operator-facing lifecycle of a fire detection, one per fire alert session
+export interface FireAlert {
+  id: string;
+  sessionId: string;
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  raisedAt: string;
+  // Last time the alert demanded attention: when raised and on every escalation
+  lastRaisedAt: string;
+  state: AlertState;
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+  escalations: number;
+  // Oldest first
+  events: AlertEvent[];
+}
+
+export interface AlertEscalationConfig {
+  // Re-raise alerts still unacknowledged after this long; 0 turns escalation off
+  escalateAfterMinutes: number;
+}
@@ -0,0 +1,33 @@
+// How an operator classified a fire alert session after the fact
+export type SessionTag = 'confirmed_fire' | 'false_alarm' | 'controlled_burn' | 'sensor_fault' | 'drill';
+
+// One entry in a session's notes log; never edited once written
+export interface SessionNote {
+  id: string;
+  at: string;
+  by: string;
+  text: string;
+}
+
+// Photo details; the image itself is kept in IndexedDB under the same id
+export interface SessionAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  addedAt: string;
+}
+
+// Operator context for one fire alert session, kept apart from the session so the
+// engine never overwrites it
+export interface SessionAnnotation {
+  sessionId: string;
+  tags: SessionTag[];
+  rootCause?: string;
+  // Oldest first
+  notes: SessionNote[];
+  attachments: SessionAttachment[];
+  updatedAt: string;
+}
+
+export type SessionAnnotations = Record<string, SessionAnnotation>;
@@ -0,0 +1,46 @@
+import { HistoryMetrics } from './history';
+
+export type AnomalyMetric = keyof HistoryMetrics;
+
+// Mean and standard deviation of one metric for one hour of the day
+export interface MetricBaseline {
+  mean: number;
+  std: number;
+  count: number;
+}
+
+// Indexed by local hour of day, 0-23; hours without enough history are null
+export type SensorBaseline = (Record<AnomalyMetric, MetricBaseline> | null)[];
+
+export type AnomalyFinding =
+  | {
+      kind: 'deviation';
+      metric: AnomalyMetric;
+      value: number;
+      hour: number;
+      baseline: MetricBaseline;
+      // Signed number of standard deviations from the hourly mean
+      zScore: number;
+    }
+  | {
+      kind: 'rapid_change';
+      metric: AnomalyMetric;
+      value: number;
+      // Signed change against the lowest (or, for humidity, highest) value in the window
+      change: number;
+      windowMinutes: number;
+    };
+
+export interface AnomalyReport {
+  findings: AnomalyFinding[];
+}
+
+export interface AnomalyConfig {
+  enabled: boolean;
+  // Standard deviations from the hourly baseline that count as anomalous
+  zScore: number;
+  riseWindowMinutes: number;
+  tempRiseC: number;
+  smokeRisePpm: number;
+  humidityDropPct: number;
+}
@@ -0,0 +1,24 @@
+export type FireDangerLevel = 'low' | 'moderate' | 'high' | 'very_high' | 'extreme';
+
+// Each component is 0..1, higher is more dangerous
+export interface FireDangerComponents {
+  // Current temperature and humidity, through the Angstrom index
+  weather: number;
+  // How dry the sensor's surroundings have been over the past days
+  dryness: number;
+  // How fast smoke has been rising over the last hour
+  smokeTrend: number;
+}
+
+export interface FireDangerReport {
+  // 0..100 composite score
+  score: number;
+  level: FireDangerLevel;
+  // Angstrom index of the current reading; below 2 means fire is very likely
+  angstrom: number;
+  components: FireDangerComponents;
+  // Mean daily minimum humidity over the dryness window, when history covers it
+  dryHumidity: number | null;
+  // Least-squares smoke slope over the trend window, ppm per hour
+  smokeTrendPpmPerHour: number | null;
+}
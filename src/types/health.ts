@@ -0,0 +1,18 @@
+// Device health, independent of the fire status of its readings
+export type SensorHealth = 'healthy' | 'stale' | 'offline' | 'faulty';
+
+export interface HealthConfig {
+  // Minutes since the last reading before a sensor is stale, then offline
+  staleAfterMinutes: number;
+  offlineAfterMinutes: number;
+  // Identical readings for this long count as a flat-lined sensor; 0 disables the check
+  flatlineMinutes: number;
+}
+
+export interface SensorHealthReport {
+  health: SensorHealth;
+  // Human-readable reasons, empty when healthy
+  issues: string[];
+  // Milliseconds since the last reading
+  ageMs: number;
+}
@@ -0,0 +1,51 @@
+// Resolution tiers of the reading history, finest first
+export type HistoryResolution = 'raw' | 'minute' | 'hour';
+
+export interface HistoryMetrics {
+  temp: number;
+  humidity: number;
+  smoke: number;
+}
+
+// One reading exactly as reported by a device
+export interface RawReading extends HistoryMetrics {
+  deviceId: string;
+  // Epoch milliseconds of the device timestamp
+  time: number;
+  isFire: boolean;
+}
+
+// Aggregate of all readings in a minute or hour bucket; sums keep merges exact
+export interface ReadingRollup {
+  deviceId: string;
+  resolution: Exclude<HistoryResolution, 'raw'>;
+  // Bucket start, epoch milliseconds
+  time: number;
+  count: number;
+  fireCount: number;
+  min: HistoryMetrics;
+  max: HistoryMetrics;
+  sum: HistoryMetrics;
+}
+
+// Range query result: raw readings and rollups flattened to one shape
+export interface HistoryPoint extends HistoryMetrics {
+  deviceId: string;
+  time: number;
+  resolution: HistoryResolution;
+  // Readings represented by this point (1 for raw)
+  count: number;
+  // True if any reading in the point reported fire
+  isFire: boolean;
+  min: HistoryMetrics;
+  max: HistoryMetrics;
+}
+
+export interface RetentionPolicy {
+  // Raw readings older than this are rolled up into minutes
+  rawHours: number;
+  // Minute rollups older than this are rolled up into hours
+  minuteDays: number;
+  // Hour rollups older than this are deleted
+  hourDays: number;
+}
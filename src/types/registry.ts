@@ -0,0 +1,15 @@
+// Operator-maintained details for a deployed sensor, keyed by deviceId.
+// Every field is optional: the registry only stores what the operator entered.
+export interface SensorMetadata {
+  deviceId: string;
+  name?: string;
+  // yyyy-mm-dd
+  installDate?: string;
+  mountingHeightM?: number;
+  ranger?: string;
+  hardwareRevision?: string;
+  notes?: string;
+  updatedAt: string;
+}
+
+export type SensorRegistry = Record<string, SensorMetadata>;
@@ -1,3 +1,21 @@
+import { AnomalyReport } from './anomaly';
+import { FireDangerReport } from './danger';
+import { SensorHealth, SensorHealthReport } from './health';
+import { SensorMetadata } from './registry';
+
+// Reading as returned by a data source, before normalization
+export interface AlertData {
+  id: string;
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  humidity: number;
+  temp: number;
+  smoke: number;
+  isFire: boolean;
+  timestamp: string;
+}
+
 export interface SensorData {
   id: string;
   deviceId: string;
@@ -9,7 +27,17 @@ export interface SensorData {
   isFire: boolean;
   timestamp: string;
   name?: string;
+  // 'inactive' once the health engine marks the sensor offline
   status?: 'active' | 'inactive' | 'warning';
+  validationIssues?: string[];
+  // Operator-entered details from the sensor registry
+  metadata?: SensorMetadata;
+  // Device health from the health engine; separate from the fire status of the reading
+  health?: SensorHealthReport;
+  // Baseline deviations and rapid changes from the anomaly detector
+  anomaly?: AnomalyReport;
+  // Composite fire danger index from the risk model
+  danger?: FireDangerReport;
 }
 
 export interface SensorStats {
@@ -17,4 +45,6 @@ export interface SensorStats {
   activeSensors: number;
   fireDetected: number;
   warningStatus: number;
+  // Sensors per health state, when the health engine has run
+  health?: Record<SensorHealth, number>;
 }
\ No newline at end of file
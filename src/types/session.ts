@@ -0,0 +1,48 @@
+// Reading as captured into a fire alert session
+export interface SensorReading {
+  id: string;
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  humidity: number;
+  temp: number;
+  smoke: number;
+  isFire: boolean;
+  timestamp: string;
+  name: string;
+  status: string;
+}
+
+export interface FireAlertSession {
+  id: string;
+  deviceId: string;
+  startTime: string;
+  endTime: string | null;
+  // Newest first; a bounded sample, the full series lives in the reading history
+  readings: SensorReading[];
+  // Readings folded into the stats; older sessions without it used readings.length
+  readingCount?: number;
+  maxTemp: number;
+  minTemp: number;
+  avgTemp: number;
+  maxSmoke: number;
+  minSmoke: number;
+  avgSmoke: number;
+  maxHumidity: number;
+  minHumidity: number;
+  avgHumidity: number;
+  status: 'active' | 'completed';
+  // Why a completed session ended; older sessions without it were cleared
+  endReason?: 'cleared' | 'silent';
+}
+
+export interface SessionEngineConfig {
+  // Consecutive isFire readings needed before a session opens (debounce)
+  openConfirmReadings: number;
+  // How long a device must stay clear before its session closes
+  closeConfirmSeconds: number;
+  // Hysteresis: also require readings back at normal level, not just isFire off
+  requireClearLevels: boolean;
+  // Close a session when its sensor has sent nothing for this long; 0 keeps it open
+  closeAfterSilentMinutes: number;
+}
@@ -0,0 +1,93 @@
+import { AlertEscalationConfig } from './alert';
+import { AnomalyConfig } from './anomaly';
+import { HealthConfig } from './health';
+import { RetentionPolicy } from './history';
+import { SessionEngineConfig } from './session';
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+export type SmokeUnit = 'ppm' | 'ppb';
+
+export type DataSourceSetting = 'default' | 'rest' | 'simulator' | 'replay';
+
+export type RealtimeTransport = 'off' | 'sse' | 'websocket';
+
+export type SirenPattern = 'wail' | 'yelp' | 'beep';
+
+// Times are HH:mm in the browser's local time; the range may wrap past midnight
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export type DateFormat = 'locale' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
+
+export interface AppSettings {
+  version: number;
+  api: {
+    baseUrl: string;
+  };
+  dataSource: {
+    // 'default' defers to the VITE_DATA_SOURCE env var, then the REST API
+    kind: DataSourceSetting;
+    replaySpeed: number;
+    replayLoop: boolean;
+  };
+  simulator: {
+    // Built-in scenario id, or 'custom' for an uploaded scenario file
+    scenarioId: string;
+    seed: number;
+    sensorCount: number;
+    // Simulated seconds per real second
+    speed: number;
+  };
+  // Push updates; polling takes over whenever the stream is not live
+  realtime: {
+    transport: RealtimeTransport;
+    url: string;
+  };
+  // Refetch intervals in seconds
+  polling: {
+    dashboard: number;
+    sensorStatus: number;
+    liveMonitoringList: number;
+    liveMonitoringDetail: number;
+  };
+  // When fire alert sessions open and close
+  sessions: SessionEngineConfig;
+  // Escalation of unacknowledged alerts and who is on duty
+  alerts: AlertEscalationConfig & {
+    // Pre-filled as the acknowledging operator; updated on every action
+    operatorName: string;
+  };
+  // When a sensor counts as stale, offline or flat-lined
+  health: HealthConfig;
+  // Baseline deviations and rapid rises flagged before the device reports fire
+  anomaly: AnomalyConfig;
+  // How long each resolution of the reading history is kept
+  history: RetentionPolicy;
+  units: {
+    temperature: TemperatureUnit;
+    smoke: SmokeUnit;
+  };
+  display: {
+    // 'local' follows the browser, anything else is an IANA zone name
+    timeZone: string;
+    dateFormat: DateFormat;
+    hour12: boolean;
+  };
+  map: {
+    centerLat: number;
+    centerLng: number;
+    zoom: number;
+  };
+  notifications: {
+    soundEnabled: boolean;
+    volume: number;
+    sirenPattern: SirenPattern;
+    browserNotifications: boolean;
+    // Mutes the siren and makes browser notifications silent
+    quietHours: QuietHours;
+  };
+}
@@ -0,0 +1,29 @@
+// Wind as entered by the operator; direction is where the wind blows FROM, in degrees from north
+export interface WindInput {
+  directionDeg: number;
+  speedKmh: number;
+}
+
+export interface MetricRates {
+  // Per minute, from a least-squares fit over recent history; 0 without enough points
+  tempPerMinute: number;
+  smokePerMinute: number;
+}
+
+export interface SpreadHorizon {
+  minutes: number;
+  // Closed ring of [lat, lng] pairs
+  polygon: Array<[number, number]>;
+}
+
+export interface SpreadPrediction {
+  deviceId: string;
+  latitude: number;
+  longitude: number;
+  // 0..1 from temperature, smoke and dryness against the sensor's profile
+  severity: number;
+  currentRadiusMeters: number;
+  // Head fire rate of spread before direction and neighbour effects, metres per minute
+  headRateMetersPerMinute: number;
+  horizons: SpreadHorizon[];
+}
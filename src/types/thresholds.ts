@@ -0,0 +1,25 @@
+export interface ThresholdProfile {
+  id: string;
+  name: string;
+  description?: string;
+  tempWarning: number;
+  tempCritical: number;
+  smokeWarning: number;
+  smokeCritical: number;
+  // Humidity is a floor: readings below these values raise the level
+  humidityWarning: number;
+  humidityCritical: number;
+}
+
+export interface ThresholdState {
+  profiles: ThresholdProfile[];
+  activeProfileId: string;
+  // deviceId -> profile id, overriding the active profile for that device
+  deviceAssignments: Record<string, string>;
+}
+
+// 'anomaly' is never produced by thresholds: it marks a reading that is within
+// thresholds but unusual for the sensor (see src/lib/anomalyDetection.ts)
+export type SensorStatusLevel = 'normal' | 'anomaly' | 'warning' | 'fire';
+
+export type RiskLevel = 'Low' | 'Medium' | 'High';
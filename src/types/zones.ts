@@ -0,0 +1,29 @@
+import { SensorStatusLevel } from './thresholds';
+
+// Administrative levels of a forest department, largest first
+export type ZoneLevel = 'division' | 'range' | 'beat';
+
+// [longitude, latitude], as in GeoJSON
+export type Position = [number, number];
+
+export interface ForestZone {
+  id: string;
+  name: string;
+  level: ZoneLevel;
+  // Polygons of a MultiPolygon; each is an outer ring followed by any holes
+  polygons: Position[][][];
+  // [minLng, minLat, maxLng, maxLat]
+  bbox: [number, number, number, number];
+}
+
+// The most specific zone containing a point, per level
+export type ZoneAssignment = Partial<Record<ZoneLevel, ForestZone>>;
+
+export interface ZoneSummary {
+  zone: ForestZone;
+  sensorCount: number;
+  fireCount: number;
+  warningCount: number;
+  // Worst status among the zone's sensors
+  status: SensorStatusLevel;
+}
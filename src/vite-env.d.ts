@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Default sensor data source: 'rest', 'simulator' or 'replay'
+  readonly VITE_DATA_SOURCE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}